@@ -4,6 +4,7 @@ import NotificationsPage from '../notifications/page';
 import ConnectionsPage from '../connections/page';
 import AppearancePage from '../appearance/page';
 import ShortcutsPage from '../shortcuts/page';
+import TemplatesPage from '../templates/page';
 import SecurityPage from '../security/page';
 import { useParams } from 'next/navigation';
 import { useTranslations } from 'next-intl';
@@ -18,6 +19,7 @@ const settingsPages: Record<string, React.ComponentType> = {
   shortcuts: ShortcutsPage,
   notifications: NotificationsPage,
   labels: LabelsPage,
+  templates: TemplatesPage,
 };
 
 export default function SettingsPage() {
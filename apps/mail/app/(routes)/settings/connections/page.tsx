@@ -10,8 +10,11 @@ import {
   DialogClose,
 } from '@/components/ui/dialog';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { MailboxMappingDialog } from '@/components/connection/mailbox-mapping';
+import { IdentitiesDialog } from '@/components/connection/identities';
 import { SettingsCard } from '@/components/settings/settings-card';
 import { AddConnectionDialog } from '@/components/connection/add';
+import { FolderCog, Trash, Plus, AtSign } from 'lucide-react';
 import { useConnections } from '@/hooks/use-connections';
 import { useTRPC } from '@/providers/query-provider';
 import { Skeleton } from '@/components/ui/skeleton';
@@ -21,7 +24,6 @@ import { emailProviders } from '@/lib/constants';
 import { Button } from '@/components/ui/button';
 import { useSession } from '@/lib/auth-client';
 import { useTranslations } from 'next-intl';
-import { Trash, Plus } from 'lucide-react';
 import { useState } from 'react';
 import Image from 'next/image';
 import { toast } from 'sonner';
@@ -132,6 +134,30 @@ export default function ConnectionsPage() {
                       </div>
                     </div>
                   </div>
+                  {connection.providerId === 'generic_imap_smtp' && (
+                    <IdentitiesDialog connectionId={connection.id}>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-muted-foreground hover:text-primary ml-auto shrink-0"
+                        title={t('pages.settings.connections.identities')}
+                      >
+                        <AtSign className="h-4 w-4" />
+                      </Button>
+                    </IdentitiesDialog>
+                  )}
+                  {connection.providerId === 'generic_imap_smtp' && (
+                    <MailboxMappingDialog connectionId={connection.id}>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-muted-foreground hover:text-primary shrink-0"
+                        title={t('pages.settings.connections.mailboxMapping')}
+                      >
+                        <FolderCog className="h-4 w-4" />
+                      </Button>
+                    </MailboxMappingDialog>
+                  )}
                   <Dialog>
                     <DialogTrigger asChild>
                       <Button
@@ -37,6 +37,9 @@ import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
 import * as z from 'zod';
 
+// Seconds a sent email can still be undone, within the 5 to 30 the settings allow
+const UNDO_SEND_OPTIONS = [5, 10, 20, 30];
+
 const TimezoneSelect = memo(
   ({
     field,
@@ -131,6 +134,7 @@ export default function GeneralPage() {
       timezone: getBrowserTimezone(),
       dynamicContent: false,
       customPrompt: '',
+      undoSendSeconds: 10,
     },
   });
 
@@ -219,6 +223,32 @@ export default function GeneralPage() {
                   </FormItem>
                 )}
               />
+              <FormField
+                control={form.control}
+                name="undoSendSeconds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t('pages.settings.general.undoSend')}</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(Number(value))}
+                      value={String(field.value)}
+                    >
+                      <FormControl>
+                        <SelectTrigger className="w-36">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {UNDO_SEND_OPTIONS.map((seconds) => (
+                          <SelectItem key={seconds} value={String(seconds)}>
+                            {t('pages.settings.general.undoSendSeconds', { seconds })}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
             </div>
             <FormField
               control={form.control}
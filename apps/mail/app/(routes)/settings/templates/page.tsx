@@ -0,0 +1,299 @@
+'use client';
+
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { TEMPLATE_VARIABLES, TEMPLATES_FILE_NAME, type EmailTemplate } from '@/lib/templates';
+import { Download, Pencil, Plus, Trash, Upload } from 'lucide-react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { SettingsCard } from '@/components/settings/settings-card';
+import useComposeEditor from '@/hooks/use-compose-editor';
+import { useConnections } from '@/hooks/use-connections';
+import { useAllTemplates } from '@/hooks/use-templates';
+import { useTRPC } from '@/providers/query-provider';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { EditorContent } from '@tiptap/react';
+import { useTranslations } from 'next-intl';
+import { useRef, useState } from 'react';
+import { toast } from 'sonner';
+
+type TemplateDraft = Omit<EmailTemplate, 'id'> & { id?: string };
+
+const EMPTY_TEMPLATE: TemplateDraft = { name: '', subject: null, body: '', connectionId: null };
+
+const TemplateForm = ({
+  template,
+  onSaved,
+}: {
+  template: TemplateDraft;
+  onSaved: () => void | Promise<void>;
+}) => {
+  const t = useTranslations();
+  const trpc = useTRPC();
+  const [name, setName] = useState(template.name);
+  const [subject, setSubject] = useState(template.subject ?? '');
+  // Templates without a connection are shared by all of them
+  const [shared, setShared] = useState(!template.id || template.connectionId === null);
+  const { mutateAsync: saveTemplate, isPending } = useMutation(
+    trpc.templates.save.mutationOptions(),
+  );
+  const editor = useComposeEditor({
+    initialValue: template.body,
+    placeholder: t('pages.settings.templates.bodyPlaceholder'),
+  });
+
+  const save = async () => {
+    await saveTemplate(
+      {
+        id: template.id,
+        name: name.trim(),
+        subject: subject.trim() || null,
+        body: editor.getHTML(),
+        shared,
+      },
+      {
+        onSuccess: async () => {
+          toast.success(t('pages.settings.templates.templateSaved'));
+          await onSaved();
+        },
+        onError: (error) =>
+          toast.error(error.message || t('pages.settings.templates.templateError')),
+      },
+    );
+  };
+
+  return (
+    <div className="grid gap-4">
+      <div className="grid gap-2">
+        <Label>{t('pages.settings.templates.name')}</Label>
+        <Input
+          value={name}
+          placeholder={t('pages.settings.templates.namePlaceholder')}
+          onChange={(event) => setName(event.target.value)}
+        />
+      </div>
+      <div className="grid gap-2">
+        <Label>{t('pages.settings.templates.subject')}</Label>
+        <Input
+          value={subject}
+          placeholder={t('pages.settings.templates.subjectPlaceholder')}
+          onChange={(event) => setSubject(event.target.value)}
+        />
+      </div>
+      <div className="grid gap-2">
+        <Label>{t('pages.settings.templates.body')}</Label>
+        <div className="max-h-[280px] overflow-y-auto rounded-md border px-3 py-2 [&_.ProseMirror]:min-h-[160px]">
+          <EditorContent editor={editor} />
+        </div>
+        <p className="text-muted-foreground text-xs">
+          {t('pages.settings.templates.variablesDescription')}{' '}
+          {TEMPLATE_VARIABLES.map((variable) => `{{${variable}}}`).join(', ')}
+        </p>
+      </div>
+      <div className="flex items-center justify-between gap-4 rounded-lg border p-3">
+        <div>
+          <Label>{t('pages.settings.templates.shared')}</Label>
+          <p className="text-muted-foreground text-xs">
+            {t('pages.settings.templates.sharedDescription')}
+          </p>
+        </div>
+        <Switch checked={shared} onCheckedChange={setShared} />
+      </div>
+      <div className="flex justify-end gap-4">
+        <DialogClose asChild>
+          <Button variant="outline">{t('common.actions.cancel')}</Button>
+        </DialogClose>
+        <Button onClick={save} disabled={!name.trim() || isPending}>
+          {t('common.actions.saveChanges')}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default function TemplatesPage() {
+  const t = useTranslations();
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // The template being added or edited in the dialog
+  const [editing, setEditing] = useState<TemplateDraft | null>(null);
+  const { data, isLoading, refetch } = useAllTemplates();
+  const { data: connectionsData } = useConnections();
+  const { mutateAsync: deleteTemplate } = useMutation(trpc.templates.delete.mutationOptions());
+  const { mutateAsync: importTemplates } = useMutation(trpc.templates.import.mutationOptions());
+
+  const templates = data?.templates ?? [];
+
+  // The composer only lists those of the active connection
+  const refresh = () =>
+    Promise.all([
+      refetch(),
+      queryClient.invalidateQueries({ queryKey: trpc.templates.list.queryKey() }),
+    ]);
+
+  const connectionEmail = (connectionId: string) =>
+    connectionsData?.connections.find((connection) => connection.id === connectionId)?.email;
+
+  const remove = async (id: string) => {
+    await deleteTemplate(
+      { id },
+      {
+        onSuccess: async () => {
+          toast.success(t('pages.settings.templates.templateDeleted'));
+          await refresh();
+        },
+        onError: () => toast.error(t('pages.settings.templates.templateError')),
+      },
+    );
+  };
+
+  // All of the user's templates, those kept to other connections included
+  const exportTemplates = async () => {
+    try {
+      const exported = await queryClient.fetchQuery({
+        ...trpc.templates.export.queryOptions(),
+        staleTime: 0,
+      });
+      const blob = new Blob([JSON.stringify(exported, null, 2)], { type: 'application/json' });
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = TEMPLATES_FILE_NAME;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting templates:', error);
+      toast.error(t('pages.settings.templates.exportError'));
+    }
+  };
+
+  const importFile = async (file: File) => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await file.text());
+    } catch {
+      toast.error(t('pages.settings.templates.importError'));
+      return;
+    }
+    await importTemplates(parsed as Parameters<typeof importTemplates>[0], {
+      onSuccess: async ({ imported }) => {
+        toast.success(t('pages.settings.templates.imported', { count: imported }));
+        await refresh();
+      },
+      onError: () => toast.error(t('pages.settings.templates.importError')),
+    });
+  };
+
+  return (
+    <div className="grid gap-6">
+      <SettingsCard
+        title={t('pages.settings.templates.title')}
+        description={t('pages.settings.templates.description')}
+        action={
+          <div className="flex gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                event.target.value = '';
+                if (file) void importFile(file);
+              }}
+            />
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="mr-2 h-4 w-4" />
+              {t('pages.settings.templates.import')}
+            </Button>
+            <Button variant="outline" onClick={exportTemplates}>
+              <Download className="mr-2 h-4 w-4" />
+              {t('pages.settings.templates.export')}
+            </Button>
+            <Button onClick={() => setEditing(EMPTY_TEMPLATE)}>
+              <Plus className="mr-2 h-4 w-4" />
+              {t('pages.settings.templates.newTemplate')}
+            </Button>
+          </div>
+        }
+      >
+        <div className="grid gap-4">
+          {isLoading ? (
+            <Skeleton className="h-24 w-full" />
+          ) : templates.length === 0 ? (
+            <p className="text-muted-foreground text-sm">
+              {t('pages.settings.templates.noTemplates')}
+            </p>
+          ) : (
+            templates.map((template) => (
+              <div
+                key={template.id}
+                className="flex items-center justify-between gap-2 rounded-lg border p-3"
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="truncate text-sm font-medium">{template.name}</p>
+                    {template.connectionId === null ? (
+                      <Badge variant="secondary">{t('pages.settings.templates.sharedBadge')}</Badge>
+                    ) : (
+                      connectionEmail(template.connectionId) && (
+                        <Badge variant="outline" className="truncate">
+                          {connectionEmail(template.connectionId)}
+                        </Badge>
+                      )
+                    )}
+                  </div>
+                  {template.subject && (
+                    <p className="text-muted-foreground truncate text-xs">{template.subject}</p>
+                  )}
+                </div>
+                <div className="flex shrink-0 gap-1">
+                  <Button variant="ghost" size="icon" onClick={() => setEditing(template)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => remove(template.id)}>
+                    <Trash className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </SettingsCard>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {editing?.id
+                ? t('pages.settings.templates.editTemplate')
+                : t('pages.settings.templates.newTemplate')}
+            </DialogTitle>
+          </DialogHeader>
+          {editing && (
+            <TemplateForm
+              key={editing.id ?? 'new'}
+              template={editing}
+              onSaved={async () => {
+                setEditing(null);
+                await refresh();
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
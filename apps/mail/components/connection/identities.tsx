@@ -0,0 +1,237 @@
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '../ui/dialog';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useTRPC } from '@/providers/query-provider';
+import { Pencil, Plus, Trash } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+import { Skeleton } from '../ui/skeleton';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { useState } from 'react';
+import { toast } from 'sonner';
+
+interface IdentityDraft {
+  id?: string;
+  email: string;
+  name: string;
+  replyTo: string;
+  smtpUsername: string;
+  smtpPassword: string;
+  hasSmtpPassword: boolean;
+}
+
+const EMPTY_IDENTITY: IdentityDraft = {
+  email: '',
+  name: '',
+  replyTo: '',
+  smtpUsername: '',
+  smtpPassword: '',
+  hasSmtpPassword: false,
+};
+
+export const IdentitiesDialog = ({
+  connectionId,
+  children,
+}: {
+  connectionId: string;
+  children: React.ReactNode;
+}) => {
+  const [open, setOpen] = useState(false);
+  // The identity being added or edited, the list is shown without one
+  const [editing, setEditing] = useState<IdentityDraft | null>(null);
+  const t = useTranslations();
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+  const {
+    data: identities,
+    isLoading,
+    refetch,
+  } = useQuery(trpc.connections.identities.queryOptions({ connectionId }, { enabled: open }));
+  const { mutateAsync: saveIdentity, isPending: isSaving } = useMutation(
+    trpc.connections.saveIdentity.mutationOptions(),
+  );
+  const { mutateAsync: deleteIdentity } = useMutation(
+    trpc.connections.deleteIdentity.mutationOptions(),
+  );
+
+  // The composer lists the identities as the addresses to send from
+  const changed = async () => {
+    await Promise.all([
+      refetch(),
+      queryClient.invalidateQueries({ queryKey: trpc.mail.getEmailAliases.queryKey() }),
+    ]);
+  };
+
+  const save = async () => {
+    if (!editing) return;
+    await saveIdentity(
+      {
+        connectionId,
+        id: editing.id,
+        email: editing.email.trim(),
+        name: editing.name.trim() || undefined,
+        replyTo: editing.replyTo.trim() || undefined,
+        smtpUsername: editing.smtpUsername.trim() || undefined,
+        smtpPassword: editing.smtpPassword || undefined,
+      },
+      {
+        onSuccess: async () => {
+          toast.success(t('pages.settings.connections.identitySaved'));
+          setEditing(null);
+          await changed();
+        },
+        onError: (error) =>
+          toast.error(error.message || t('pages.settings.connections.identityError')),
+      },
+    );
+  };
+
+  const remove = async (id: string) => {
+    await deleteIdentity(
+      { connectionId, id },
+      {
+        onSuccess: async () => {
+          toast.success(t('pages.settings.connections.identityDeleted'));
+          await changed();
+        },
+        onError: () => toast.error(t('pages.settings.connections.identityError')),
+      },
+    );
+  };
+
+  const field = (key: keyof Omit<IdentityDraft, 'id' | 'hasSmtpPassword'>) => ({
+    value: editing?.[key] ?? '',
+    onChange: (event: React.ChangeEvent<HTMLInputElement>) =>
+      setEditing((current) => current && { ...current, [key]: event.target.value }),
+  });
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        setOpen(value);
+        setEditing(null);
+      }}
+    >
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t('pages.settings.connections.identitiesTitle')}</DialogTitle>
+          <DialogDescription>
+            {t('pages.settings.connections.identitiesDescription')}
+          </DialogDescription>
+        </DialogHeader>
+        {editing ? (
+          <div className="grid gap-4">
+            <div className="grid gap-2">
+              <Label>{t('pages.settings.connections.identityEmail')}</Label>
+              <Input type="email" placeholder="support@example.com" {...field('email')} />
+            </div>
+            <div className="grid gap-2">
+              <Label>{t('pages.settings.connections.identityName')}</Label>
+              <Input {...field('name')} />
+            </div>
+            <div className="grid gap-2">
+              <Label>{t('pages.settings.connections.identityReplyTo')}</Label>
+              <Input type="email" {...field('replyTo')} />
+            </div>
+            <div className="grid gap-2">
+              <Label>{t('pages.settings.connections.identitySmtpUsername')}</Label>
+              <Input
+                placeholder={t('pages.settings.connections.identitySmtpUsernamePlaceholder')}
+                {...field('smtpUsername')}
+              />
+            </div>
+            {editing.smtpUsername.trim() && (
+              <div className="grid gap-2">
+                <Label>{t('pages.settings.connections.identitySmtpPassword')}</Label>
+                <Input
+                  type="password"
+                  placeholder={
+                    editing.hasSmtpPassword
+                      ? t('pages.settings.connections.identitySmtpPasswordUnchanged')
+                      : undefined
+                  }
+                  {...field('smtpPassword')}
+                />
+              </div>
+            )}
+            <div className="flex justify-end gap-4">
+              <Button variant="outline" onClick={() => setEditing(null)}>
+                {t('pages.settings.connections.cancel')}
+              </Button>
+              <Button onClick={save} disabled={!editing.email.trim() || isSaving}>
+                {t('common.actions.saveChanges')}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="grid gap-4">
+            {isLoading || !identities ? (
+              <Skeleton className="h-12 w-full" />
+            ) : identities.length === 0 ? (
+              <p className="text-muted-foreground text-sm">
+                {t('pages.settings.connections.noIdentities')}
+              </p>
+            ) : (
+              identities.map((identity) => (
+                <div
+                  key={identity.id}
+                  className="flex items-center justify-between gap-2 rounded-lg border p-3"
+                >
+                  <div className="min-w-0">
+                    <p className="truncate text-sm font-medium">
+                      {identity.name || identity.email}
+                    </p>
+                    {identity.name && (
+                      <p className="text-muted-foreground truncate text-xs">{identity.email}</p>
+                    )}
+                  </div>
+                  <div className="flex shrink-0 gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() =>
+                        setEditing({
+                          id: identity.id,
+                          email: identity.email,
+                          name: identity.name ?? '',
+                          replyTo: identity.replyTo ?? '',
+                          smtpUsername: identity.smtpUsername ?? '',
+                          smtpPassword: '',
+                          hasSmtpPassword: identity.hasSmtpPassword,
+                        })
+                      }
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => remove(identity.id)}>
+                      <Trash className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+            <div className="flex justify-between gap-4">
+              <Button variant="outline" onClick={() => setEditing(EMPTY_IDENTITY)}>
+                <Plus className="mr-2 h-4 w-4" />
+                {t('pages.settings.connections.addIdentity')}
+              </Button>
+              <DialogClose asChild>
+                <Button variant="outline">{t('common.actions.close')}</Button>
+              </DialogClose>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,160 @@
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '../ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { useTRPC } from '@/providers/query-provider';
+import { useTranslations } from 'next-intl';
+import { useEffect, useState } from 'react';
+import { Skeleton } from '../ui/skeleton';
+import { Button } from '../ui/button';
+import { Label } from '../ui/label';
+import { toast } from 'sonner';
+
+const AUTOMATIC = '__automatic__';
+
+const FOLDERS = [
+  { id: 'inbox', label: 'navigation.sidebar.inbox' },
+  { id: 'sent', label: 'navigation.sidebar.sent' },
+  { id: 'draft', label: 'navigation.sidebar.drafts' },
+  { id: 'archive', label: 'navigation.sidebar.archive' },
+  { id: 'spam', label: 'navigation.sidebar.spam' },
+  { id: 'bin', label: 'navigation.sidebar.bin' },
+] as const;
+
+export const MailboxMappingDialog = ({
+  connectionId,
+  children,
+}: {
+  connectionId: string;
+  children: React.ReactNode;
+}) => {
+  const [open, setOpen] = useState(false);
+  const [overrides, setOverrides] = useState<Record<string, string>>({});
+  const [saveSentCopy, setSaveSentCopy] = useState<boolean | null>(null);
+  const t = useTranslations();
+  const trpc = useTRPC();
+  const { data, isLoading } = useQuery(
+    trpc.connections.getMailboxMapping.queryOptions({ connectionId }, { enabled: open }),
+  );
+  const { mutateAsync: updateMailboxMapping, isPending } = useMutation(
+    trpc.connections.updateMailboxMapping.mutationOptions(),
+  );
+
+  useEffect(() => {
+    if (!data) return;
+    setOverrides(data.overrides);
+    setSaveSentCopy(data.saveSentCopy);
+  }, [data]);
+
+  const save = async () => {
+    await updateMailboxMapping(
+      { connectionId, mapping: overrides, saveSentCopy },
+      {
+        onSuccess: () => {
+          toast.success(t('pages.settings.connections.mailboxMappingSaved'));
+          setOpen(false);
+        },
+        onError: () => toast.error(t('pages.settings.connections.mailboxMappingError')),
+      },
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t('pages.settings.connections.mailboxMappingTitle')}</DialogTitle>
+          <DialogDescription>
+            {t('pages.settings.connections.mailboxMappingDescription')}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4">
+          {FOLDERS.map((folder) => {
+            const detected = data?.detected[folder.id];
+            return (
+              <div key={folder.id} className="grid grid-cols-3 items-center gap-4">
+                <Label>{t(folder.label)}</Label>
+                {isLoading || !data ? (
+                  <Skeleton className="col-span-2 h-9 w-full" />
+                ) : (
+                  <Select
+                    value={overrides[folder.id] ?? AUTOMATIC}
+                    onValueChange={(value) =>
+                      setOverrides(({ [folder.id]: _, ...rest }) =>
+                        value === AUTOMATIC ? rest : { ...rest, [folder.id]: value },
+                      )
+                    }
+                  >
+                    <SelectTrigger className="col-span-2">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={AUTOMATIC}>
+                        {detected
+                          ? t('pages.settings.connections.mailboxAutomaticDetected', {
+                              mailbox: detected,
+                            })
+                          : t('pages.settings.connections.mailboxAutomatic')}
+                      </SelectItem>
+                      {data.mailboxes.map((mailbox) => (
+                        <SelectItem key={mailbox.path} value={mailbox.path}>
+                          {mailbox.path}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            );
+          })}
+          <div className="grid grid-cols-3 items-center gap-4">
+            <Label>{t('pages.settings.connections.saveSentCopy')}</Label>
+            {isLoading || !data ? (
+              <Skeleton className="col-span-2 h-9 w-full" />
+            ) : (
+              <Select
+                value={saveSentCopy === null ? AUTOMATIC : String(saveSentCopy)}
+                onValueChange={(value) =>
+                  setSaveSentCopy(value === AUTOMATIC ? null : value === 'true')
+                }
+              >
+                <SelectTrigger className="col-span-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={AUTOMATIC}>
+                    {data.serverSavesSentMail
+                      ? t('pages.settings.connections.saveSentCopyAutomaticServer')
+                      : t('pages.settings.connections.saveSentCopyAutomatic')}
+                  </SelectItem>
+                  <SelectItem value="true">
+                    {t('pages.settings.connections.saveSentCopyAlways')}
+                  </SelectItem>
+                  <SelectItem value="false">
+                    {t('pages.settings.connections.saveSentCopyNever')}
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        </div>
+        <div className="flex justify-end gap-4">
+          <DialogClose asChild>
+            <Button variant="outline">{t('pages.settings.connections.cancel')}</Button>
+          </DialogClose>
+          <Button onClick={save} disabled={!data || isPending}>
+            {t('common.actions.saveChanges')}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -100,11 +100,12 @@ export function CreateEmail({
     subject: string;
     message: string;
     attachments: File[];
+    fromEmail?: string;
   }) => {
     // Use the selected from email or the first alias (or default user email)
-    const fromEmail = aliases?.[0]?.email ?? userEmail;
+    const fromEmail = data.fromEmail ?? aliases?.[0]?.email ?? userEmail;
 
-    await sendEmail({
+    const result = await sendEmail({
       to: data.to.map((email) => ({ email, name: email.split('@')[0] || email })),
       cc: data.cc?.map((email) => ({ email, name: email.split('@')[0] || email })),
       bcc: data.bcc?.map((email) => ({ email, name: email.split('@')[0] || email })),
@@ -129,7 +130,9 @@ export function CreateEmail({
       console.log(posthog.capture('Create Email Sent'));
     }
 
-    toast.success(t('pages.createEmail.emailSentSuccessfully'));
+    // Held sends are announced by the composer, with a way to undo them
+    if (!result.undoUntil) toast.success(t('pages.createEmail.emailSentSuccessfully'));
+    return result;
   };
 
   useEffect(() => {
@@ -1,3 +1,10 @@
+import {
+  EditorCommand,
+  EditorCommandEmpty,
+  EditorCommandItem,
+  EditorCommandList,
+  EditorRoot,
+} from 'novel';
 import {
   CurvedArrow,
   MediumStack,
@@ -7,27 +14,37 @@ import {
   X,
   Sparkles,
 } from '../icons/icons';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { signatureBody, useSignatureDefaults, useSignatures } from '@/hooks/use-signatures';
+import { resolveTemplate, templatePerson, type TemplateVariables } from '@/lib/templates';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { restoredComposeAtom, type RestoredCompose } from '@/store/undoSend';
+import { receivingAlias, useEmailAliases } from '@/hooks/use-email-aliases';
 import { TextEffect } from '@/components/motion-primitives/text-effect';
 import { Tooltip, TooltipContent, TooltipTrigger } from '../ui/tooltip';
+import { EditorContent, EditorContext } from '@tiptap/react';
 import useComposeEditor from '@/hooks/use-compose-editor';
+import { templateSuggestionItems } from './slash-command';
 import { Loader, Check, X as XIcon } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Command, Paperclip, Plus } from 'lucide-react';
+import { useLocale, useTranslations } from 'next-intl';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { Avatar, AvatarFallback } from '../ui/avatar';
 import { useTRPC } from '@/providers/query-provider';
+import { useTemplates } from '@/hooks/use-templates';
 import { useMutation } from '@tanstack/react-query';
 import { useRef, useState, useEffect } from 'react';
+import SignatureDisplay from './signature-display';
 import { cn, formatFileSize } from '@/lib/utils';
 import { useThread } from '@/hooks/use-threads';
 import { useSession } from '@/lib/auth-client';
 import { serializeFiles } from '@/lib/schemas';
 import { Input } from '@/components/ui/input';
-import { EditorContent } from '@tiptap/react';
 import { useForm } from 'react-hook-form';
 import { useQueryState } from 'nuqs';
 import pluralize from 'pluralize';
+import { useAtom } from 'jotai';
 import { toast } from 'sonner';
 import { z } from 'zod';
 
@@ -52,7 +69,8 @@ interface EmailComposerProps {
     subject: string;
     message: string;
     attachments: File[];
-  }) => Promise<void>;
+    fromEmail?: string;
+  }) => Promise<{ scheduledId?: string; undoUntil?: Date } | void>;
   onClose?: () => void;
   className?: string;
   autofocus?: boolean;
@@ -88,20 +106,31 @@ export function EmailComposer({
   className,
   autofocus = false,
 }: EmailComposerProps) {
-  const [showCc, setShowCc] = useState(initialCc.length > 0);
-  const [showBcc, setShowBcc] = useState(initialBcc.length > 0);
+  const [restoredCompose, setRestoredCompose] = useAtom(restoredComposeAtom);
+  // A send that was undone comes back with everything it had, attachments included
+  const restored = useRef(restoredCompose).current;
+  const [showCc, setShowCc] = useState((restored?.cc ?? initialCc).length > 0);
+  const [showBcc, setShowBcc] = useState((restored?.bcc ?? initialBcc).length > 0);
   const [isLoading, setIsLoading] = useState(false);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const [messageLength, setMessageLength] = useState(0);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const toInputRef = useRef<HTMLInputElement>(null);
   const [threadId] = useQueryState('threadId');
-  const [mode] = useQueryState('mode');
+  const [mode, setMode] = useQueryState('mode');
   const [isComposeOpen, setIsComposeOpen] = useQueryState('isComposeOpen');
   const { data: emailData } = useThread(threadId ?? null);
   const { data: session } = useSession();
+  const { data: aliases } = useEmailAliases();
+  const { data: signaturesData } = useSignatures();
+  const { data: signatureDefaultsData } = useSignatureDefaults();
+  const { data: templatesData } = useTemplates();
+  // Null for no signature, a restored send keeps the one it had
+  const [signatureId, setSignatureId] = useState<string | null>(restored?.signatureId ?? null);
+  // The From address the signature was last picked for
+  const signatureFor = useRef(restored ? restored.fromEmail : undefined);
   const [urlDraftId] = useQueryState('draftId');
-  const [draftId, setDraftId] = useState<string | null>(urlDraftId ?? null);
+  const [draftId, setDraftId] = useState<string | null>(urlDraftId ?? restored?.draftId ?? null);
   const [aiGeneratedMessage, setAiGeneratedMessage] = useState<string | null>(null);
   const [aiIsLoading, setAiIsLoading] = useState(false);
   const [isGeneratingSubject, setIsGeneratingSubject] = useState(false);
@@ -109,6 +138,9 @@ export function EmailComposer({
   const trpc = useTRPC();
   const { mutateAsync: aiCompose } = useMutation(trpc.ai.compose.mutationOptions());
   const { mutateAsync: createDraft } = useMutation(trpc.drafts.create.mutationOptions());
+  const { mutateAsync: cancelSend } = useMutation(trpc.mail.cancelSend.mutationOptions());
+  const t = useTranslations();
+  const locale = useLocale();
   const { mutateAsync: generateEmailSubject } = useMutation(
     trpc.ai.generateEmailSubject.mutationOptions(),
   );
@@ -121,18 +153,25 @@ export function EmailComposer({
   const form = useForm<z.infer<typeof schema>>({
     resolver: zodResolver(schema),
     defaultValues: {
-      to: initialTo,
-      cc: initialCc,
-      bcc: initialBcc,
-      subject: initialSubject,
-      message: initialMessage,
-      attachments: initialAttachments,
+      to: restored?.to ?? initialTo,
+      cc: restored?.cc ?? initialCc,
+      bcc: restored?.bcc ?? initialBcc,
+      subject: restored?.subject ?? initialSubject,
+      message: restored?.message ?? initialMessage,
+      attachments: restored?.attachments ?? initialAttachments,
+      fromEmail: restored?.fromEmail,
     },
   });
 
+  useEffect(() => {
+    if (restored) setRestoredCompose(null);
+  }, []);
+
   useEffect(() => {
     // Don't populate from threadId if we're in compose mode
     if (isComposeOpen === 'true') return;
+    // Nor over a restored send
+    if (restored) return;
 
     if (!emailData?.latest || !mode || !session?.activeConnection?.email) return;
 
@@ -204,12 +243,38 @@ export function EmailComposer({
     // For forward, we start with empty recipients
   }, [mode, emailData?.latest, session?.activeConnection?.email]);
 
+  // Replies go out from the address the message was sent to, everything else from the primary
+  useEffect(() => {
+    if (!aliases.length || form.getValues('fromEmail')) return;
+    const replyingTo = mode && isComposeOpen !== 'true' ? emailData?.latest : undefined;
+    const alias =
+      (replyingTo && receivingAlias(replyingTo, aliases)) ??
+      aliases.find((alias) => alias.primary) ??
+      aliases[0];
+    form.setValue('fromEmail', alias?.email);
+  }, [aliases, mode, emailData?.latest]);
+
   const { watch, setValue, getValues } = form;
   const toEmails = watch('to');
   const ccEmails = watch('cc');
   const bccEmails = watch('bcc');
   const subjectInput = watch('subject');
   const attachments = watch('attachments');
+  const fromEmail = watch('fromEmail');
+
+  const signatures = signaturesData?.signatures ?? [];
+  const signature = signatures.find((entry) => entry.id === signatureId);
+
+  // Each address starts with its own signature, one for new mail and one for replies and forwards
+  useEffect(() => {
+    if (!fromEmail || !signatureDefaultsData || signatureFor.current === fromEmail) return;
+    signatureFor.current = fromEmail;
+    const defaults = signatureDefaultsData.defaults.find(
+      (entry) => entry.email === fromEmail.toLowerCase(),
+    );
+    const replying = mode && isComposeOpen !== 'true';
+    setSignatureId((replying ? defaults?.replySignatureId : defaults?.newMailSignatureId) ?? null);
+  }, [fromEmail, signatureDefaultsData, mode]);
 
   const handleAttachment = (files: File[]) => {
     if (files && files.length > 0) {
@@ -227,7 +292,7 @@ export function EmailComposer({
   };
 
   const editor = useComposeEditor({
-    initialValue: initialMessage,
+    initialValue: restored?.message ?? initialMessage,
     isReadOnly: isLoading,
     onLengthChange: (length) => {
       setHasUnsavedChanges(true);
@@ -242,8 +307,35 @@ export function EmailComposer({
     },
     placeholder: 'Start your email here',
     autofocus,
+    slashCommand: true,
   });
 
+  // Templates fill in their variables for the first recipient and the address sending
+  const templateVariables = (): TemplateVariables => {
+    const values = getValues();
+    const recipientEmail = values.to[0] ?? '';
+    const recipient = (emailData?.messages ?? [])
+      .flatMap((message) => [message.sender, ...message.to, ...(message.cc ?? [])])
+      .find((person) => person.name && person.email.toLowerCase() === recipientEmail.toLowerCase());
+    const senderEmail = values.fromEmail ?? session?.activeConnection?.email ?? '';
+    const alias = aliases.find((alias) => alias.email === senderEmail);
+    return {
+      recipient: templatePerson(recipientEmail, recipient?.name),
+      sender: templatePerson(senderEmail, alias?.name ?? session?.user.name),
+      date: new Date().toLocaleDateString(locale, { dateStyle: 'long' }),
+    };
+  };
+
+  const templateItems = templateSuggestionItems(
+    templatesData?.templates ?? [],
+    templateVariables,
+    (template, variables) => {
+      if (template.subject && !getValues('subject')) {
+        setValue('subject', resolveTemplate(template.subject, variables, 'text'));
+      }
+    },
+  );
+
   // Add effect to focus editor when component mounts
   useEffect(() => {
     if (autofocus && editor) {
@@ -260,18 +352,30 @@ export function EmailComposer({
       setIsLoading(true);
       setAiGeneratedMessage(null);
       const values = getValues();
-      await onSendEmail({
+      const message = editor.getHTML();
+      const sent = {
         to: values.to,
         cc: showCc ? values.cc : undefined,
         bcc: showBcc ? values.bcc : undefined,
         subject: values.subject,
-        message: editor.getHTML(),
+        message: signature ? `${message}<div>${signatureBody(signature.html)}</div>` : message,
         attachments: values.attachments || [],
-      });
+        fromEmail: values.fromEmail,
+      };
+      const result = await onSendEmail(sent);
       setHasUnsavedChanges(false);
       editor.commands.clearContent(true);
       form.reset();
       setIsComposeOpen(null);
+      if (result?.scheduledId && result.undoUntil) {
+        // The signature is added again when the send is restored
+        showUndoSend(result.scheduledId, result.undoUntil, {
+          ...sent,
+          message,
+          signatureId,
+          draftId,
+        });
+      }
     } catch (error) {
       console.error('Error sending email:', error);
       toast.error('Failed to send email');
@@ -280,6 +384,29 @@ export function EmailComposer({
     }
   };
 
+  // The composer is closed by now, undoing reopens it and fills it from restoredComposeAtom
+  const showUndoSend = (scheduledId: string, undoUntil: Date, sent: RestoredCompose) => {
+    const reopenMode = mode;
+    toast.success(t('pages.createEmail.emailSent'), {
+      duration: Math.max(undoUntil.getTime() - Date.now(), 0),
+      action: {
+        label: t('pages.createEmail.undo'),
+        onClick: async () => {
+          try {
+            await cancelSend({ id: scheduledId });
+            setRestoredCompose(sent);
+            if (reopenMode) await setMode(reopenMode);
+            else await setIsComposeOpen('true');
+            toast.info(t('pages.createEmail.sendUndone'));
+          } catch (error) {
+            console.error('Error undoing send:', error);
+            toast.error(t('pages.createEmail.undoFailed'));
+          }
+        },
+      },
+    });
+  };
+
   const handleAiGenerate = async () => {
     try {
       setIsLoading(true);
@@ -366,7 +493,8 @@ export function EmailComposer({
   };
 
   useEffect(() => {
-    if (urlDraftId !== draftId) {
+    // A restored send keeps its draft until the URL names another one
+    if (urlDraftId !== draftId && (urlDraftId || !restored)) {
       setDraftId(urlDraftId ?? null);
     }
   }, [urlDraftId]);
@@ -390,6 +518,30 @@ export function EmailComposer({
       )}
     >
       <div className="border-b border-[#E7E7E7] pb-2 dark:border-[#252525]">
+        {/* From, only when there is more than one address to send as */}
+        {aliases.length > 1 && (
+          <div className="flex items-center gap-2 px-3 pt-3">
+            <p className="text-sm font-medium text-[#8C8C8C]">From:</p>
+            <Select
+              value={fromEmail}
+              onValueChange={(value) => {
+                setValue('fromEmail', value);
+                setHasUnsavedChanges(true);
+              }}
+            >
+              <SelectTrigger className="h-6 w-auto gap-1 border-none bg-transparent px-0 text-sm text-black shadow-none focus:ring-0 dark:text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {aliases.map((alias) => (
+                  <SelectItem key={alias.email} value={alias.email}>
+                    {alias.name ? `${alias.name} <${alias.email}>` : alias.email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
         <div className="flex justify-between px-3 pt-3">
           <div className="flex items-center gap-2">
             <p className="text-sm font-medium text-[#8C8C8C]">To:</p>
@@ -696,7 +848,56 @@ export function EmailComposer({
             aiGeneratedMessage !== null ? 'blur-sm' : '',
           )}
         >
-          <EditorContent editor={editor} />
+          <EditorRoot>
+            <EditorContext.Provider value={{ editor }}>
+              <EditorContent editor={editor} />
+              <EditorCommand className="border-muted bg-background z-50 h-auto max-h-[330px] overflow-y-auto rounded-md border px-1 py-2 shadow-md transition-all">
+                <EditorCommandEmpty className="text-muted-foreground px-2 text-xs">
+                  {t('pages.createEmail.noTemplates')}
+                </EditorCommandEmpty>
+                <EditorCommandList>
+                  {templateItems.map((item) => (
+                    <EditorCommandItem
+                      key={item.title}
+                      value={item.title}
+                      keywords={item.searchTerms}
+                      onCommand={(range) => item.command?.(range)}
+                      className="hover:bg-accent aria-selected:bg-accent flex w-full items-center space-x-2 rounded-md px-2 py-1 text-left"
+                    >
+                      <div className="border-muted bg-background flex h-8 w-8 items-center justify-center rounded-md border">
+                        {item.icon}
+                      </div>
+                      <div>
+                        <p className="text-xs font-medium">{item.title}</p>
+                        <p className="text-muted-foreground text-[10px]">{item.description}</p>
+                      </div>
+                    </EditorCommandItem>
+                  ))}
+                </EditorCommandList>
+              </EditorCommand>
+            </EditorContext.Provider>
+          </EditorRoot>
+          {signatures.length > 0 && (
+            <div className="flex flex-col gap-1">
+              <Select
+                value={signatureId ?? 'none'}
+                onValueChange={(value) => setSignatureId(value === 'none' ? null : value)}
+              >
+                <SelectTrigger className="h-6 w-auto gap-1 self-start border-none bg-transparent px-0 text-xs text-[#8C8C8C] shadow-none focus:ring-0">
+                  <SelectValue placeholder={t('pages.createEmail.signature.title')} />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">{t('pages.createEmail.signature.none')}</SelectItem>
+                  {signatures.map((signature) => (
+                    <SelectItem key={signature.id} value={signature.id}>
+                      {signature.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {signature && <SignatureDisplay html={signature.html} />}
+            </div>
+          )}
         </div>
 
         {/* Bottom Actions */}
@@ -1,6 +1,7 @@
 import {
   CheckSquare,
   Code,
+  FileText,
   Heading1,
   Heading2,
   Heading3,
@@ -10,6 +11,7 @@ import {
   Text,
   TextQuote,
 } from 'lucide-react';
+import { resolveTemplate, type EmailTemplate, type TemplateVariables } from '@/lib/templates';
 import { createSuggestionItems } from 'novel';
 
 export const suggestionItems = createSuggestionItems([
@@ -69,3 +71,31 @@ export const suggestionItems = createSuggestionItems([
     },
   },
 ]);
+
+/**
+ * Inserts a template in place of the slash command. Its variables are resolved when it is picked,
+ * so they follow the recipients as they are at that moment.
+ */
+export const templateSuggestionItems = (
+  templates: EmailTemplate[],
+  getVariables: () => TemplateVariables,
+  onInsert?: (template: EmailTemplate, variables: TemplateVariables) => void,
+) =>
+  createSuggestionItems(
+    templates.map((template) => ({
+      title: template.name,
+      description: template.subject || 'Insert this template.',
+      searchTerms: ['template', ...template.name.toLowerCase().split(/\s+/)],
+      icon: <FileText size={18} />,
+      command: ({ editor, range }) => {
+        const variables = getVariables();
+        editor
+          .chain()
+          .focus()
+          .deleteRange(range)
+          .insertContent(resolveTemplate(template.body, variables))
+          .run();
+        onInsert?.(template, variables);
+      },
+    })),
+  );
@@ -411,6 +411,19 @@ export function MailLayout() {
   );
 }
 
+// IMAP accounts report the threads a bulk action could not change instead of failing it
+type BulkActionResult = void | { succeeded: string[]; failed: { id: string; error: string }[] };
+
+class PartialBulkActionError extends Error {
+  constructor(result: Exclude<BulkActionResult, void>) {
+    const total = result.succeeded.length + result.failed.length;
+    super(`${result.failed.length} of ${total} conversations could not be changed`);
+  }
+}
+
+const bulkErrorMessage = (error: unknown) =>
+  error instanceof PartialBulkActionError ? error.message : 'Something went wrong!';
+
 function BulkSelectActions() {
   const t = useTranslations();
   const [errorQty, setErrorQty] = useState(0);
@@ -474,16 +487,25 @@ function BulkSelectActions() {
     setMail({ ...mail, bulkSelected: [] });
   }, [mail, setMail, refetchThreads, refetchStats, threadId, setThreadId]);
 
+  // Threads that were changed are refreshed either way, the ones that failed are reported
+  const afterBulkAction = useCallback(
+    async (result: BulkActionResult) => {
+      await onMoveSuccess();
+      if (result?.failed.length) throw new PartialBulkActionError(result);
+    },
+    [onMoveSuccess],
+  );
+
   return (
     <div className="flex items-center gap-2">
       <button
         className="flex h-8 flex-1 items-center justify-center gap-1 overflow-hidden rounded-md border bg-white px-3 text-sm transition-all duration-300 ease-out hover:bg-gray-100 dark:border-none dark:bg-[#313131] dark:hover:bg-[#313131]/80"
         onClick={() => {
           if (mail.bulkSelected.length === 0) return;
-          toast.promise(markAsRead({ ids: mail.bulkSelected }).then(onMoveSuccess), {
+          toast.promise(markAsRead({ ids: mail.bulkSelected }).then(afterBulkAction), {
             loading: 'Marking as read...',
             success: 'All done! marked as read',
-            error: 'Something went wrong!',
+            error: bulkErrorMessage,
           });
         }}
       >
@@ -501,10 +523,10 @@ function BulkSelectActions() {
             className="flex aspect-square h-8 items-center justify-center gap-1 overflow-hidden rounded-md border bg-white px-2 text-sm transition-all duration-300 ease-out hover:bg-gray-100 dark:border-none dark:bg-[#313131] dark:hover:bg-[#313131]/80"
             onClick={() => {
               if (mail.bulkSelected.length === 0) return;
-              toast.promise(markAsImportant({ ids: mail.bulkSelected }).then(onMoveSuccess), {
+              toast.promise(markAsImportant({ ids: mail.bulkSelected }).then(afterBulkAction), {
                 loading: 'Marking as important...',
                 success: 'All done! marked as important',
-                error: 'Something went wrong!',
+                error: bulkErrorMessage,
               });
             }}
           >
@@ -522,10 +544,10 @@ function BulkSelectActions() {
             className="flex aspect-square h-8 items-center justify-center gap-1 overflow-hidden rounded-md border bg-white px-2 text-sm transition-all duration-300 ease-out hover:bg-gray-100 dark:border-none dark:bg-[#313131] dark:hover:bg-[#313131]/80"
             onClick={() => {
               if (mail.bulkSelected.length === 0) return;
-              toast.promise(bulkArchive({ ids: mail.bulkSelected }).then(onMoveSuccess), {
+              toast.promise(bulkArchive({ ids: mail.bulkSelected }).then(afterBulkAction), {
                 loading: 'Moving to archive...',
                 success: 'All done! moved to archive',
-                error: 'Something went wrong!',
+                error: bulkErrorMessage,
               });
             }}
           >
@@ -543,10 +565,10 @@ function BulkSelectActions() {
             className="flex aspect-square h-8 items-center justify-center gap-1 overflow-hidden rounded-md border bg-white px-2 text-sm transition-all duration-300 ease-out hover:bg-gray-100 dark:border-none dark:bg-[#313131] dark:hover:bg-[#313131]/80"
             onClick={() => {
               if (mail.bulkSelected.length === 0) return;
-              toast.promise(bulkStar({ ids: mail.bulkSelected }).then(onMoveSuccess), {
+              toast.promise(bulkStar({ ids: mail.bulkSelected }).then(afterBulkAction), {
                 loading: 'Marking as starred...',
                 success: 'All done! marked as starred',
-                error: 'Something went wrong!',
+                error: bulkErrorMessage,
               });
             }}
           >
@@ -629,15 +651,15 @@ function BulkSelectActions() {
             onClick={() => {
               if (mail.bulkSelected.length === 0) return;
               toast.promise(
-                new Promise((resolve, reject) => {
+                new Promise<BulkActionResult>((resolve, reject) => {
                   mail.bulkSelected.map((id) =>
                     setBackgroundQueue({ type: 'add', threadId: `thread:${id}` }),
                   );
                   return bulkDeleteThread({ ids: mail.bulkSelected }).then(resolve).catch(reject);
-                }).then(onMoveSuccess),
+                }).then(afterBulkAction),
                 {
                   success: 'All done! moved to bin',
-                  error: 'Something went wrong!',
+                  error: bulkErrorMessage,
                 },
               );
             }}
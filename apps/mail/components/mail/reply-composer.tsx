@@ -1,11 +1,11 @@
 'use client';
 
+import { constructForwardBody, constructReplyBody } from '@/lib/utils';
 import { useEmailAliases } from '@/hooks/use-email-aliases';
 import { EmailComposer } from '../create/email-composer';
 import { useHotkeysContext } from 'react-hotkeys-hook';
 import { useTRPC } from '@/providers/query-provider';
 import { useMutation } from '@tanstack/react-query';
-import { constructReplyBody } from '@/lib/utils';
 import { useThread } from '@/hooks/use-threads';
 import { useSession } from '@/lib/auth-client';
 import { serializeFiles } from '@/lib/schemas';
@@ -105,6 +105,7 @@ export default function ReplyCompose({ messageId }: ReplyComposeProps) {
     subject: string;
     message: string;
     attachments: File[];
+    fromEmail?: string;
   }) => {
     if (!replyToMessage || !session?.activeConnection?.email) return;
 
@@ -131,39 +132,48 @@ export default function ReplyCompose({ messageId }: ReplyComposeProps) {
           }))
         : undefined;
 
-      const replyBody = constructReplyBody(
-        data.message,
-        new Date(replyToMessage.receivedOn || '').toLocaleString(),
-        replyToMessage.sender,
-        toRecipients,
-        replyToMessage.decodedBody,
-      );
-
-      await sendEmail({
+      const originalDate = new Date(replyToMessage.receivedOn || '').toLocaleString();
+      const replyBody =
+        mode === 'forward'
+          ? constructForwardBody(
+              data.message,
+              originalDate,
+              replyToMessage.sender,
+              replyToMessage.to,
+              replyToMessage.subject,
+              replyToMessage.decodedBody,
+            )
+          : constructReplyBody(
+              data.message,
+              originalDate,
+              replyToMessage.sender,
+              toRecipients,
+              replyToMessage.decodedBody,
+            );
+
+      const result = await sendEmail({
         to: toRecipients,
         cc: ccRecipients,
         bcc: bccRecipients,
         subject: data.subject,
         message: replyBody,
         attachments: await serializeFiles(data.attachments),
-        fromEmail: aliases?.[0]?.email || userEmail,
+        fromEmail: data.fromEmail || aliases?.[0]?.email || userEmail,
+        // In-Reply-To and References are derived from the parent on the server
         headers: {
-          'In-Reply-To': replyToMessage?.messageId ?? '',
-          References: [
-            ...(replyToMessage?.references ? replyToMessage.references.split(' ') : []),
-            replyToMessage?.messageId,
-          ]
-            .filter(Boolean)
-            .join(' '),
           'Thread-Id': replyToMessage?.threadId ?? '',
         },
         threadId: replyToMessage?.threadId,
+        parentId: replyToMessage.id,
+        mode: mode === 'forward' || mode === 'replyAll' ? mode : 'reply',
       });
 
       // Reset states
       setMode(null);
       await refetch();
-      toast.success(t('pages.createEmail.emailSent'));
+      // Held sends are announced by the composer, with a way to undo them
+      if (!result.undoUntil) toast.success(t('pages.createEmail.emailSent'));
+      return result;
     } catch (error) {
       console.error('Error sending email:', error);
       toast.error(t('pages.createEmail.failedToSendEmail'));
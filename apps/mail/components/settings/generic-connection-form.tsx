@@ -3,6 +3,8 @@
 
 import React, { useState, FormEvent } from 'react';
 import { useTRPC } from '@/providers/query-provider'; // Adjust path if needed
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Check, Minus, X } from 'lucide-react';
 
 // Assuming UI components exist (these are typical Shadcn/ui paths)
 // If not, worker should note this and use basic HTML elements or placeholders.
@@ -30,6 +32,21 @@ interface GenericConnectionFormData {
   smtpSecure: 'ssl' | 'starttls';
 }
 
+const DIAGNOSTIC_STEPS = {
+  dns: 'DNS lookup',
+  connect: 'Connect',
+  tls: 'TLS handshake',
+  starttls: 'STARTTLS',
+  auth: 'Login',
+} as const;
+
+const DISCOVERY_SOURCES = {
+  provider: 'known provider',
+  autoconfig: 'autoconfig',
+  srv: 'DNS SRV records',
+  mx: 'MX records',
+} as const;
+
 export function GenericConnectionForm({ onSuccess }: { onSuccess?: (data: any) => void }) {
   const trpc = useTRPC();
   const [formData, setFormData] = useState<GenericConnectionFormData>({
@@ -45,6 +62,81 @@ export function GenericConnectionForm({ onSuccess }: { onSuccess?: (data: any) =
   });
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [discovered, setDiscovered] = useState<string | null>(null);
+  const [isDiscovering, setIsDiscovering] = useState(false);
+  const queryClient = useQueryClient();
+  const {
+    mutateAsync: testConnection,
+    data: testResult,
+    isPending: isTesting,
+    reset: resetTest,
+  } = useMutation(trpc.connections.testGenericConnection.mutationOptions());
+
+  // Prefills hosts, ports and security from the email domain. Without `force` only empty
+  // host fields are filled in, so settings typed by the user are kept.
+  const discoverSettings = async (force: boolean) => {
+    const email = formData.email.trim();
+    if (!/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(email)) return;
+    if (!force && (formData.imapHost || formData.smtpHost)) return;
+
+    setIsDiscovering(true);
+    try {
+      const { settings } = await queryClient.fetchQuery(
+        trpc.connections.discoverGenericSettings.queryOptions({ email }),
+      );
+      if (!settings) {
+        setDiscovered(force ? 'No settings found for this domain, please enter them manually.' : null);
+        return;
+      }
+      setFormData(prev => ({
+        ...prev,
+        ...(settings.imap && {
+          imapHost: settings.imap.host,
+          imapPort: String(settings.imap.port),
+          imapSecure: settings.imap.security === 'ssl' ? 'ssl' : 'starttls',
+        }),
+        ...(settings.smtp && {
+          smtpHost: settings.smtp.host,
+          smtpPort: String(settings.smtp.port),
+          smtpSecure: settings.smtp.security === 'ssl' ? 'ssl' : 'starttls',
+        }),
+      }));
+      setDiscovered(
+        `Settings found via ${settings.provider ?? DISCOVERY_SOURCES[settings.source]}.` +
+          (settings.username === 'localPart' ? ' This server may expect only the part before the @ as username.' : ''),
+      );
+      resetTest();
+    } catch {
+      setDiscovered(null);
+    } finally {
+      setIsDiscovering(false);
+    }
+  };
+
+  const handleTest = async () => {
+    setError(null);
+    const imapPortNum = parseInt(formData.imapPort, 10);
+    const smtpPortNum = parseInt(formData.smtpPort, 10);
+    if (!(imapPortNum > 0) || !(smtpPortNum > 0)) {
+      setError("Invalid port number.");
+      return;
+    }
+    try {
+      await testConnection({
+        email: formData.email,
+        password: formData.password,
+        imapHost: formData.imapHost,
+        imapPort: imapPortNum,
+        imapSecure: formData.imapSecure === 'ssl',
+        imapRequireTLS: formData.imapSecure === 'starttls',
+        smtpHost: formData.smtpHost,
+        smtpPort: smtpPortNum,
+        smtpSecure: formData.smtpSecure === 'ssl',
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to test the connection.');
+    }
+  };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement /*| HTMLSelectElement*/>) => {
     // HTMLSelectElement is not directly used here as Select has its own onValueChange
@@ -133,7 +225,13 @@ export function GenericConnectionForm({ onSuccess }: { onSuccess?: (data: any) =
 
       <div>
         <Label htmlFor="email">Email Address (Username)</Label>
-        <Input id="email" name="email" type="email" value={formData.email} onChange={handleChange} required />
+        <div className="flex gap-2">
+          <Input id="email" name="email" type="email" value={formData.email} onChange={handleChange} onBlur={() => discoverSettings(false)} required />
+          <Button type="button" variant="outline" onClick={() => discoverSettings(true)} disabled={isDiscovering || !formData.email}>
+            {isDiscovering ? 'Detecting...' : 'Detect settings'}
+          </Button>
+        </div>
+        {discovered && <p className="text-sm text-muted-foreground">{discovered}</p>}
       </div>
       <div>
         <Label htmlFor="password">Password</Label>
@@ -183,7 +281,48 @@ export function GenericConnectionForm({ onSuccess }: { onSuccess?: (data: any) =
           </Select>
         </div>
       </div>
-      
+
+      {testResult && (
+        <div className="space-y-3 rounded-md border p-3 text-sm">
+          {(['imap', 'smtp', 'pop3'] as const).map((protocol) => {
+            const result = testResult[protocol];
+            if (!result) return null;
+            return (
+              <div key={protocol}>
+                <p className="font-medium">
+                  {protocol.toUpperCase()} ({result.host}:{result.port}): {result.ok ? 'OK' : 'Failed'}
+                </p>
+                <ul>
+                  {result.steps.map((step) => (
+                    <li key={step.step} className="flex items-start gap-2">
+                      {step.status === 'ok' ? (
+                        <Check className="mt-0.5 h-4 w-4 shrink-0 text-green-600" />
+                      ) : step.status === 'failed' ? (
+                        <X className="mt-0.5 h-4 w-4 shrink-0 text-red-500" />
+                      ) : (
+                        <Minus className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                      )}
+                      <span>
+                        {DIAGNOSTIC_STEPS[step.step]}
+                        {step.message && <span className="text-muted-foreground">: {step.message}</span>}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+                {result.capabilities && result.capabilities.length > 0 && (
+                  <p className="text-muted-foreground break-words text-xs">
+                    Capabilities: {result.capabilities.join(' ')}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <Button type="button" variant="outline" onClick={handleTest} disabled={isTesting || isLoading} className="w-full">
+        {isTesting ? 'Testing Connection...' : 'Test Connection'}
+      </Button>
       <Button type="submit" disabled={isLoading} className="w-full">
         {isLoading ? 'Adding Connection...' : 'Add IMAP/SMTP Connection'}
       </Button>
@@ -18,8 +18,8 @@ import {
   Plane2,
   LockIcon,
 } from '@/components/icons/icons';
+import { FileTextIcon, MessageSquareIcon } from 'lucide-react';
 import type { NestedKeyOf, MessageKeys } from 'next-intl';
-import { MessageSquareIcon } from 'lucide-react';
 
 export interface NavItem {
   id?: string;
@@ -168,7 +168,11 @@ export const navigationConfig: Record<string, NavConfig> = {
             title: 'navigation.settings.signatures',
             url: '/settings/signatures',
             icon: MessageSquareIcon,
-            disabled: true,
+          },
+          {
+            title: 'navigation.settings.templates',
+            url: '/settings/templates',
+            icon: FileTextIcon,
           },
           {
             title: 'navigation.settings.shortcuts',
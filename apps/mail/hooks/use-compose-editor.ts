@@ -1,5 +1,6 @@
 import { useEditor, type KeyboardShortcutCommand, Extension, generateJSON } from '@tiptap/react';
 import { AutoComplete } from '@/components/create/editor-autocomplete';
+import { Command, handleCommandNavigation, renderItems } from 'novel';
 import { defaultExtensions } from '@/components/create/extensions';
 import Placeholder from '@tiptap/extension-placeholder';
 import { Plugin, PluginKey } from '@tiptap/pm/state';
@@ -158,6 +159,7 @@ const useComposeEditor = ({
   myInfo,
   sender,
   autofocus = false,
+  slashCommand = false,
 }: {
   initialValue?: Record<string, unknown> | string | null;
   isReadOnly?: boolean;
@@ -183,6 +185,8 @@ const useComposeEditor = ({
     email?: string;
   };
   autofocus?: boolean;
+  // Opens the menu rendered by an EditorCommand on '/', the editor has to be inside an EditorRoot
+  slashCommand?: boolean;
 }) => {
   const extensions = [
     ...defaultExtensions,
@@ -205,6 +209,16 @@ const useComposeEditor = ({
           }),
         ]
       : []),
+    ...(slashCommand
+      ? [
+          Command.configure({
+            suggestion: {
+              items: () => [],
+              render: renderItems,
+            },
+          }),
+        ]
+      : []),
     ...(isReadOnly ? [] : [MouseDownSelection]),
     Placeholder.configure({
       placeholder,
@@ -272,6 +286,11 @@ const useComposeEditor = ({
             void onKeydown(event);
           }
 
+          // Arrows and enter move through the slash command menu while it is open
+          if (slashCommand && handleCommandNavigation(event)) {
+            return true;
+          }
+
           return false;
         },
       },
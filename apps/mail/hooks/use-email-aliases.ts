@@ -1,13 +1,39 @@
 import { useTRPC } from '@/providers/query-provider';
 import { useQuery } from '@tanstack/react-query';
+import type { ParsedMessage } from '@/types';
+
+export interface EmailAlias {
+  email: string;
+  name?: string;
+  primary?: boolean;
+  replyTo?: string;
+}
 
 export function useEmailAliases() {
   const trpc = useTRPC();
   const emailAliasesQuery = useQuery(
     trpc.mail.getEmailAliases.queryOptions(void 0, {
-      initialData: [] as { email: string; name: string; primary?: boolean }[],
+      initialData: [] as EmailAlias[],
       staleTime: 1000 * 60 * 60, // 1 hour
     }),
   );
   return emailAliasesQuery;
 }
+
+// user+tag@example.com was delivered to user@example.com
+const withoutTag = (email: string) => email.replace(/\+[^@]*@/, '@');
+
+/**
+ * The alias a message was sent to, so a reply goes out from the address the sender wrote to.
+ * Plus-addresses without an alias of their own fall back to their base address.
+ */
+export const receivingAlias = (message: ParsedMessage, aliases: EmailAlias[]) => {
+  const recipients = [...message.to, ...(message.cc ?? []), ...(message.bcc ?? [])].map(
+    (recipient) => recipient.email.toLowerCase(),
+  );
+  const byEmail = (email: string) => aliases.find((alias) => alias.email.toLowerCase() === email);
+  return (
+    recipients.map(byEmail).find(Boolean) ??
+    recipients.map((recipient) => byEmail(withoutTag(recipient))).find(Boolean)
+  );
+};
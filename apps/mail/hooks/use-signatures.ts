@@ -0,0 +1,27 @@
+import { useTRPC } from '@/providers/query-provider';
+import { useQuery } from '@tanstack/react-query';
+
+export function useSignatures() {
+  const trpc = useTRPC();
+  const signaturesQuery = useQuery(
+    trpc.signatures.list.queryOptions(void 0, {
+      staleTime: 1000 * 60 * 60, // 1 hour
+    }),
+  );
+  return signaturesQuery;
+}
+
+// The signatures each address of the active connection starts with
+export function useSignatureDefaults() {
+  const trpc = useTRPC();
+  const defaultsQuery = useQuery(
+    trpc.signatures.defaults.queryOptions(void 0, {
+      staleTime: 1000 * 60 * 60, // 1 hour
+    }),
+  );
+  return defaultsQuery;
+}
+
+// Signatures are stored as a whole HTML document, a message only takes its body
+export const signatureBody = (html: string) =>
+  new DOMParser().parseFromString(html, 'text/html').body.innerHTML;
@@ -0,0 +1,24 @@
+import { useTRPC } from '@/providers/query-provider';
+import { useQuery } from '@tanstack/react-query';
+
+// Templates of the active connection, and those shared by all of them
+export function useTemplates() {
+  const trpc = useTRPC();
+  const templatesQuery = useQuery(
+    trpc.templates.list.queryOptions(void 0, {
+      staleTime: 1000 * 60 * 60, // 1 hour
+    }),
+  );
+  return templatesQuery;
+}
+
+// All of the user's templates, those kept to other connections included
+export function useAllTemplates() {
+  const trpc = useTRPC();
+  const templatesQuery = useQuery(
+    trpc.templates.listAll.queryOptions(void 0, {
+      staleTime: 1000 * 60 * 60, // 1 hour
+    }),
+  );
+  return templatesQuery;
+}
@@ -0,0 +1,78 @@
+export interface EmailTemplate {
+  id: string;
+  name: string;
+  subject: string | null;
+  body: string; // HTML with {{variables}}
+  connectionId: string | null; // Shared by all connections without one
+}
+
+interface Person {
+  name: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+}
+
+export interface TemplateVariables {
+  recipient: Person;
+  sender: Person;
+  date: string;
+}
+
+// Listed in the template editor, in the order they are most likely needed
+export const TEMPLATE_VARIABLES = [
+  'recipient.firstName',
+  'recipient.lastName',
+  'recipient.name',
+  'recipient.email',
+  'sender.firstName',
+  'sender.lastName',
+  'sender.name',
+  'sender.email',
+  'date',
+];
+
+const VARIABLE = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// john.doe+news@example.com is probably John Doe
+const nameFromEmail = (email: string) =>
+  email
+    .split('@')[0]!
+    .replace(/\+.*$/, '')
+    .split(/[._-]+/)
+    .filter(Boolean)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join(' ');
+
+export const templatePerson = (email = '', name?: string): Person => {
+  const fullName = name?.trim() || (email ? nameFromEmail(email) : '');
+  const [firstName = '', ...rest] = fullName.split(/\s+/);
+  return { name: fullName, firstName, lastName: rest.join(' '), email };
+};
+
+/**
+ * Fills in the {{variables}} of a template. Unknown ones are left as they are, so a typo shows
+ * up in the message instead of silently disappearing.
+ */
+export const resolveTemplate = (
+  template: string,
+  variables: TemplateVariables,
+  format: 'html' | 'text' = 'html',
+) =>
+  template.replace(VARIABLE, (match, path: string) => {
+    const value = path
+      .split('.')
+      .reduce<unknown>(
+        (scope, key) =>
+          scope && typeof scope === 'object' ? (scope as Record<string, unknown>)[key] : undefined,
+        variables,
+      );
+    if (typeof value !== 'string') return match;
+    return format === 'html' ? escapeHtml(value) : value;
+  });
+
+// The file templates are exported to and imported from
+export const TEMPLATES_FILE_NAME = 'email-templates.json';
@@ -403,6 +403,38 @@ export const constructReplyBody = (
   `;
 };
 
+export const constructForwardBody = (
+  formattedMessage: string,
+  originalDate: string,
+  originalSender: Sender | undefined,
+  originalRecipients: Sender[],
+  originalSubject: string,
+  forwardedMessage?: string,
+) => {
+  const senderName = originalSender?.name || originalSender?.email || 'Unknown Sender';
+  const senderEmail = originalSender?.email ? `&lt;${originalSender.email}&gt;` : '';
+  const recipientEmails = originalRecipients.map((r) => r.email).join(', ');
+
+  return `
+    <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif;">
+      <div style="">
+        ${formattedMessage}
+      </div>
+      <div style="font-size: 12px; color: #64748b;">
+        ---------- Forwarded message ---------<br />
+        From: ${senderName} ${senderEmail}<br />
+        Date: ${originalDate}<br />
+        Subject: ${originalSubject}<br />
+        To: ${recipientEmails}
+      </div>
+      <br />
+      <div style="">
+        ${forwardedMessage || ''}
+      </div>
+    </div>
+  `;
+};
+
 export const getMainSearchTerm = (searchQuery: string): string => {
   // Don't highlight terms if this is a date-based search
   const datePatterns = [
@@ -0,0 +1,16 @@
+import { atom } from 'jotai';
+
+// What the composer held when a send was undone, it is filled in again once it reopens
+export interface RestoredCompose {
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+  subject: string;
+  message: string;
+  attachments: File[];
+  fromEmail?: string;
+  signatureId?: string | null;
+  draftId: string | null;
+}
+
+export const restoredComposeAtom = atom<RestoredCompose | null>(null);
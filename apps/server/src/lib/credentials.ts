@@ -0,0 +1,255 @@
+import { connection, connectionIdentity } from '@zero/db/schema';
+import { and, eq, isNotNull } from 'drizzle-orm';
+import type { DB } from '@zero/db';
+
+// Envelope encryption for connection secrets (IMAP/SMTP passwords). Every secret is encrypted
+// with AES-GCM under its own random data key, and that data key is in turn encrypted with
+// AES-GCM under a key encryption key from CONNECTION_ENCRYPTION_KEYS. Stored values look like
+//
+//   v1.<key id>.<encrypted data key>.<encrypted secret>
+//
+// with the binary segments base64url encoded as IV followed by ciphertext. The key id says
+// which key to unwrap with, so keys can be rotated by only re-wrapping the data keys. The
+// connection id is bound as additional authenticated data, a value copied to another row
+// does not decrypt.
+//
+// CONNECTION_ENCRYPTION_KEYS is a comma separated list of `<id>:<32 bytes, base64>` entries
+// (generate one with `openssl rand -base64 32`). The first key encrypts, all of them decrypt.
+
+const VERSION = 'v1';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16; // Added by AES-GCM
+const KEY_ID_REGEX = /^[\w-]+$/;
+
+// Written before encryption was implemented, the secret is stored in plain text
+const LEGACY_PREFIXES = ['encrypted:', 'decrypted:'];
+
+export interface CredentialKeyring {
+  activeKeyId: string;
+  keys: Map<string, CryptoKey>;
+}
+
+const credentialError = (message: string) =>
+  Object.assign(new Error(message), { code: 'CREDENTIAL_ERROR' });
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64Url = (bytes: Uint8Array) => Buffer.from(bytes).toString('base64url');
+const fromBase64Url = (value: string) => new Uint8Array(Buffer.from(value, 'base64url'));
+
+const importAesKey = (raw: Uint8Array) =>
+  crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['encrypt', 'decrypt']);
+
+const seal = async (key: CryptoKey, data: Uint8Array, connectionId: string) => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(connectionId) },
+    key,
+    data,
+  );
+  return toBase64Url(Buffer.concat([iv, new Uint8Array(ciphertext)]));
+};
+
+const unseal = async (key: CryptoKey, sealed: string, connectionId: string) => {
+  const bytes = fromBase64Url(sealed);
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: bytes.subarray(0, IV_BYTES),
+        additionalData: encoder.encode(connectionId),
+      },
+      key,
+      bytes.subarray(IV_BYTES),
+    );
+    return new Uint8Array(plaintext);
+  } catch {
+    // Never include the stored value, only say which connection could not be decrypted
+    throw credentialError(`Failed to decrypt the credentials of connection ${connectionId}`);
+  }
+};
+
+export const parseKeyring = async (value: string | undefined): Promise<CredentialKeyring> => {
+  const entries = (value ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (!entries.length) throw credentialError('CONNECTION_ENCRYPTION_KEYS is not set');
+
+  const keys = new Map<string, CryptoKey>();
+  let activeKeyId = '';
+  for (const entry of entries) {
+    const separator = entry.indexOf(':');
+    const id = entry.slice(0, Math.max(separator, 0));
+    const raw = Buffer.from(entry.slice(separator + 1), 'base64');
+    if (!KEY_ID_REGEX.test(id) || raw.length !== KEY_BYTES || keys.has(id)) {
+      throw credentialError(
+        `Invalid entry "${id || '?'}" in CONNECTION_ENCRYPTION_KEYS, expected unique <id>:<32 bytes in base64>`,
+      );
+    }
+    keys.set(id, await importAesKey(new Uint8Array(raw)));
+    activeKeyId ||= id;
+  }
+  return { activeKeyId, keys };
+};
+
+const parseStored = (stored: string) => {
+  const [version, keyId, dataKey, secret, ...rest] = stored.split('.');
+  if (version !== VERSION || !keyId || !dataKey || !secret || rest.length) return null;
+  return { keyId, dataKey, secret };
+};
+
+const keyFor = (keyring: CredentialKeyring, keyId: string) => {
+  const key = keyring.keys.get(keyId);
+  if (!key) throw credentialError(`Unknown credential key "${keyId}"`);
+  return key;
+};
+
+const base64UrlLength = (bytes: number) => Math.ceil((bytes * 4) / 3);
+
+// Only a value with every segment well formed is taken as encrypted, a legacy plain text secret
+// can start with anything, `v1.` included
+const STORED_REGEX = new RegExp(
+  `^${VERSION}\\.[\\w-]+\\.[\\w-]{${base64UrlLength(IV_BYTES + KEY_BYTES + TAG_BYTES)}}\\.[\\w-]{${base64UrlLength(IV_BYTES + TAG_BYTES)},}$`,
+);
+
+const isLegacy = (stored: string) => !STORED_REGEX.test(stored);
+
+const legacySecret = (stored: string) => {
+  const prefix = LEGACY_PREFIXES.find((candidate) => stored.startsWith(candidate));
+  return prefix ? stored.slice(prefix.length) : stored;
+};
+
+export const encryptCredential = async (
+  keyring: CredentialKeyring,
+  secret: string,
+  connectionId: string,
+) => {
+  const dataKeyBytes = crypto.getRandomValues(new Uint8Array(KEY_BYTES));
+  const dataKey = await importAesKey(dataKeyBytes);
+  return [
+    VERSION,
+    keyring.activeKeyId,
+    await seal(keyFor(keyring, keyring.activeKeyId), dataKeyBytes, connectionId),
+    await seal(dataKey, encoder.encode(secret), connectionId),
+  ].join('.');
+};
+
+/**
+ * Decrypts a stored secret. `current` is false when the value should be rewritten with
+ * `reencryptCredential`, because it is in the legacy plain text format or was encrypted with
+ * a key that is no longer the active one.
+ */
+export const decryptCredential = async (
+  keyring: CredentialKeyring,
+  stored: string,
+  connectionId: string,
+): Promise<{ secret: string; current: boolean }> => {
+  if (isLegacy(stored)) return { secret: legacySecret(stored), current: false };
+
+  const parsed = parseStored(stored);
+  if (!parsed)
+    throw credentialError(`Unsupported credential format for connection ${connectionId}`);
+  const dataKeyBytes = await unseal(keyFor(keyring, parsed.keyId), parsed.dataKey, connectionId);
+  const secret = await unseal(await importAesKey(dataKeyBytes), parsed.secret, connectionId);
+  return { secret: decoder.decode(secret), current: parsed.keyId === keyring.activeKeyId };
+};
+
+/**
+ * Brings a stored secret up to date with the active key. Values encrypted with an older key
+ * only get their data key re-wrapped, legacy plain text values are encrypted. Returns null
+ * when the value is already current.
+ */
+export const reencryptCredential = async (
+  keyring: CredentialKeyring,
+  stored: string,
+  connectionId: string,
+) => {
+  if (isLegacy(stored)) return encryptCredential(keyring, legacySecret(stored), connectionId);
+
+  const parsed = parseStored(stored);
+  if (!parsed)
+    throw credentialError(`Unsupported credential format for connection ${connectionId}`);
+  if (parsed.keyId === keyring.activeKeyId) return null;
+  const dataKeyBytes = await unseal(keyFor(keyring, parsed.keyId), parsed.dataKey, connectionId);
+  return [
+    VERSION,
+    keyring.activeKeyId,
+    await seal(keyFor(keyring, keyring.activeKeyId), dataKeyBytes, connectionId),
+    parsed.secret,
+  ].join('.');
+};
+
+/**
+ * Re-encrypts every stored connection secret under the active key, including rows still in
+ * the legacy plain text format. The refresh tokens of generic OAuth connections are included,
+ * those of Google and Microsoft accounts are not encrypted. Identities with a SMTP login of
+ * their own are included, their passwords are bound to the identity id. Rows changed
+ * concurrently are left for the next run.
+ */
+export const rotateConnectionCredentials = async (db: DB, keyring: CredentialKeyring) => {
+  const connections = await db
+    .select({ id: connection.id, stored: connection.encryptedPassword })
+    .from(connection)
+    .where(isNotNull(connection.encryptedPassword));
+  const refreshTokens = await db
+    .select({ id: connection.id, stored: connection.refreshToken })
+    .from(connection)
+    .where(and(isNotNull(connection.oauthProvider), isNotNull(connection.refreshToken)));
+  const identities = await db
+    .select({ id: connectionIdentity.id, stored: connectionIdentity.encryptedSmtpPassword })
+    .from(connectionIdentity)
+    .where(isNotNull(connectionIdentity.encryptedSmtpPassword));
+  const rows = [
+    ...connections.map((row) => ({
+      ...row,
+      update: (next: string, stored: string) =>
+        db
+          .update(connection)
+          .set({ encryptedPassword: next })
+          .where(and(eq(connection.id, row.id), eq(connection.encryptedPassword, stored))),
+    })),
+    ...refreshTokens.map((row) => ({
+      ...row,
+      update: (next: string, stored: string) =>
+        db
+          .update(connection)
+          .set({ refreshToken: next })
+          .where(and(eq(connection.id, row.id), eq(connection.refreshToken, stored))),
+    })),
+    ...identities.map((row) => ({
+      ...row,
+      update: (next: string, stored: string) =>
+        db
+          .update(connectionIdentity)
+          .set({ encryptedSmtpPassword: next })
+          .where(
+            and(
+              eq(connectionIdentity.id, row.id),
+              eq(connectionIdentity.encryptedSmtpPassword, stored),
+            ),
+          ),
+    })),
+  ];
+
+  let rotated = 0;
+  const failed: string[] = [];
+  for (const row of rows) {
+    if (!row.stored) continue;
+    try {
+      const next = await reencryptCredential(keyring, row.stored, row.id);
+      if (!next) continue;
+      await row.update(next, row.stored);
+      rotated++;
+    } catch (error) {
+      console.error(
+        `Failed to rotate the credentials of ${row.id}:`,
+        error instanceof Error ? error.message : 'Unknown error',
+      );
+      failed.push(row.id);
+    }
+  }
+  return { total: rows.length, rotated, failed };
+};
@@ -0,0 +1,283 @@
+// Finds IMAP/SMTP/POP3 server settings for an email address, the way Thunderbird does:
+//   1. the bundled table of common providers below
+//   2. autoconfig files (https://wiki.mozilla.org/Thunderbird:Autoconfiguration) published by
+//      the domain itself, then the Mozilla ISPDB
+//   3. SRV records (RFC 6186, with _submissions from RFC 8314)
+//   4. MX records pointing at one of the bundled providers (e.g. Google Workspace domains)
+// DNS is queried over HTTPS since Workers have no resolver of their own.
+
+export type SocketSecurity = 'ssl' | 'starttls' | 'none';
+
+export interface ServerSettings {
+  host: string;
+  port: number;
+  security: SocketSecurity;
+}
+
+export interface DiscoveredSettings {
+  source: 'provider' | 'autoconfig' | 'srv' | 'mx';
+  provider?: string;
+  imap?: ServerSettings;
+  smtp?: ServerSettings;
+  pop3?: ServerSettings;
+  // Whether the login is the full address or only the part before the @
+  username: 'email' | 'localPart';
+}
+
+interface Provider {
+  name: string;
+  domains: string[];
+  // MX hosts of custom domains hosted by the provider
+  mx?: RegExp;
+  imap: ServerSettings;
+  smtp: ServerSettings;
+  pop3?: ServerSettings;
+}
+
+const PROVIDERS: Provider[] = [
+  {
+    name: 'Gmail',
+    domains: ['gmail.com', 'googlemail.com'],
+    mx: /(^|\.)(google\.com|googlemail\.com)$/i,
+    imap: { host: 'imap.gmail.com', port: 993, security: 'ssl' },
+    smtp: { host: 'smtp.gmail.com', port: 465, security: 'ssl' },
+    pop3: { host: 'pop.gmail.com', port: 995, security: 'ssl' },
+  },
+  {
+    name: 'Outlook.com',
+    domains: ['outlook.com', 'hotmail.com', 'live.com', 'msn.com'],
+    mx: /(^|\.)mail\.protection\.outlook\.com$/i,
+    imap: { host: 'outlook.office365.com', port: 993, security: 'ssl' },
+    smtp: { host: 'smtp.office365.com', port: 587, security: 'starttls' },
+    pop3: { host: 'outlook.office365.com', port: 995, security: 'ssl' },
+  },
+  {
+    name: 'Yahoo Mail',
+    domains: ['yahoo.com', 'ymail.com', 'rocketmail.com'],
+    mx: /(^|\.)yahoodns\.net$/i,
+    imap: { host: 'imap.mail.yahoo.com', port: 993, security: 'ssl' },
+    smtp: { host: 'smtp.mail.yahoo.com', port: 465, security: 'ssl' },
+    pop3: { host: 'pop.mail.yahoo.com', port: 995, security: 'ssl' },
+  },
+  {
+    name: 'iCloud Mail',
+    domains: ['icloud.com', 'me.com', 'mac.com'],
+    mx: /(^|\.)mail\.icloud\.com$/i,
+    imap: { host: 'imap.mail.me.com', port: 993, security: 'ssl' },
+    smtp: { host: 'smtp.mail.me.com', port: 587, security: 'starttls' },
+  },
+  {
+    name: 'AOL Mail',
+    domains: ['aol.com'],
+    imap: { host: 'imap.aol.com', port: 993, security: 'ssl' },
+    smtp: { host: 'smtp.aol.com', port: 465, security: 'ssl' },
+    pop3: { host: 'pop.aol.com', port: 995, security: 'ssl' },
+  },
+  {
+    name: 'Fastmail',
+    domains: ['fastmail.com', 'fastmail.fm'],
+    mx: /(^|\.)messagingengine\.com$/i,
+    imap: { host: 'imap.fastmail.com', port: 993, security: 'ssl' },
+    smtp: { host: 'smtp.fastmail.com', port: 465, security: 'ssl' },
+    pop3: { host: 'pop.fastmail.com', port: 995, security: 'ssl' },
+  },
+  {
+    name: 'Zoho Mail',
+    domains: ['zoho.com', 'zohomail.com'],
+    mx: /(^|\.)zoho\.com$/i,
+    imap: { host: 'imap.zoho.com', port: 993, security: 'ssl' },
+    smtp: { host: 'smtp.zoho.com', port: 465, security: 'ssl' },
+    pop3: { host: 'pop.zoho.com', port: 995, security: 'ssl' },
+  },
+  {
+    name: 'GMX',
+    domains: ['gmx.com', 'gmx.net', 'gmx.de'],
+    imap: { host: 'imap.gmx.com', port: 993, security: 'ssl' },
+    smtp: { host: 'mail.gmx.com', port: 587, security: 'starttls' },
+    pop3: { host: 'pop.gmx.com', port: 995, security: 'ssl' },
+  },
+  {
+    name: 'Yandex Mail',
+    domains: ['yandex.com', 'yandex.ru', 'ya.ru'],
+    mx: /(^|\.)yandex\.(net|ru)$/i,
+    imap: { host: 'imap.yandex.com', port: 993, security: 'ssl' },
+    smtp: { host: 'smtp.yandex.com', port: 465, security: 'ssl' },
+    pop3: { host: 'pop.yandex.com', port: 995, security: 'ssl' },
+  },
+];
+
+const LOOKUP_TIMEOUT_MS = 5000;
+
+const fromProvider = (
+  provider: Provider,
+  source: DiscoveredSettings['source'],
+): DiscoveredSettings => ({
+  source,
+  provider: provider.name,
+  imap: provider.imap,
+  smtp: provider.smtp,
+  pop3: provider.pop3,
+  username: 'email',
+});
+
+// --- DNS over HTTPS ---
+
+const DNS_TYPES = { A: 1, AAAA: 28, MX: 15, SRV: 33 } as const;
+
+export const resolveDns = async (name: string, type: keyof typeof DNS_TYPES) => {
+  const url = new URL('https://cloudflare-dns.com/dns-query');
+  url.searchParams.set('name', name);
+  url.searchParams.set('type', type);
+  const response = await fetch(url, {
+    headers: { accept: 'application/dns-json' },
+    signal: AbortSignal.timeout(LOOKUP_TIMEOUT_MS),
+  });
+  if (!response.ok) throw new Error(`DNS lookup for ${name} failed with ${response.status}`);
+  const result = (await response.json()) as {
+    Status: number;
+    Answer?: { type: number; data: string }[];
+  };
+  return (result.Answer ?? [])
+    .filter((answer) => answer.type === DNS_TYPES[type])
+    .map((answer) => answer.data);
+};
+
+const trimDot = (host: string) => host.replace(/\.$/, '');
+
+const lookupSrv = async (service: string, domain: string) => {
+  const records = await resolveDns(`_${service}._tcp.${domain}`, 'SRV').catch(() => []);
+  return (
+    records
+      .map((record) => {
+        const [priority, weight, port, target] = record.split(/\s+/);
+        return {
+          priority: Number(priority),
+          weight: Number(weight),
+          port: Number(port),
+          host: trimDot(target ?? ''),
+        };
+      })
+      // A target of "." means the service is explicitly not offered
+      .filter((record) => record.host && record.port > 0)
+      .sort((a, b) => a.priority - b.priority || b.weight - a.weight)[0]
+  );
+};
+
+// --- Autoconfig XML ---
+
+const xmlText = (block: string, tag: string) =>
+  block.match(new RegExp(`<${tag}>\\s*([^<]*?)\\s*</${tag}>`, 'i'))?.[1];
+
+const SOCKET_TYPES: Record<string, SocketSecurity> = {
+  SSL: 'ssl',
+  STARTTLS: 'starttls',
+  plain: 'none',
+};
+
+const parseServer = (block: string): ServerSettings | undefined => {
+  const host = xmlText(block, 'hostname');
+  const port = Number(xmlText(block, 'port'));
+  const security = SOCKET_TYPES[xmlText(block, 'socketType') ?? ''];
+  return host && port > 0 && security ? { host, port, security } : undefined;
+};
+
+/**
+ * Reads the first IMAP, POP3 and SMTP server from a config-v1.1.xml document. Only the
+ * handful of elements needed here are read, so a regular expression parser is enough.
+ */
+export const parseAutoconfig = (xml: string, email: string) => {
+  const [localPart = '', domain = ''] = email.split('@');
+  const servers = [
+    ...xml.matchAll(/<(incoming|outgoing)Server\s+type="(\w+)"[^>]*>([\s\S]*?)<\/\1Server>/gi),
+  ];
+  const find = (type: string) => {
+    const match = servers.find(([, , serverType]) => serverType?.toLowerCase() === type);
+    return match?.[3] ? parseServer(match[3].replace(/%EMAILDOMAIN%/g, domain)) : undefined;
+  };
+  const imap = find('imap');
+  const smtp = find('smtp');
+  if (!imap && !smtp) return null;
+
+  const username = xmlText(servers[0]?.[3] ?? '', 'username');
+  return {
+    imap,
+    smtp,
+    pop3: find('pop3'),
+    username:
+      username === '%EMAILLOCALPART%' || (localPart && username === localPart)
+        ? ('localPart' as const)
+        : ('email' as const),
+  };
+};
+
+const fetchAutoconfig = async (url: string) => {
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(LOOKUP_TIMEOUT_MS) });
+    return response.ok ? await response.text() : null;
+  } catch {
+    return null;
+  }
+};
+
+const lookupAutoconfig = async (email: string, domain: string) => {
+  const address = encodeURIComponent(email);
+  const urls = [
+    `https://autoconfig.${domain}/mail/config-v1.1.xml?emailaddress=${address}`,
+    `https://${domain}/.well-known/autoconfig/mail/config-v1.1.xml?emailaddress=${address}`,
+    `https://autoconfig.thunderbird.net/v1.1/${domain}`,
+  ];
+  for (const url of urls) {
+    const xml = await fetchAutoconfig(url);
+    const settings = xml && parseAutoconfig(xml, email);
+    if (settings) return settings;
+  }
+  return null;
+};
+
+// --- SRV (RFC 6186) ---
+
+const lookupSrvSettings = async (domain: string) => {
+  const [imaps, imap, submissions, submission, pop3s, pop3] = await Promise.all(
+    ['imaps', 'imap', 'submissions', 'submission', 'pop3s', 'pop3'].map((service) =>
+      lookupSrv(service, domain),
+    ),
+  );
+  const server = (
+    record: { host: string; port: number } | undefined,
+    security: SocketSecurity,
+  ): ServerSettings | undefined => (record ? { ...record, security } : undefined);
+
+  const settings = {
+    imap: server(imaps, 'ssl') ?? server(imap, 'starttls'),
+    smtp: server(submissions, 'ssl') ?? server(submission, 'starttls'),
+    pop3: server(pop3s, 'ssl') ?? server(pop3, 'starttls'),
+  };
+  return settings.imap || settings.pop3 ? settings : null;
+};
+
+// --- MX ---
+
+const lookupMxProvider = async (domain: string) => {
+  const records = await resolveDns(domain, 'MX').catch(() => []);
+  const hosts = records.map((record) => trimDot(record.split(/\s+/)[1] ?? ''));
+  return PROVIDERS.find((provider) => hosts.some((host) => provider.mx?.test(host)));
+};
+
+export const discoverMailSettings = async (email: string): Promise<DiscoveredSettings | null> => {
+  const domain = email.split('@')[1]?.trim().toLowerCase();
+  if (!domain) return null;
+
+  const known = PROVIDERS.find((provider) => provider.domains.includes(domain));
+  if (known) return fromProvider(known, 'provider');
+
+  const autoconfig = await lookupAutoconfig(email, domain);
+  if (autoconfig) return { source: 'autoconfig', ...autoconfig };
+
+  const srv = await lookupSrvSettings(domain);
+  if (srv) return { source: 'srv', ...srv, username: 'email' };
+
+  const hosted = await lookupMxProvider(domain);
+  if (hosted) return fromProvider(hosted, 'mx');
+
+  return null;
+};
@@ -0,0 +1,218 @@
+import { resolveDns, type SocketSecurity } from './autoconfig';
+import { SmtpService, type SmtpConfig } from './smtp.service';
+import type { OAuthTokenProvider } from './oauth';
+import { Pop3Service } from './pop3.service';
+import { ImapService } from './imap.service';
+
+// Connection diagnostics for generic IMAP/SMTP/POP3 accounts. Every protocol is checked in the
+// order a client goes through the steps (DNS, TCP connect, TLS or STARTTLS, login), and the
+// first failing step is reported together with the server's error, so the settings form can
+// say "the password was rejected" rather than "could not connect".
+
+const TIMEOUT_MS = 10000;
+
+export type DiagnosticStep = 'dns' | 'connect' | 'tls' | 'starttls' | 'auth';
+
+export interface ServerTestInput {
+  host: string;
+  port: number;
+  security: SocketSecurity;
+}
+
+export interface ConnectionTestInput {
+  email: string;
+  password: string;
+  oauth?: OAuthTokenProvider; // Used for IMAP and SMTP instead of the password when set
+  imap: ServerTestInput;
+  smtp: ServerTestInput;
+  pop3?: ServerTestInput;
+}
+
+export interface ProtocolDiagnostics {
+  ok: boolean;
+  host: string;
+  port: number;
+  steps: { step: DiagnosticStep; status: 'ok' | 'failed' | 'skipped'; message?: string }[];
+  addresses?: string[];
+  // IMAP only, as reported after login
+  capabilities?: string[];
+}
+
+export interface ConnectionTestResult {
+  ok: boolean;
+  imap: ProtocolDiagnostics;
+  smtp: ProtocolDiagnostics;
+  pop3?: ProtocolDiagnostics;
+}
+
+const IP_ADDRESS = /^(\d{1,3}(\.\d{1,3}){3}|\[?[0-9a-f:]+\]?)$/i;
+
+const TLS_ERROR = /CERT|SSL|TLS|SELF_SIGNED|UNABLE_TO_VERIFY/i;
+
+const stepsFor = (security: SocketSecurity): DiagnosticStep[] =>
+  security === 'none'
+    ? ['dns', 'connect', 'auth']
+    : ['dns', 'connect', security === 'ssl' ? 'tls' : 'starttls', 'auth'];
+
+/**
+ * Works out which step an imapflow, nodemailer or poplib error belongs to. The libraries
+ * do not agree on error codes, so the message is used as a fallback.
+ */
+export const classifyConnectionError = (
+  error: unknown,
+  security: SocketSecurity,
+): DiagnosticStep => {
+  const err = (error ?? {}) as {
+    code?: unknown;
+    message?: unknown;
+    authenticationFailed?: boolean;
+    tlsFailed?: boolean;
+  };
+  const code = typeof err.code === 'string' ? err.code : '';
+  const message = typeof err.message === 'string' ? err.message : '';
+  const tlsStep = security === 'starttls' ? 'starttls' : 'tls';
+
+  if (err.authenticationFailed || code === 'EAUTH' || /login failed|authenticat/i.test(message)) {
+    return 'auth';
+  }
+  if (code === 'ENOTFOUND' || code === 'EAI_AGAIN' || code === 'EDNS') return 'dns';
+  if (code === 'UPGRADE_TIMEOUT' || /STARTTLS/i.test(message)) return 'starttls';
+  if (
+    err.tlsFailed ||
+    code === 'ETLS' ||
+    TLS_ERROR.test(code) ||
+    /certificate|ssl|tls/i.test(message)
+  ) {
+    return tlsStep;
+  }
+  return 'connect';
+};
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : 'Unknown error');
+
+const withTimeout = <T>(promise: Promise<T>, label: string) =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(Object.assign(new Error(`${label} timed out`), { code: 'ETIMEDOUT' })),
+      TIMEOUT_MS,
+    );
+    promise.then(resolve, reject).finally(() => clearTimeout(timer));
+  });
+
+const lookupAddresses = async (host: string) => {
+  const [v4, v6] = await Promise.all([resolveDns(host, 'A'), resolveDns(host, 'AAAA')]);
+  return [...v4, ...v6];
+};
+
+/**
+ * Runs the checks for one server. `connect` performs everything after the DNS lookup and
+ * returns extra details for the report; when it fails, the steps before the failing one
+ * are reported as ok and the ones after it as skipped.
+ */
+const runDiagnostics = async (
+  server: ServerTestInput,
+  connect: () => Promise<Pick<ProtocolDiagnostics, 'capabilities'> | void>,
+): Promise<ProtocolDiagnostics> => {
+  const steps = stepsFor(server.security);
+  const result: ProtocolDiagnostics = {
+    ok: false,
+    host: server.host,
+    port: server.port,
+    steps: [],
+  };
+  const finish = (failed: DiagnosticStep, message: string) => {
+    // A step that does not apply to this security mode (TLS errors without TLS) counts as connect
+    const index = steps.includes(failed) ? steps.indexOf(failed) : 1;
+    const done = result.steps.slice(0, index);
+    result.steps = [
+      ...done,
+      ...steps.slice(done.length, index).map((step) => ({ step, status: 'ok' as const })),
+      { step: steps[index] ?? failed, status: 'failed', message },
+      ...steps.slice(index + 1).map((step) => ({ step, status: 'skipped' as const })),
+    ];
+    return result;
+  };
+
+  if (IP_ADDRESS.test(server.host)) {
+    result.steps.push({ step: 'dns', status: 'skipped', message: 'Host is an IP address' });
+  } else {
+    try {
+      result.addresses = await lookupAddresses(server.host);
+    } catch (error) {
+      // The resolver being unreachable says nothing about the host, let the connection decide
+      console.warn(`DNS lookup for ${server.host} failed:`, errorMessage(error));
+    }
+    if (result.addresses && !result.addresses.length) {
+      return finish('dns', `${server.host} has no A or AAAA records`);
+    }
+    result.steps.push({ step: 'dns', status: result.addresses ? 'ok' : 'skipped' });
+  }
+
+  try {
+    const details = await connect();
+    result.steps.push(...steps.slice(1).map((step) => ({ step, status: 'ok' as const })));
+    return { ...result, ...details, ok: true };
+  } catch (error) {
+    return finish(classifyConnectionError(error, server.security), errorMessage(error));
+  }
+};
+
+const testImap = (input: ConnectionTestInput) =>
+  runDiagnostics(input.imap, async () => {
+    const imap = new ImapService({
+      host: input.imap.host,
+      port: input.imap.port,
+      secure: input.imap.security === 'ssl',
+      requireTLS: input.imap.security === 'starttls',
+      auth: { user: input.email, pass: input.password, tokenProvider: input.oauth },
+      timeout: TIMEOUT_MS,
+    });
+    try {
+      await imap.connect();
+      return { capabilities: imap.getConnectionInfo().capabilities };
+    } finally {
+      await imap.disconnect();
+    }
+  });
+
+// Also used on its own, for identities that send with a login of their own
+export const testSmtp = (server: ServerTestInput, auth: SmtpConfig['auth']) =>
+  runDiagnostics(server, async () => {
+    const smtp = new SmtpService({
+      host: server.host,
+      port: server.port,
+      secure: server.security === 'ssl',
+      requireTLS: server.security === 'starttls',
+      auth,
+      timeout: TIMEOUT_MS,
+    });
+    await smtp.verify();
+  });
+
+const testPop3 = (input: ConnectionTestInput, server: ServerTestInput) =>
+  runDiagnostics(server, async () => {
+    const pop3 = new Pop3Service({
+      host: server.host,
+      port: server.port,
+      tls: server.security === 'ssl',
+      auth: { user: input.email, pass: input.password },
+    });
+    try {
+      await withTimeout(pop3.connect(), 'POP3 connection');
+    } finally {
+      await pop3.quit().catch(() => undefined);
+    }
+  });
+
+/**
+ * Logs in to the IMAP and SMTP (and POP3, when configured) servers without saving anything.
+ * Never throws, failures are part of the result.
+ */
+export const testConnection = async (input: ConnectionTestInput): Promise<ConnectionTestResult> => {
+  const [imap, smtp, pop3] = await Promise.all([
+    testImap(input),
+    testSmtp(input.smtp, { user: input.email, pass: input.password, tokenProvider: input.oauth }),
+    input.pop3 ? testPop3(input, input.pop3) : undefined,
+  ]);
+  return { ok: imap.ok && smtp.ok && (!pop3 || pop3.ok), imap, smtp, pop3 };
+};
@@ -1,57 +1,267 @@
+import {
+  DEFAULT_MAILBOXES,
+  detectMailboxMapping,
+  isFolderId,
+  labelNameToPath,
+  pathToLabelName,
+  resolveMailboxMapping,
+  type FolderId,
+  type MailboxMapping,
+} from './imap-folders';
+import {
+  ImapService,
+  StaleUidValidityError,
+  type BasicMessageInfo,
+  type ImapConfig,
+  type FullMessage as ImapFullMessage,
+  type Mailbox,
+  type MailboxChange,
+} from './imap.service';
+import {
+  decodeImapCursor,
+  decodeImapId,
+  encodeImapCursor,
+  encodeImapId,
+  groupByMailbox,
+  type ImapCursor,
+  type ImapMessageRef,
+} from './imap-ids';
+import {
+  Pop3Store,
+  decodePop3Id,
+  encodePop3Id,
+  type Pop3MessageChange,
+  type Pop3Retention,
+  type StoredPop3Message,
+} from './pop3-store';
 import type {
+  BulkOperationResult,
+  EmailAlias,
   MailManager,
   IGetThreadResponse,
   ParsedDraft,
-  IOutgoingMessage,
-  CreateDraftData,
-  Label,
-  ParsedMessage,
-} from './types'; // Actual path
-import { ImapService, ImapConfig, FullMessage as ImapFullMessage } from './imap.service';
-import { SmtpService, SmtpConfig } from './smtp.service';
-import { Pop3Service, Pop3Config } from './pop3.service';
+} from './types';
+import {
+  ImapKeywordStore,
+  keywordForName,
+  keywordFromLabelId,
+  type KeywordLabel,
+} from './imap-keywords';
+import { ImapSyncStore, conversationsByUid, type StoredConversation } from './imap-sync';
+import type { IOutgoingMessage, Label, ParsedMessage, Sender } from '../../types';
+import { sanitizeTipTapHtml, tipTapHtmlToText } from '../sanitize-tip-tap-html';
+import { pooledImapService, type ImapPoolStub } from './imap-session-pool';
+import { createMimeMessage, Mailbox as MimeMailbox } from 'mimetext';
+import { conversationIds, threadMessages } from './imap-threading';
+import { SmtpService, type SmtpConfig } from './smtp.service';
+import { Pop3Service, type Pop3Config } from './pop3.service';
+import { gmailRawSearch, toImapSearch } from './imap-search';
+import { StandardizedError, sanitizeContext } from './utils';
+import { parseMime, toParsedMessage } from './mime-parser';
+import type { CreateDraftData } from '../schemas';
+import type { OAuthTokenProvider } from './oauth';
 import type { HonoContext } from '../../ctx';
-import { StandardizedError } from './utils'; // Actual path
+import type { SearchObject } from 'imapflow';
+import type { DB } from '@zero/db';
+import { FOLDERS } from '../utils';
 
 // Configuration types
 export interface GenericMailManagerAuthConfig {
   email: string;
   passwordPlainText: string;
+  oauth?: OAuthTokenProvider; // IMAP and SMTP log in with OAuth tokens instead of the password
   imap: ImapConfig;
   smtp: SmtpConfig;
   pop3?: Pop3Config;
+  pop3Retention?: Pop3Retention; // What happens to POP3 mail on the server once downloaded
   name?: string; // Optional user name
+  mailboxMapping?: MailboxMapping; // User overrides for the special folders
+  saveSentCopy?: boolean; // Append sent mail to Sent, detected from the SMTP host when unset
+  identities?: MailIdentity[]; // Addresses to send as besides the login
+  connectionId?: string; // Enables the local sync store, needs a database to keep it in
+}
+
+// An address the account sends as. The login address may have one too, for its name and
+// reply-to.
+export interface MailIdentity {
+  email: string; // Lower case
+  name?: string;
+  replyTo?: string;
+  smtpAuth?: { user: string; pass: string }; // Sends with a login of its own
 }
 
 export type GenericMailManagerConfig = {
   auth: GenericMailManagerAuthConfig;
   c?: HonoContext;
+  db?: DB; // The database of the local stores when there is no request context
+  imapPool?: ImapPoolStub; // Runs IMAP calls on the connection's pooled sessions
+};
+
+// The IMAP settings of an account with its credentials, for the services and the session pool
+export const imapConfigFor = (auth: GenericMailManagerAuthConfig): ImapConfig => ({
+  ...auth.imap,
+  auth: { user: auth.email, pass: auth.passwordPlainText, tokenProvider: auth.oauth },
+  logger: false,
+});
+
+const DEFAULT_PAGE_SIZE = 20;
+
+// Where list() reads a folder or search from, page by page. `conversations` are those the
+// server threaded the messages into by UID, null when it can't thread.
+interface ListingSource {
+  page(beforeUid: number | undefined, limit: number): Promise<BasicMessageInfo[]>;
+  conversations(uids: number[]): Promise<Map<number, StoredConversation> | null>;
+}
+
+// Servers may drop connections idling for 30 minutes (RFC 2177), IDLE is renewed before that
+const IDLE_RESTART_MS = 25 * 60 * 1000;
+
+// How many rounds of Message-ID lookups get() does to find the rest of a conversation
+const MAX_CONVERSATION_SEARCH_ROUNDS = 4;
+
+// Messages one POP3 sync downloads at most, the rest follow with the next inbox load
+const MAX_POP3_DOWNLOADS = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Attachment ids that are IMAP body sections and can be downloaded on their own
+const IMAP_SECTION = /^\d+(\.\d+)*$/;
+
+const driverError = (
+  message: string,
+  code: string,
+  operation: string,
+  context?: Record<string, unknown>,
+) => new StandardizedError(Object.assign(new Error(message), { code }), operation, context);
+
+// Ids of the sidebar items (apps/mail/config/navigation.ts) the folder counts are shown on
+const SIDEBAR_FOLDER_IDS: Record<FolderId, string> = {
+  [FOLDERS.INBOX]: 'inbox',
+  [FOLDERS.DRAFT]: 'drafts',
+  [FOLDERS.SENT]: 'sent',
+  [FOLDERS.ARCHIVE]: 'archive',
+  [FOLDERS.SPAM]: 'spam',
+  [FOLDERS.BIN]: 'trash',
+};
+
+// Mailbox flags of hierarchy placeholders, which cannot hold messages and so are no labels
+const NOT_A_LABEL = new Set(['\\Noselect', '\\NonExistent']);
+
+// Failed mailbox commands, recognized by their RFC 5530 response code or, for servers that
+// send none, by the text of the NO response
+const MAILBOX_ERRORS = {
+  exists: {
+    code: 'MAILBOX_EXISTS',
+    responseCodes: ['ALREADYEXISTS'],
+    text: /already exists/i,
+    message: 'A label or folder with this name already exists',
+  },
+  notFound: {
+    code: 'MAILBOX_NOT_FOUND',
+    responseCodes: ['NONEXISTENT'],
+    text: /does ?n[o']t exist|no such|not found/i,
+    message: 'The label or folder does not exist',
+  },
+  notEmpty: {
+    code: 'MAILBOX_NOT_EMPTY',
+    responseCodes: ['HASCHILDREN'],
+    text: /not empty|has children|inferior/i,
+    message: 'Move the messages and folders out of this label before deleting it',
+  },
+  inUse: {
+    code: 'MAILBOX_IN_USE',
+    responseCodes: ['INUSE'],
+    text: /in use/i,
+    message: 'The folder is in use by another session, try again later',
+  },
+  notAllowed: {
+    code: 'MAILBOX_NOT_ALLOWED',
+    responseCodes: ['NOPERM', 'CANNOT'],
+    text: /permission|not allowed|cannot/i,
+    message: 'The server does not allow this change',
+  },
+};
+
+type MailboxErrorKind = (typeof MAILBOX_ERRORS)[keyof typeof MAILBOX_ERRORS];
+
+const mailboxError = (
+  kind: MailboxErrorKind,
+  operation: string,
+  context: Record<string, unknown>,
+) => driverError(kind.message, kind.code, operation, context);
+
+/**
+ * Maps the error of a failed mailbox command to a StandardizedError with one of the
+ * MAILBOX_ERRORS codes. Errors that match none are returned unchanged for withErrorHandler.
+ */
+const toMailboxError = (error: unknown, operation: string, context: Record<string, unknown>) => {
+  const { serverResponseCode, responseText } = (error ?? {}) as {
+    serverResponseCode?: string;
+    responseText?: string;
+  };
+  const kinds = Object.values(MAILBOX_ERRORS);
+  const kind =
+    kinds.find(({ responseCodes }) => responseCodes.includes(serverResponseCode ?? '')) ??
+    kinds.find(({ text }) => responseText && text.test(responseText));
+  return kind ? mailboxError(kind, operation, context) : error;
 };
 
+// Submission servers that file a copy of every message in Sent by themselves, appending
+// another copy would show each sent message twice.
+const SERVER_SAVED_SENT_MAIL = [
+  /(^|\.)gmail\.com$/i,
+  /(^|\.)googlemail\.com$/i,
+  /(^|\.)office365\.com$/i,
+  /(^|\.)outlook\.com$/i,
+  /(^|\.)yahoo\.com$/i,
+];
+
+// Message flags and keywords as tags, keywords of user labels under the label's name
+const flagTags = (flags: string[], keywords: Map<string, KeywordLabel>) =>
+  flags.map((f: string) => {
+    const label = keywords.get(f.toLowerCase());
+    if (label) return { id: label.id, name: label.name, type: label.type };
+    return {
+      id: f,
+      name: f.startsWith('\\') ? f.substring(1) : f, // Prettify system flags like \Seen -> Seen
+      type: 'system', // Other IMAP flags are system level
+    };
+  });
+
+const threadable = (member: BasicMessageInfo) => ({
+  ...member.envelope,
+  date: member.envelope.date ?? member.internalDate,
+  member,
+});
+
 export class GenericMailManager implements MailManager {
   public config: GenericMailManagerConfig;
   private imapService: ImapService;
   private smtpService: SmtpService;
   private pop3Service?: Pop3Service;
+  private pop3Store?: Pop3Store;
   private honoContext?: HonoContext;
+  private syncStore?: ImapSyncStore;
+  private keywordStore?: ImapKeywordStore;
 
   constructor(config: GenericMailManagerConfig) {
     this.config = config;
     this.honoContext = config.c;
+    const db = config.c?.var.db ?? config.db;
+    if (db && config.auth.connectionId) {
+      this.syncStore = new ImapSyncStore(db, config.auth.connectionId);
+      this.keywordStore = new ImapKeywordStore(db, config.auth.connectionId);
+      if (config.auth.pop3) {
+        this.pop3Store = new Pop3Store(db, config.auth.connectionId);
+      }
+    }
 
-    // Note: The ImapConfig and SmtpConfig types in imap.service.ts and smtp.service.ts
-    // already include the nested auth structure.
-    // So, we directly use this.config.auth.imap and this.config.auth.smtp
-    // and then override the auth part with email/passwordPlainText for these services.
-    this.imapService = new ImapService({
-      ...this.config.auth.imap, // host, port, secure, requireTLS from user's IMAP-specific config
-      auth: {
-        // Override auth with top-level credentials
-        user: this.config.auth.email,
-        pass: this.config.auth.passwordPlainText,
-      },
-      logger: false, // Or pass from HonoContext if available/configured
-    });
+    // Requests share logged in sessions when the connection has a pool, without one every
+    // manager logs in on its own
+    this.imapService =
+      config.imapPool && config.auth.connectionId
+        ? pooledImapService(config.imapPool, config.auth.connectionId)
+        : new ImapService(imapConfigFor(this.config.auth));
 
     this.smtpService = new SmtpService({
       ...this.config.auth.smtp, // host, port, secure from user's SMTP-specific config
@@ -59,6 +269,7 @@ export class GenericMailManager implements MailManager {
         // Override auth with top-level credentials
         user: this.config.auth.email,
         pass: this.config.auth.passwordPlainText,
+        tokenProvider: this.config.auth.oauth,
       },
       logger: false, // Or pass from HonoContext
     });
@@ -70,143 +281,282 @@ export class GenericMailManager implements MailManager {
           pass: this.config.auth.passwordPlainText,
         },
       });
-      this.pop3Service.connect().catch((err) => {
-        console.error('POP3 connection error:', err);
-      });
     }
   }
 
   // --- Essential Implementation ---
 
   async get(id: string): Promise<IGetThreadResponse> {
-    // IMAP typically fetches single messages. 'id' is message UID.
-    // Mailbox needs to be known or inferred. Assume INBOX for now.
-    // A better approach might be to pass "mailboxPath/uid" as id.
-    const mailbox = 'INBOX'; // Placeholder
-    const message = this.pop3Service
-      ? await this.pop3Service.fetchMessage(Number(id)).catch(() => null)
-      : await this.imapService.fetchMessage(mailbox, id);
-    if (!message) {
-      throw new StandardizedError('Message not found', 404);
-    }
-    const parsedMessage =
-      typeof message === 'string'
-        ? this.parsePop3Message(message, id)
-        : this.mapImapMessageToParsedMessage(message, mailbox);
-    return {
-      messages: [parsedMessage],
-      latest: parsedMessage,
-      hasUnread: typeof message === 'string' ? true : !message.flags.includes('\\Seen'),
-      totalReplies: 0,
-      labels:
-        typeof message === 'string'
-          ? []
-          : message.flags.map((flag) => ({ id: flag, name: flag, type: 'system' })),
-    };
+    if (this.pop3Service) return this.withErrorHandler('get', () => this.getPop3(id), { id });
+
+    // 'id' is the oldest message of the conversation in the listed folder, the rest of it is
+    // looked up by Message-ID in INBOX and Sent.
+    const ref = decodeImapId(id);
+    return this.withErrorHandler(
+      'get',
+      async () => {
+        const seed = await this.imapService.fetchMessage(
+          ref.mailbox,
+          ref.uid.toString(),
+          ref.uidValidity,
+        );
+        if (!seed) {
+          throw driverError('Message not found', 'NOT_FOUND', 'get', { id });
+        }
+
+        const members = await this.resolveConversation(seed);
+        const keywords = await this.keywordLabels();
+        const messages: ParsedMessage[] = [];
+        const labels = new Map<string, { id: string; name: string }>();
+        let hasUnread = false;
+        for (const member of members) {
+          const message =
+            member === seed
+              ? seed
+              : await this.imapService.fetchMessage(
+                  member.mailbox,
+                  member.uid.toString(),
+                  member.uidValidity,
+                );
+          if (!message) continue;
+          const parsedMessage = this.mapImapMessageToParsedMessage(message, id, keywords);
+          if (parsedMessage.unread) hasUnread = true;
+          for (const tag of parsedMessage.tags) labels.set(tag.id, { id: tag.id, name: tag.name });
+          messages.push(parsedMessage);
+        }
+
+        return {
+          messages,
+          latest: messages[messages.length - 1],
+          hasUnread,
+          totalReplies: messages.length,
+          labels: [...labels.values()],
+        };
+      },
+      { id },
+    );
   }
 
   async list(params: {
     folder: string;
-    query?: string; // IMAP SEARCH query (needs parsing/translation)
+    query?: string; // Gmail style query, translated to IMAP SEARCH criteria
     maxResults?: number;
     labelIds?: string[]; // Map to IMAP flags/keywords
-    pageToken?: string | number; // UID for pagination start
+    pageToken?: string | number; // Opaque cursor returned as nextPageToken
   }): Promise<{ threads: { id: string; $raw?: unknown }[]; nextPageToken: string | null }> {
-    // Note: IMAP 'listMessages' in ImapService is simplified.
-    // A full implementation would use params.query for SEARCH criteria.
     // labelIds could map to KEYWORD searches or flag searches.
-    // pageToken (UID) for starting point.
-    const messages = this.pop3Service
-      ? (await this.pop3Service.listMessages()).map((num) => ({
-          uid: num,
-          flags: [],
-          envelope: {},
-        }))
-      : await this.imapService.listMessages(
-          params.folder,
-          params.pageToken as number,
-          params.maxResults,
-        );
+    if (this.pop3Service) {
+      return this.withErrorHandler('list', () => this.listPop3(params), {
+        folder: params.folder,
+        pageToken: params.pageToken,
+      });
+    }
 
-    const threads = messages.map((msg) => ({
-      id: msg.uid.toString(),
-      // $raw: msg, // Optionally include raw IMAP message info
-    }));
+    return this.withErrorHandler(
+      'list',
+      async () => {
+        const query = params.query?.trim();
+        const { mailbox, criteria } = query
+          ? await this.searchCriteria(params.folder, query)
+          : {
+              mailbox: await this.mailboxFor(params.folder || FOLDERS.INBOX),
+              criteria: { all: true },
+            };
 
-    let nextPageToken: string | null = null;
-    if (messages.length > 0 && params.maxResults && messages.length === params.maxResults) {
-      nextPageToken = (messages[messages.length - 1].uid + 1).toString();
-    }
+        const cursor = params.pageToken ? decodeImapCursor(String(params.pageToken)) : undefined;
+        if (cursor && cursor.mailbox !== mailbox) {
+          throw driverError('Page token belongs to another folder', 'INVALID_CURSOR', 'list', {
+            folder: mailbox,
+          });
+        }
+
+        const limit = params.maxResults ?? DEFAULT_PAGE_SIZE;
+        // Plain folder listings are served from the synced copy, searches need the server
+        const source =
+          this.syncStore && !query
+            ? await this.syncedSource(this.syncStore, mailbox, cursor)
+            : await this.searchSource(mailbox, criteria, cursor);
+
+        // A page can hold nothing but older messages of conversations listed on earlier pages,
+        // the next one is read then so the client is not handed an empty page
+        let beforeUid = cursor?.beforeUid;
+        let threads: { id: string; $raw: unknown }[] = [];
+        let nextPageToken: string | null = null;
+        do {
+          const messages = await source.page(beforeUid, limit);
+          threads = await this.groupConversations(mailbox, messages, beforeUid, source);
 
-    return { threads, nextPageToken };
+          // Messages come newest first, the next page starts below the oldest one of this page
+          const oldest = messages.at(-1);
+          beforeUid = oldest?.uid;
+          nextPageToken =
+            oldest && messages.length === limit
+              ? encodeImapCursor({
+                  mailbox,
+                  uidValidity: oldest.uidValidity,
+                  beforeUid: oldest.uid,
+                })
+              : null;
+        } while (!threads.length && nextPageToken);
+
+        return { threads, nextPageToken };
+      },
+      { folder: params.folder, pageToken: params.pageToken },
+    );
   }
 
   async create(data: IOutgoingMessage): Promise<{ id?: string | null }> {
-    let fromAddress = this.config.auth.email;
-    if (this.config.auth.name) {
-      fromAddress = `"${this.config.auth.name}" <${this.config.auth.email}>`;
-    }
-
-    const result = await this.smtpService.sendMail({
-      from: fromAddress,
-      to: data.to.map((t) => t.email),
-      cc: data.cc?.map((c) => c.email),
-      bcc: data.bcc?.map((b) => b.email),
-      subject: data.subject,
-      text: data.message,
-      html: data.htmlBody,
-      attachments: data.attachments?.map((att) => ({
-        filename: att.filename || 'attachment',
-        content: att.content, // Assuming base64 string or Buffer
-        contentType: att.contentType,
-        path: att.path, // if path is provided
-      })),
-      headers: data.headers,
-      // For threading:
-      // inReplyTo: data.inReplyTo, // if IOutgoingMessage has it
-      // references: data.references, // if IOutgoingMessage has it
-    });
-    return { id: result.messageId };
+    return this.withErrorHandler(
+      'create',
+      async () => {
+        const identity = this.identityFor(data.fromEmail);
+        const { raw, messageId, envelope } = await this.buildOutgoingMime(data, identity);
+        await this.smtpFor(identity).sendRaw(envelope, raw);
+
+        // The message is out at this point, failing to file it must not fail the send
+        if (this.shouldSaveSentCopy()) {
+          try {
+            await this.imapService.appendMessage(
+              await this.mailboxFor(FOLDERS.SENT),
+              raw,
+              ['\\Seen'],
+              messageId,
+            );
+          } catch (error) {
+            console.warn('Failed to save a copy of the sent message:', error);
+          }
+        }
+        return { id: messageId };
+      },
+      { subject: data.subject, fromEmail: data.fromEmail },
+    );
   }
 
-  async markAsRead(threadIds: string[]): Promise<void> {
-    const mailbox = 'INBOX'; // Placeholder - needs context
-    for (const id of threadIds) {
-      await this.imapService.setFlags(mailbox, id, ['\\Seen']);
+  /**
+   * The identity `fromEmail` names, the login address when it is unset. Addresses that are not
+   * set up are refused rather than sent from the login instead.
+   */
+  private identityFor(fromEmail?: string): MailIdentity {
+    const login = this.config.auth.email.toLowerCase();
+    const email = fromEmail?.trim().toLowerCase() || login;
+    const identity = this.config.auth.identities?.find((candidate) => candidate.email === email);
+    if (email === login) {
+      // The login sends as itself, a row for it only changes how it is presented
+      return { ...identity, email: this.config.auth.email, smtpAuth: undefined };
     }
+    if (!identity) {
+      const message = `${fromEmail} is not an identity of this account`;
+      throw driverError(message, 'UNKNOWN_IDENTITY', 'create', { fromEmail });
+    }
+    return identity;
   }
 
-  async markAsUnread(threadIds: string[]): Promise<void> {
-    const mailbox = 'INBOX'; // Placeholder - needs context
-    for (const id of threadIds) {
-      await this.imapService.unsetFlags(mailbox, id, ['\\Seen']);
-    }
+  private smtpFor(identity: MailIdentity) {
+    if (!identity.smtpAuth) return this.smtpService;
+    return new SmtpService({ ...this.config.auth.smtp, auth: identity.smtpAuth, logger: false });
   }
 
-  async delete(id: string): Promise<void> {
-    const trashFolder = 'Trash'; // Common, but should be configurable/discoverable
-    const sourceMailbox = 'INBOX'; // Placeholder - needs context
+  serverSavesSentMail() {
+    return SERVER_SAVED_SENT_MAIL.some((pattern) => pattern.test(this.config.auth.smtp.host));
+  }
 
-    try {
-      await this.imapService.moveMessage(sourceMailbox, id, trashFolder);
-    } catch (error) {
-      console.warn(
-        `Could not move message ${id} to ${trashFolder}. Setting \\Deleted flag as fallback. Expunge not implemented in this manager.`,
-      );
-      await this.imapService.setFlags(sourceMailbox, id, ['\\Deleted']);
-      // An expunge call would be: await this.imapService.expunge(sourceMailbox); // or with specific UIDs
-      // For now, re-throw as the original operation (move) failed.
-      throw new StandardizedError(
-        `Failed to move message to trash and fallback also problematic: ${error}`,
-        500,
-        error,
+  /**
+   * Whether sent mail has to be appended to Sent by us. Unless the user chose otherwise this
+   * is skipped for providers whose SMTP server already does it.
+   */
+  private shouldSaveSentCopy() {
+    return this.config.auth.saveSentCopy ?? !this.serverSavesSentMail();
+  }
+
+  async markAsRead(threadIds: string[]): Promise<BulkOperationResult> {
+    return this.withErrorHandler(
+      'markAsRead',
+      () =>
+        this.pop3Service
+          ? this.changePop3(threadIds, { seen: true })
+          : this.bulkChange(threadIds, (members, failed) =>
+              this.storeFlags(members, ['\\Seen'], true, failed),
+            ),
+      { threadIds },
+    );
+  }
+
+  async markAsUnread(threadIds: string[]): Promise<BulkOperationResult> {
+    return this.withErrorHandler(
+      'markAsUnread',
+      () =>
+        this.pop3Service
+          ? this.changePop3(threadIds, { seen: false })
+          : this.bulkChange(threadIds, (members, failed) =>
+              this.storeFlags(members, ['\\Seen'], false, failed),
+            ),
+      { threadIds },
+    );
+  }
+
+  async delete(id: string): Promise<void> {
+    if (this.pop3Service) {
+      return this.withErrorHandler(
+        'delete',
+        async () => void (await this.changePop3([id], { folder: FOLDERS.BIN })),
+        { id },
       );
     }
+    const ref = decodeImapId(id);
+
+    return this.withErrorHandler(
+      'delete',
+      async () => {
+        const trashFolder = await this.mailboxFor(FOLDERS.BIN);
+        // Servers without MOVE get COPY and an expunge of the original from moveMessage
+        await this.imapService.moveMessage(
+          ref.mailbox,
+          ref.uid.toString(),
+          trashFolder,
+          ref.uidValidity,
+        );
+      },
+      { id },
+    );
   }
 
   async getAttachment(messageId: string, attachmentId: string): Promise<string | undefined> {
-    const mailbox = 'INBOX'; // Placeholder - needs context
-    const stream = await this.imapService.downloadAttachment(mailbox, messageId, attachmentId);
+    if (this.pop3Service) {
+      return this.withErrorHandler(
+        'getAttachment',
+        async () => {
+          const message = await this.pop3('getAttachment').store.get(decodePop3Id(messageId));
+          const attachment = message
+            ? parseMime(message.source).attachments.find((a) => a.partId === attachmentId)
+            : undefined;
+          return attachment?.content.toString('base64');
+        },
+        { messageId, attachmentId },
+      );
+    }
+    const ref = decodeImapId(messageId);
+    // Files unpacked from a winmail.dat have no body section of their own
+    if (!IMAP_SECTION.test(attachmentId)) {
+      const message = await this.withErrorHandler(
+        'getAttachment',
+        () => this.imapService.fetchMessage(ref.mailbox, ref.uid.toString(), ref.uidValidity),
+        { messageId, attachmentId },
+      );
+      const attachment = message?.mime.attachments.find((a) => a.partId === attachmentId);
+      return attachment?.content.toString('base64');
+    }
+
+    const stream = await this.withErrorHandler(
+      'getAttachment',
+      () =>
+        this.imapService.downloadAttachment(
+          ref.mailbox,
+          ref.uid.toString(),
+          attachmentId,
+          ref.uidValidity,
+        ),
+      { messageId, attachmentId },
+    );
     if (!stream) return undefined;
 
     const chunks = [];
@@ -230,64 +580,74 @@ export class GenericMailManager implements MailManager {
   }
 
   // --- Drafts ---
-  private DRAFTS_FOLDER = 'Drafts'; // Common, but should be configurable/discoverable
-
   async createDraft(
     data: CreateDraftData,
   ): Promise<{ id?: string | null; success?: boolean; error?: string }> {
-    // Constructing a full raw RFC822 message for IMAP append is complex.
-    // Nodemailer can be used to build this if available, or a simpler string construction.
-    // This example is highly simplified and likely insufficient for rich content.
-    // ImapService would need an `append` method.
-    // For now, we'll use a console warning and mock success as per plan.
-    let rawMessage = `Subject: ${data.subject || ''}\r\n`;
-    rawMessage += `To: ${data.to?.map((t) => t.email).join(', ') || ''}\r\n`;
-    if (data.cc && data.cc.length > 0)
-      rawMessage += `Cc: ${data.cc.map((t) => t.email).join(', ') || ''}\r\n`;
-    if (data.bcc && data.bcc.length > 0)
-      rawMessage += `Bcc: ${data.bcc.map((t) => t.email).join(', ') || ''}\r\n`; // Note: BCC in headers is unusual for drafts
-    // Other headers (Content-Type, Message-ID, Date) would be needed for a proper draft.
-    rawMessage += `\r\n${data.message || ''}`;
+    return this.withErrorHandler(
+      'createDraft',
+      async () => {
+        const { raw, messageId } = await this.buildDraftMime(data);
+        const stored = await this.imapService.appendMessage(
+          await this.mailboxFor(FOLDERS.DRAFT),
+          raw,
+          ['\\Draft', '\\Seen'],
+          messageId,
+        );
 
-    try {
-      // Placeholder for: const appendResult = await this.imapService.appendMessage(this.DRAFTS_FOLDER, rawMessage, ['\\Draft']);
-      // if (appendResult && appendResult.uid) {
-      //    return { id: appendResult.uid.toString(), success: true };
-      // }
-      console.warn(
-        'createDraft: ImapService.appendMessage method not yet implemented or available. Mocking success.',
-      );
-      return { id: `mockDraft_${Date.now()}`, success: true }; // Mock UID
-    } catch (e: any) {
-      return { success: false, error: e.message };
-    }
+        // Every autosave stores a new copy, the previous version is removed once the new one
+        // is safely stored.
+        if (data.id) {
+          try {
+            const previous = decodeImapId(data.id);
+            await this.imapService.deleteMessages(
+              previous.mailbox,
+              previous.uid.toString(),
+              previous.uidValidity,
+            );
+          } catch (error) {
+            console.warn(`Could not remove previous version of draft ${data.id}:`, error);
+          }
+        }
+
+        return { id: stored ? encodeImapId(stored) : null, success: true };
+      },
+      { id: data.id },
+    );
   }
 
   async getDraft(id: string): Promise<ParsedDraft> {
-    const message = await this.imapService.fetchMessage(this.DRAFTS_FOLDER, id);
+    const ref = decodeImapId(id);
+    const message = await this.withErrorHandler(
+      'getDraft',
+      () => this.imapService.fetchMessage(ref.mailbox, ref.uid.toString(), ref.uidValidity),
+      { id },
+    );
     if (!message || !message.flags.includes('\\Draft')) {
       // Ensure it's a draft
-      throw new StandardizedError('Draft not found or not a draft', 404);
+      throw driverError('Draft not found or not a draft', 'NOT_FOUND', 'getDraft', { id });
     }
     return {
-      id: message.uid.toString(),
+      id: encodeImapId(message),
       to: message.envelope.to?.map((t) => t.address || ''),
       cc: message.envelope.cc?.map((c) => c.address || ''),
       bcc: message.envelope.bcc?.map((b) => b.address || ''),
       subject: message.envelope.subject,
-      content: message.textBody || message.htmlBody, // Prioritize text or html
-      // attachments: this.mapImapMessageToParsedMessage(message, this.DRAFTS_FOLDER).attachments, // if needed
+      content: message.mime.html || message.mime.text, // The composer edits HTML
     };
   }
 
   async listDrafts(params: {
-    folder?: string;
-    query?: string;
+    q?: string;
     maxResults?: number;
-    labelIds?: string[];
-    pageToken?: string | number;
-  }): Promise<{ threads: { id: string; $raw?: unknown }[]; nextPageToken: string | null }> {
-    return this.list({ ...params, folder: this.DRAFTS_FOLDER });
+    pageToken?: string;
+  }): Promise<{ threads: { id: string; $raw: unknown }[]; nextPageToken: string | null }> {
+    const { threads, nextPageToken } = await this.list({
+      folder: FOLDERS.DRAFT,
+      query: params.q,
+      maxResults: params.maxResults,
+      pageToken: params.pageToken,
+    });
+    return { threads: threads.map(({ id, $raw }) => ({ id, $raw })), nextPageToken };
   }
 
   async sendDraft(id: string, data: IOutgoingMessage): Promise<void> {
@@ -297,15 +657,98 @@ export class GenericMailManager implements MailManager {
     // 2. Send the message using the provided data (or augmented data from draft)
     await this.create(data);
 
-    // 3. Delete the draft from the Drafts folder
-    // Ideally, move to Trash or just set \Deleted and expunge.
+    // 3. Delete the draft from the Drafts folder and expunge it. The message is out at this
+    // point, a draft left behind must not fail the send and have it sent again.
     try {
-      await this.imapService.setFlags(this.DRAFTS_FOLDER, id, ['\\Deleted']);
-      // Optionally: await this.imapService.expunge(this.DRAFTS_FOLDER, [id]);
-      console.log(`Draft ${id} marked as \\Deleted. Expunge step would be next.`);
+      const ref = decodeImapId(id);
+      await this.imapService.deleteMessages(ref.mailbox, ref.uid.toString(), ref.uidValidity);
     } catch (error) {
-      console.error(`Error deleting draft ${id} after sending:`, error);
-      throw new StandardizedError(`Failed to delete draft ${id} after sending.`, 500, error);
+      console.warn(`Could not remove draft ${id} after sending it:`, error);
+    }
+  }
+
+  /**
+   * Builds the RFC 822 message stored in the Drafts mailbox: multipart/alternative HTML and
+   * text bodies plus attachments. Bcc is kept since it would otherwise be lost when the draft
+   * is reopened. The Message-ID is returned so the draft can be found again without UIDPLUS.
+   */
+  private async buildDraftMime(data: CreateDraftData) {
+    const recipients = (value?: string) =>
+      (value ?? '')
+        .split(',')
+        .map((recipient) => recipient.trim())
+        .filter(Boolean)
+        .map((recipient) => ({ addr: recipient }));
+    const messageId = this.newMessageId();
+
+    const msg = createMimeMessage();
+    msg.setSender({ name: this.config.auth.name || '', addr: this.config.auth.email });
+    const to = recipients(data.to);
+    if (to.length) msg.setTo(to);
+    const cc = recipients(data.cc);
+    if (cc.length) msg.setCc(cc);
+    const bcc = recipients(data.bcc);
+    if (bcc.length) msg.setBcc(bcc);
+    msg.setSubject(data.subject);
+    msg.setHeader('Message-ID', messageId);
+
+    await this.addBody(msg, data.message, data.attachments);
+
+    return { raw: msg.asRaw(), messageId };
+  }
+
+  /**
+   * Builds the message submitted over SMTP. Bcc recipients are only part of the envelope,
+   * the MIME is sent (and filed in Sent) exactly as returned here.
+   */
+  private async buildOutgoingMime(data: IOutgoingMessage, identity: MailIdentity) {
+    const address = ({ name, email }: Sender) => ({ name: name || '', addr: email });
+    const messageId = this.newMessageId();
+
+    const msg = createMimeMessage();
+    msg.setSender({ name: identity.name || this.config.auth.name || '', addr: identity.email });
+    if (data.to.length) msg.setTo(data.to.map(address));
+    if (data.cc?.length) msg.setCc(data.cc.map(address));
+    msg.setSubject(data.subject);
+    msg.setHeader('Message-ID', messageId);
+    if (identity.replyTo) msg.setHeader('Reply-To', new MimeMailbox({ addr: identity.replyTo }));
+    for (const [key, value] of Object.entries(data.headers ?? {})) {
+      if (value) msg.setHeader(key, value);
+    }
+    await this.addBody(msg, data.message, data.attachments);
+
+    const recipients = [...data.to, ...(data.cc ?? []), ...(data.bcc ?? [])];
+    return {
+      raw: msg.asRaw(),
+      messageId,
+      envelope: {
+        from: identity.email,
+        to: [...new Set(recipients.map((recipient) => recipient.email))],
+      },
+    };
+  }
+
+  private newMessageId() {
+    const domain = this.config.auth.email.split('@')[1] || 'localhost';
+    return `<${crypto.randomUUID()}@${domain}>`;
+  }
+
+  // The editor produces HTML, a plain text alternative is derived from it
+  private async addBody(
+    msg: ReturnType<typeof createMimeMessage>,
+    html: string,
+    attachments: File[] = [],
+  ) {
+    msg.addMessage({ contentType: 'text/plain', data: await tipTapHtmlToText(html) });
+    msg.addMessage({ contentType: 'text/html', data: await sanitizeTipTapHtml(html) });
+
+    for (const attachment of attachments) {
+      const arrayBuffer = await attachment.arrayBuffer();
+      msg.addAttachment({
+        filename: attachment.name,
+        contentType: attachment.type || 'application/octet-stream',
+        data: Buffer.from(arrayBuffer).toString('base64'),
+      });
     }
   }
 
@@ -313,95 +756,285 @@ export class GenericMailManager implements MailManager {
   async modifyLabels(
     ids: string[],
     options: { addLabels: string[]; removeLabels: string[] },
-  ): Promise<void> {
-    const mailbox = 'INBOX'; // Placeholder, real mailbox context needed for each id
-
-    for (const id of ids) {
-      // System flags (non-folder based)
-      if (options.addLabels.includes('STARRED'))
-        await this.imapService.setFlags(mailbox, id, ['\\Starred']);
-      if (options.addLabels.includes('IMPORTANT'))
-        await this.imapService.setFlags(mailbox, id, ['\\Flagged']); // Standard \Flagged, not "IMPORTANT"
-
-      if (options.removeLabels.includes('STARRED'))
-        await this.imapService.unsetFlags(mailbox, id, ['\\Starred']);
-      if (options.removeLabels.includes('IMPORTANT'))
-        await this.imapService.unsetFlags(mailbox, id, ['\\Flagged']);
-
-      // Folder-based "labels" (moving messages)
-      // This assumes 'id' is just UID and mailbox is INBOX. A more robust system
-      // would require id to be "mailbox/uid" or have mailbox context.
-      if (options.addLabels.includes('TRASH')) {
-        await this.imapService.moveMessage(mailbox, id, 'Trash'); // Assumes 'Trash' folder
-      } else if (options.removeLabels.includes('INBOX') && !options.addLabels.includes('TRASH')) {
-        // Archive
-        await this.imapService.moveMessage(mailbox, id, 'Archive'); // Assumes 'Archive' folder
-      }
-      // Adding to INBOX (unarchiving) would be a move from 'Archive' to 'INBOX'.
-      // Custom labels as folders are more complex and would involve moving to that folder.
+  ): Promise<BulkOperationResult> {
+    // User labels stored as keywords, on every message of the conversation as well
+    const keywordsOf = (labelIds: string[]) =>
+      labelIds.flatMap((labelId) => keywordFromLabelId(labelId) ?? []);
+    const addKeywords = keywordsOf(options.addLabels);
+    const removeKeywords = keywordsOf(options.removeLabels);
+    if (this.pop3Service) {
+      return this.withErrorHandler(
+        'modifyLabels',
+        () => this.changePop3(ids, this.pop3LabelChange(options, addKeywords, removeKeywords)),
+        { ids, options },
+      );
     }
+
+    return this.withErrorHandler(
+      'modifyLabels',
+      () =>
+        this.bulkChange(ids, async (members, failed) => {
+          // System flags (non-folder based) apply to every message of the conversation. IMAP
+          // has no star, starred and important are both the standard \Flagged, as for POP3.
+          const flagged = ['STARRED', 'IMPORTANT'];
+          if (options.addLabels.some((label) => flagged.includes(label)))
+            await this.storeFlags(members, ['\\Flagged'], true, failed);
+          else if (options.removeLabels.some((label) => flagged.includes(label)))
+            await this.storeFlags(members, ['\\Flagged'], false, failed);
+
+          if (addKeywords.length) await this.storeFlags(members, addKeywords, true, failed);
+          if (removeKeywords.length) await this.storeFlags(members, removeKeywords, false, failed);
+
+          // Folder-based "labels" (moving messages). Only the messages in the folder the
+          // conversation was listed from are moved, replies in Sent stay where they are.
+          const listedFrom = new Set(ids.map((id) => decodeImapId(id).mailbox));
+          const listed = members.filter((member) => listedFrom.has(member.mailbox));
+          if (options.addLabels.includes('TRASH')) {
+            await this.moveMessages(listed, await this.mailboxFor(FOLDERS.BIN), failed);
+          } else if (
+            options.removeLabels.includes('INBOX') &&
+            !options.addLabels.includes('TRASH')
+          ) {
+            // Archive
+            await this.moveMessages(listed, await this.mailboxFor(FOLDERS.ARCHIVE), failed);
+          }
+          // Adding to INBOX (unarchiving) would be a move from the archive to INBOX.
+          // Custom labels as folders are more complex and would involve moving to that folder.
+        }),
+      { ids, options },
+    );
   }
 
   async getUserLabels(): Promise<Label[]> {
-    const mailboxes = await this.imapService.listMailboxes();
-    const systemFlags: Label[] = [
-      // Represent common IMAP flags as labels
-      { id: '\\Seen', name: 'Read', type: 'system' },
-      { id: '\\Starred', name: 'Starred', type: 'system' },
-      { id: '\\Flagged', name: 'Flagged', type: 'system' }, // Often "Important"
-      { id: '\\Draft', name: 'Draft', type: 'system' },
-      { id: '\\Deleted', name: 'Deleted', type: 'system' },
-    ];
-    const folderLabels: Label[] = mailboxes.map((mb) => ({
-      id: mb.path,
-      name: mb.name,
-      type: 'folder',
-    }));
-    return [...systemFlags, ...folderLabels];
+    return this.withErrorHandler('getUserLabels', async () => {
+      const keywordLabels = [...(await this.keywordLabels()).values()].map(
+        ({ keyword: _keyword, ...label }) => label,
+      );
+      // POP3 has a single mailbox, labels are only ever keywords kept in the database
+      if (this.pop3Service) return keywordLabels;
+
+      const mailboxes = await this.imapService.listMailboxes();
+      const namespace = await this.imapService.getNamespace();
+      const folders = this.folderMailboxes(mailboxes);
+      const systemFlags: Label[] = [
+        // Represent common IMAP flags as labels
+        { id: '\\Seen', name: 'Read', type: 'system' },
+        { id: '\\Flagged', name: 'Flagged', type: 'system' }, // Starred and important
+        { id: '\\Draft', name: 'Draft', type: 'system' },
+        { id: '\\Deleted', name: 'Deleted', type: 'system' },
+      ];
+      // Mailboxes the user created are their labels, the app's folders, other special-use
+      // mailboxes and parents that cannot hold messages are not
+      const folderLabels: Label[] = mailboxes.map((mb) => ({
+        id: mb.path,
+        name: pathToLabelName(mb.path, namespace),
+        type:
+          folders.has(mb.path) || mb.specialUse || mb.flags.some((flag) => NOT_A_LABEL.has(flag))
+            ? 'folder'
+            : 'user',
+      }));
+      return [...systemFlags, ...folderLabels, ...keywordLabels];
+    });
   }
 
   async getLabel(id: string): Promise<Label> {
-    // id can be mailbox path or flag name
-    // Check if it's a known system flag first
-    const systemLabel = (await this.getUserLabels()).find(
-      (l) => l.id === id && l.type === 'system',
+    // id is a mailbox path or a flag name
+    const label = (await this.getUserLabels()).find((l) => l.id === id);
+    if (label) return label;
+    throw driverError(`Label (folder or flag) '${id}' not found`, 'NOT_FOUND', 'getLabel', { id });
+  }
+
+  /**
+   * Labels are keywords when the server accepts keywords of our choosing and the connection
+   * has a database to keep their names in. Otherwise they are mailboxes, "Work/ProjectX" is
+   * then created as a ProjectX mailbox inside Work.
+   */
+  async createLabel(label: { name: string; color?: Label['color'] }): Promise<void> {
+    const context = { name: label.name };
+    return this.withErrorHandler(
+      'createLabel',
+      async () => {
+        if (this.pop3Service) {
+          return this.createKeywordLabel(this.pop3('createLabel').keywordStore, label);
+        }
+        if (
+          this.keywordStore &&
+          (await this.imapService.allowsCustomKeywords(await this.mailboxFor(FOLDERS.INBOX)))
+        ) {
+          return this.createKeywordLabel(this.keywordStore, label);
+        }
+
+        const path = await this.labelPath(label.name, 'createLabel');
+        const mailboxes = await this.imapService.listMailboxes();
+        if (mailboxes.some((mb) => mb.path === path)) {
+          throw mailboxError(MAILBOX_ERRORS.exists, 'createLabel', context);
+        }
+        const created = await this.imapService
+          .createMailbox(path)
+          .catch((error) => Promise.reject(toMailboxError(error, 'createLabel', context)));
+        if (!created) throw mailboxError(MAILBOX_ERRORS.exists, 'createLabel', context);
+      },
+      context,
     );
-    if (systemLabel) return systemLabel;
+  }
 
-    // Assume it's a folder path
-    const mailboxes = await this.imapService.listMailboxes();
-    const foundFolder = mailboxes.find((mb) => mb.path === id);
-    if (foundFolder) {
-      return { id: foundFolder.path, name: foundFolder.name, type: 'folder' };
-    }
-    throw new StandardizedError(`Label (folder or flag) '${id}' not found`, 404);
+  async updateLabel(id: string, label: { name: string; color?: Label['color'] }): Promise<void> {
+    const context = { id, name: label.name };
+    return this.withErrorHandler(
+      'updateLabel',
+      async () => {
+        const keyword = keywordFromLabelId(id);
+        if (keyword) return this.updateKeywordLabel(keyword, label);
+
+        const { mailboxes, namespace } = await this.labelMailbox(id, 'updateLabel');
+        const newPath = await this.labelPath(label.name, 'updateLabel');
+        if (newPath === id) return;
+        if (mailboxes.some((mb) => mb.path === newPath)) {
+          throw mailboxError(MAILBOX_ERRORS.exists, 'updateLabel', context);
+        }
+
+        await this.imapService
+          .renameMailbox(id, newPath)
+          .catch((error) => Promise.reject(toMailboxError(error, 'updateLabel', context)));
+        // Servers are not required to carry the subscription over to the new name
+        await this.imapService
+          .subscribeMailbox(newPath)
+          .catch((error) =>
+            console.warn(`Could not subscribe to renamed mailbox ${newPath}:`, error),
+          );
+        await this.syncStore?.forgetMailbox(id, namespace.delimiter);
+      },
+      context,
+    );
   }
 
-  async createLabel(label: { name: string /* color? */ }): Promise<void> {
-    // This means creating a new IMAP folder.
-    // ImapService needs a createMailbox(path) method.
-    // await this.imapService.createMailbox(label.name); // e.g., label.name could be "Work/ProjectX"
-    console.warn(
-      `createLabel (createMailbox for ${label.name}) not fully implemented in ImapService for this subtask.`,
+  async deleteLabel(id: string): Promise<void> {
+    const context = { id };
+    return this.withErrorHandler(
+      'deleteLabel',
+      async () => {
+        const keyword = keywordFromLabelId(id);
+        if (keyword) return this.deleteKeywordLabel(keyword);
+
+        const { mailboxes, namespace } = await this.labelMailbox(id, 'deleteLabel');
+        // Deleting a mailbox deletes the mail in it, unlike removing a Gmail label
+        const children = namespace.delimiter
+          ? mailboxes.filter((mb) => mb.path.startsWith(id + namespace.delimiter))
+          : [];
+        if (children.length || (await this.imapService.getMailboxStatus(id)).messages > 0) {
+          throw mailboxError(MAILBOX_ERRORS.notEmpty, 'deleteLabel', context);
+        }
+
+        await this.imapService
+          .deleteMailbox(id)
+          .catch((error) => Promise.reject(toMailboxError(error, 'deleteLabel', context)));
+        await this.imapService
+          .unsubscribeMailbox(id)
+          .catch((error) => console.warn(`Could not unsubscribe from mailbox ${id}:`, error));
+        await this.syncStore?.forgetMailbox(id, namespace.delimiter);
+      },
+      context,
     );
   }
 
-  async updateLabel(id: string, label: { name: string /* color? */ }): Promise<void> {
-    // Renaming an IMAP folder (id is oldPath).
-    // ImapService needs a renameMailbox(oldPath, newPath) method.
-    // await this.imapService.renameMailbox(id, label.name);
-    console.warn(
-      `updateLabel (renameMailbox from ${id} to ${label.name}) not fully implemented in ImapService for this subtask.`,
+  // Keyword labels by their (lower case) keyword, empty without a database
+  private async keywordLabels(): Promise<Map<string, KeywordLabel>> {
+    const labels = (await this.keywordStore?.list()) ?? [];
+    return new Map(labels.map((label) => [label.keyword.toLowerCase(), label]));
+  }
+
+  // A label name that is empty or taken by another keyword label (names are case-insensitive)
+  private async checkKeywordLabelName(name: string, operation: string, keyword?: string) {
+    if (!name.trim()) {
+      throw driverError('Label names cannot be empty', 'INVALID_LABEL_NAME', operation, { name });
+    }
+    const labels = [...(await this.keywordLabels()).values()];
+    const taken = labels.some(
+      (label) =>
+        label.keyword !== keyword && label.name.toLowerCase() === name.trim().toLowerCase(),
     );
+    if (taken) throw mailboxError(MAILBOX_ERRORS.exists, operation, { name });
+    return labels;
   }
 
-  async deleteLabel(id: string): Promise<void> {
-    // Deleting an IMAP folder.
-    // ImapService needs a deleteMailbox(path) method.
-    // await this.imapService.deleteMailbox(id);
-    console.warn(
-      `deleteLabel (deleteMailbox ${id}) not fully implemented in ImapService for this subtask.`,
+  private async createKeywordLabel(
+    store: ImapKeywordStore,
+    label: { name: string; color?: Label['color'] },
+  ) {
+    const labels = await this.checkKeywordLabelName(label.name, 'createLabel');
+    const keyword = keywordForName(
+      label.name.trim(),
+      new Set(labels.map((existing) => existing.keyword.toLowerCase())),
     );
+    await store.create(keyword, { name: label.name.trim(), color: label.color });
+  }
+
+  private async updateKeywordLabel(
+    keyword: string,
+    label: { name: string; color?: Label['color'] },
+  ) {
+    const labels = await this.checkKeywordLabelName(label.name, 'updateLabel', keyword);
+    if (!this.keywordStore || !labels.some((existing) => existing.keyword === keyword)) {
+      throw mailboxError(MAILBOX_ERRORS.notFound, 'updateLabel', { keyword });
+    }
+    await this.keywordStore.update(keyword, { name: label.name.trim(), color: label.color });
+  }
+
+  // Takes the keyword off every message that has it before the label is forgotten
+  private async deleteKeywordLabel(keyword: string) {
+    if (!this.keywordStore || !(await this.keywordLabels()).has(keyword.toLowerCase())) {
+      throw mailboxError(MAILBOX_ERRORS.notFound, 'deleteLabel', { keyword });
+    }
+    if (this.pop3Service) {
+      await this.pop3('deleteLabel').store.clearKeyword(keyword);
+      await this.keywordStore.remove(keyword);
+      return;
+    }
+    const mailboxes = await this.imapService.listMailboxes();
+    for (const mailbox of mailboxes) {
+      if (mailbox.flags.some((flag) => NOT_A_LABEL.has(flag))) continue;
+      await this.imapService
+        .clearFlag(mailbox.path, keyword)
+        .catch((error) =>
+          console.warn(`Could not remove keyword ${keyword} in ${mailbox.path}:`, error),
+        );
+    }
+    await this.keywordStore.remove(keyword);
+  }
+
+  // The mailbox path for a label name, in the server's namespace and with its delimiter
+  private async labelPath(name: string, operation: string) {
+    const namespace = await this.imapService.getNamespace();
+    const path = labelNameToPath(name, namespace);
+    if (!path) {
+      throw driverError(
+        namespace.delimiter
+          ? `Label names cannot be empty or contain "${namespace.delimiter}" on this server`
+          : 'This server does not support nested labels',
+        'INVALID_LABEL_NAME',
+        operation,
+        { name },
+      );
+    }
+    return path;
+  }
+
+  // Looks up the mailbox of a user label, refusing the mailboxes behind the app's folders
+  private async labelMailbox(id: string, operation: string) {
+    const mailboxes = await this.imapService.listMailboxes();
+    const namespace = await this.imapService.getNamespace();
+    if (!mailboxes.some((mb) => mb.path === id)) {
+      throw mailboxError(MAILBOX_ERRORS.notFound, operation, { id });
+    }
+    if (this.folderMailboxes(mailboxes).has(id)) {
+      throw driverError(
+        `"${id}" is a system folder and cannot be changed`,
+        'MAILBOX_PROTECTED',
+        operation,
+        { id },
+      );
+    }
+    return { mailboxes, namespace };
   }
 
   // --- OAuth Specific (Not Applicable for direct IMAP/SMTP) ---
@@ -417,24 +1050,45 @@ export class GenericMailManager implements MailManager {
   }
 
   // --- Other Methods ---
-  async count(): Promise<{ count?: number; label?: string }[]> {
-    const mailboxes = await this.imapService.listMailboxes();
-    const counts = [];
-    for (const mb of mailboxes) {
-      try {
-        // ImapService needs a status(mailboxPath, {messages: true}) method
-        // const status = await this.imapService.status(mb.path, {messages: true});
-        // counts.push({ label: mb.name, count: status.messages });
-        console.warn(
-          `count for ${mb.name}: ImapService.status method not fully implemented. Returning placeholder.`,
+
+  /**
+   * Unread and total counts of the app folders, labelled with the ids of the sidebar items.
+   * Servers with LIST-STATUS report all folders in one command.
+   */
+  async count(): Promise<{ count?: number; label?: string; total?: number; recent?: number }[]> {
+    if (this.pop3Service) {
+      return this.withErrorHandler('count', async () => {
+        const counts = await this.pop3('count').store.counts();
+        return counts.flatMap(({ folder, unseen, messages }) =>
+          isFolderId(folder)
+            ? [{ label: SIDEBAR_FOLDER_IDS[folder], count: unseen, total: messages }]
+            : [],
         );
-        counts.push({ label: mb.name, count: 0 }); // Placeholder
-      } catch (error) {
-        console.error(`Error getting status for mailbox ${mb.name}:`, error);
-        counts.push({ label: mb.name, count: undefined }); // Indicate error or unknown
-      }
+      });
     }
-    return counts;
+    return this.withErrorHandler('count', async () => {
+      const folders = await Promise.all(
+        Object.values(FOLDERS).map(async (folder) => ({
+          folder,
+          mailbox: await this.mailboxFor(folder),
+        })),
+      );
+      const statuses = await this.imapService.getMailboxStatuses(
+        folders.map(({ mailbox }) => mailbox),
+      );
+      return folders.flatMap(({ folder, mailbox }) => {
+        const status = statuses.get(mailbox);
+        if (!status) return [];
+        return [
+          {
+            label: SIDEBAR_FOLDER_IDS[folder],
+            count: status.unseen,
+            total: status.messages,
+            recent: status.recent,
+          },
+        ];
+      });
+    });
   }
 
   async getUserInfo(): Promise<{ address: string; name: string; photo: string }> {
@@ -445,98 +1099,669 @@ export class GenericMailManager implements MailManager {
     };
   }
 
-  normalizeIds(ids: string[]): { threadIds: string[] } {
-    // For IMAP UIDs, they are generally already in a usable string format.
-    return { threadIds: ids };
+  normalizeIds(ids: string[]): { threadIds: string[]; messages: ImapMessageRef[] } {
+    // POP3 messages are threads of their own, identified by their UIDL
+    if (this.pop3Service) {
+      return { threadIds: ids.map((id) => encodePop3Id(decodePop3Id(id))), messages: [] };
+    }
+    // IMAP ids carry the mailbox and UIDVALIDITY, decoding rejects malformed ones early
+    const messages = ids.map(decodeImapId);
+    return { threadIds: messages.map(encodeImapId), messages };
   }
 
-  async getEmailAliases(): Promise<{ email: string; name?: string; primary?: boolean }[]> {
-    // Standard IMAP/SMTP doesn't provide alias information. Return primary configured email.
+  async getEmailAliases(): Promise<EmailAlias[]> {
+    // IMAP and SMTP know nothing of aliases, they are the identities set up for the connection
+    const alias = ({ email, name, replyTo }: MailIdentity, primary: boolean) => ({
+      email,
+      name: name || this.config.auth.name,
+      primary,
+      replyTo,
+    });
+    const login = this.identityFor();
     return [
-      {
-        email: this.config.auth.email,
-        name: this.config.auth.name,
-        primary: true,
-      },
+      alias(login, true),
+      ...(this.config.auth.identities ?? [])
+        .filter((identity) => identity.email !== login.email.toLowerCase())
+        .map((identity) => alias(identity, false)),
     ];
   }
 
-  // --- Helper to map IMAP message to ParsedMessage (from types.ts) ---
-  private mapImapMessageToParsedMessage(msg: ImapFullMessage, mailbox: string): ParsedMessage {
-    const fromParty = msg.envelope?.from?.[0];
-    const toParties = msg.envelope?.to || [];
-    const ccParties = msg.envelope?.cc || [];
-    const bccParties = msg.envelope?.bcc || []; // Usually not present in fetched message for privacy
+  // --- Push ---
+
+  /**
+   * Watches INBOX for new mail and for changes made by other clients, calling `onChange` with
+   * the id of every affected message and the id of the conversation it is listed under. Runs
+   * on a connection of its own until `signal` is aborted and rejects when that connection is
+   * lost, the caller decides when to retry.
+   */
+  async watchInbox(
+    onChange: (change: { id: string; threadId: string; type: MailboxChange['type'] }) => void,
+    signal: AbortSignal,
+  ): Promise<void> {
+    if (this.pop3Service) {
+      throw driverError('POP3 has no push notifications', 'NOT_SUPPORTED', 'watchInbox');
+    }
+    // INBOX is the one mailbox every server has under that name, no need to list them first
+    const inbox =
+      this.config.auth.mailboxMapping?.[FOLDERS.INBOX] ?? DEFAULT_MAILBOXES[FOLDERS.INBOX];
+    const watcher = new ImapService({
+      ...imapConfigFor(this.config.auth),
+      maxIdleTime: IDLE_RESTART_MS,
+    });
+    try {
+      await watcher.watchMailbox(
+        inbox,
+        (change) =>
+          void this.conversationIdOf(change).then((threadId) =>
+            onChange({ id: encodeImapId(change), threadId, type: change.type }),
+          ),
+        { signal },
+      );
+    } finally {
+      await watcher.disconnect();
+    }
+  }
 
+  /**
+   * The thread id a changed message is listed under, its conversation's oldest UID in the
+   * mailbox. Taken from the sync store, messages it has not threaded yet are looked up by
+   * Message-ID like `get` does. A message that can't be resolved, such as one expunged before
+   * it was synced, stands for itself.
+   */
+  private async conversationIdOf(change: MailboxChange): Promise<string> {
+    const { mailbox, uidValidity, uid } = change;
+    try {
+      const stored = await this.syncStore?.conversations(mailbox, [uid]);
+      const conversation = stored?.get(uid);
+      if (conversation) return encodeImapId({ mailbox, uidValidity, uid: conversation.root });
+      if (change.type === 'expunge') return encodeImapId(change);
+
+      const [seed] = await this.imapService.fetchMessageInfos(mailbox, [uid], uidValidity);
+      if (!seed) return encodeImapId(change);
+      const root = Math.min(
+        ...(await this.resolveConversation(seed))
+          .filter((member) => member.mailbox === mailbox && member.uidValidity === uidValidity)
+          .map((member) => member.uid),
+        uid,
+      );
+      return encodeImapId({ mailbox, uidValidity, uid: root });
+    } catch (error) {
+      console.warn(`Could not resolve the conversation of ${encodeImapId(change)}:`, error);
+      return encodeImapId(change);
+    }
+  }
+
+  // --- Search ---
+
+  // Keywords of the user labels by their lower case name, for `label:` terms
+  private async keywordsByName() {
+    return new Map(
+      [...(await this.keywordLabels()).values()].map((label) => [
+        label.name.toLowerCase(),
+        label.keyword,
+      ]),
+    );
+  }
+
+  private async searchCriteria(folder: string, query: string) {
+    const translated = toImapSearch(query, {
+      self: this.config.auth.email,
+      keywords: await this.keywordsByName(),
+    });
+    const mailbox = await this.mailboxFor(translated.folder ?? (folder || FOLDERS.INBOX));
+    // Gmail over IMAP understands the query as is, everything else gets the translated tree
+    const criteria = (await this.imapService.hasCapability('X-GM-EXT-1'))
+      ? gmailRawSearch(query)
+      : translated.criteria;
+    if (translated.unsupported.length && !criteria.gmraw) {
+      console.warn(
+        `IMAP search ignored terms without an IMAP equivalent: ${translated.unsupported.join(', ')}`,
+      );
+    }
+
+    return { mailbox, criteria };
+  }
+
+  // --- POP3 ---
+
+  // POP3 mail is kept in the database, see pop3-store.ts, a connection without one cannot read it
+  private pop3(operation: string) {
+    if (!this.pop3Service || !this.pop3Store || !this.keywordStore) {
+      throw driverError(
+        'POP3 accounts need a database to keep mail in',
+        'NOT_SUPPORTED',
+        operation,
+      );
+    }
+    return { service: this.pop3Service, store: this.pop3Store, keywordStore: this.keywordStore };
+  }
+
+  /**
+   * Downloads the messages that are new on the server, newest first and at most
+   * MAX_POP3_DOWNLOADS at a time, then deletes the ones pop3Retention no longer keeps there.
+   * The server only removes them with QUIT, so that is when they are marked as gone.
+   */
+  private async syncPop3() {
+    const { service, store } = this.pop3('syncPop3');
+    const retention = this.config.auth.pop3Retention ?? { leaveOnServer: true };
+    try {
+      const uidls = await service.listUids();
+      const stored = await store.serverState();
+      const present = new Set(uidls.values());
+      await store.markRemovedFromServer(
+        [...stored].flatMap(([uidl, state]) => (state.onServer && !present.has(uidl) ? uidl : [])),
+      );
+
+      // Message numbers follow the order the messages arrived in
+      const downloadedAt = new Date();
+      const missing = [...uidls]
+        .filter(([, uidl]) => !stored.has(uidl))
+        .sort(([a], [b]) => b - a)
+        .slice(0, MAX_POP3_DOWNLOADS);
+      for (const [number, uidl] of missing) {
+        await store.insert(uidl, await service.fetchMessage(number), downloadedAt);
+        stored.set(uidl, { downloadedAt, onServer: true });
+      }
+
+      const expired = !retention.leaveOnServer
+        ? new Set(stored.keys())
+        : retention.deleteAfterDays
+          ? new Set(
+              await store.downloadedBefore(
+                new Date(Date.now() - retention.deleteAfterDays * DAY_MS),
+              ),
+            )
+          : new Set<string>();
+      const deleted: string[] = [];
+      for (const [number, uidl] of uidls) {
+        if (!expired.has(uidl)) continue;
+        await service.deleteMessage(number);
+        deleted.push(uidl);
+      }
+      await service.quit();
+      await store.markRemovedFromServer(deleted);
+    } finally {
+      // Closes the session when anything above failed, leaving the messages on the server
+      await service.quit().catch(() => undefined);
+    }
+  }
+
+  // New mail only arrives in the inbox and is downloaded when its first page is loaded
+  private async listPop3(params: {
+    folder: string;
+    query?: string;
+    maxResults?: number;
+    pageToken?: string | number;
+  }) {
+    const { store } = this.pop3('list');
+    const query = params.query?.trim();
+    const translated = query
+      ? toImapSearch(query, {
+          self: this.config.auth.email,
+          keywords: await this.keywordsByName(),
+        })
+      : undefined;
+    const folder = translated?.folder ?? (params.folder || FOLDERS.INBOX);
+    if (folder === FOLDERS.INBOX && !params.pageToken) await this.syncPop3();
+
+    const { uidls, nextPageToken } = await store.page(folder, {
+      criteria: translated?.criteria ?? { all: true },
+      pageToken: params.pageToken ? String(params.pageToken) : undefined,
+      limit: params.maxResults ?? DEFAULT_PAGE_SIZE,
+    });
+    return { threads: uidls.map((uidl) => ({ id: encodePop3Id(uidl) })), nextPageToken };
+  }
+
+  private async getPop3(id: string): Promise<IGetThreadResponse> {
+    const message = await this.pop3('get').store.get(decodePop3Id(id));
+    if (!message) throw driverError('Message not found', 'NOT_FOUND', 'get', { id });
+    const parsedMessage = this.mapPop3MessageToParsedMessage(message, await this.keywordLabels());
     return {
-      id: msg.uid.toString(),
-      threadId: msg.uid.toString(), // For IMAP, message UID often serves as threadId for individual messages
-      mailbox: mailbox,
-      subject: msg.envelope?.subject || '',
-      from: fromParty ? { name: fromParty.name || '', email: fromParty.address || '' } : undefined,
-      to: toParties.map((t: any) => ({ name: t.name || '', email: t.address || '' })),
-      cc: ccParties.map((c: any) => ({ name: c.name || '', email: c.address || '' })),
-      bcc: bccParties.map((b: any) => ({ name: b.name || '', email: b.address || '' })), // Likely empty
-      bodyPlain: msg.textBody,
-      bodyHtml: msg.htmlBody,
-      // prefer internalDate if available, fallback to envelope date
-      receivedOn: msg.internalDate || msg.envelope?.date || new Date(),
-      sentOn: msg.envelope?.date || new Date(), // Envelope date is closer to sent time
-      read: msg.flags.includes('\\Seen'),
-      labels: msg.flags.map((f: string) => ({
-        id: f,
-        name: f.startsWith('\\') ? f.substring(1) : f, // Prettify system flags like \Seen -> Seen
-        type: 'system', // All IMAP flags are system level
-      })),
-      attachments:
-        msg.attachments?.map((att: any) => ({
-          id: att.partID, // This is the IMAP partID
-          name: att.filename || `attachment-${att.partID}`,
-          contentType: att.type,
-          size: att.size,
-          // A direct download URL would need to be constructed based on API routes
-          // e.g. url: `${this.honoContext?.env?.APP_URL}/api/mail/attachment/${mailbox}/${msg.uid}/${att.partID}`
-          // For now, leave url undefined or use a placeholder structure if your app handles it.
-        })) || [],
-      isDraft: msg.flags.includes('\\Draft'),
-      isScheduled: false, // IMAP doesn't have native scheduled send
-      snoozedUntil: null, // IMAP doesn't have native snooze
-      $raw: this.honoContext?.env?.NODE_ENV === 'development' ? msg : undefined, // Only include raw in dev
+      messages: [parsedMessage],
+      latest: parsedMessage,
+      hasUnread: parsedMessage.unread,
+      totalReplies: 1,
+      labels: parsedMessage.tags.map(({ id, name }) => ({ id, name })),
     };
   }
 
-  // Very naive parser for POP3 raw messages
-  private parsePop3Message(raw: string, id: string): ParsedMessage {
-    const [headerPart, ...bodyParts] = raw.split(/\r?\n\r?\n/);
-    const headers: Record<string, string> = {};
-    for (const line of headerPart.split(/\r?\n/)) {
-      const idx = line.indexOf(':');
-      if (idx > -1) {
-        const key = line.slice(0, idx).trim().toLowerCase();
-        const value = line.slice(idx + 1).trim();
-        headers[key] = value;
-      }
+  // The labels of modifyLabels as a change of the stored message, folders included
+  private pop3LabelChange(
+    options: { addLabels: string[]; removeLabels: string[] },
+    addKeywords: string[],
+    removeKeywords: string[],
+  ): Pop3MessageChange {
+    const flags = ['STARRED', 'IMPORTANT'];
+    const change: Pop3MessageChange = { addKeywords, removeKeywords };
+    if (options.addLabels.some((label) => flags.includes(label))) change.flagged = true;
+    else if (options.removeLabels.some((label) => flags.includes(label))) change.flagged = false;
+
+    if (options.addLabels.includes('TRASH')) change.folder = FOLDERS.BIN;
+    else if (options.removeLabels.includes('INBOX')) change.folder = FOLDERS.ARCHIVE;
+    else if (options.addLabels.includes('INBOX')) change.folder = FOLDERS.INBOX;
+    return change;
+  }
+
+  // Every POP3 thread is a single message, a thread fails when its message is not stored
+  private async changePop3(
+    threadIds: string[],
+    change: Pop3MessageChange,
+  ): Promise<BulkOperationResult> {
+    const uidls = new Map(threadIds.map((id) => [id, decodePop3Id(id)]));
+    const changed = new Set(
+      await this.pop3('changePop3').store.update([...uidls.values()], change),
+    );
+    const result: BulkOperationResult = { succeeded: [], failed: [] };
+    for (const [threadId, uidl] of uidls) {
+      if (changed.has(uidl)) result.succeeded.push(threadId);
+      else result.failed.push({ id: threadId, error: 'Message not found' });
+    }
+    if (!result.succeeded.length && result.failed.length) {
+      throw driverError('Message not found', 'NOT_FOUND', 'changePop3', { threadIds });
     }
+    return result;
+  }
+
+  // --- Folders ---
+
+  private mailboxPaths?: Promise<Record<FolderId, string>>;
+
+  /**
+   * Resolves an app folder id (inbox, sent, bin, ...) to the mailbox path on this server, see
+   * imap-folders.ts. Any other value is taken to be a mailbox path already.
+   */
+  private async mailboxFor(folder: string): Promise<string> {
+    if (!isFolderId(folder)) return folder;
+    this.mailboxPaths ??= this.imapService
+      .listMailboxes()
+      .then((mailboxes) => resolveMailboxMapping(mailboxes, this.config.auth.mailboxMapping))
+      .catch((error) => {
+        console.warn('Could not detect special-use mailboxes, using default names:', error);
+        return { ...DEFAULT_MAILBOXES };
+      });
+    return (await this.mailboxPaths)[folder];
+  }
+
+  // Paths of the mailboxes that back the app's folders
+  private folderMailboxes(mailboxes: Mailbox[]) {
+    return new Set(
+      Object.values(resolveMailboxMapping(mailboxes, this.config.auth.mailboxMapping)),
+    );
+  }
+
+  /**
+   * The mailboxes of the account, which of them back the app's folders and whether sent mail
+   * is filed in Sent by us, for the connections settings page.
+   */
+  async getMailboxMapping() {
+    return this.withErrorHandler('getMailboxMapping', async () => {
+      const mailboxes = await this.imapService.listMailboxes();
+      return {
+        mailboxes: mailboxes.map(({ path, name, specialUse }) => ({ path, name, specialUse })),
+        detected: detectMailboxMapping(mailboxes),
+        overrides: this.config.auth.mailboxMapping ?? {},
+        resolved: resolveMailboxMapping(mailboxes, this.config.auth.mailboxMapping),
+        saveSentCopy: this.config.auth.saveSentCopy ?? null,
+        serverSavesSentMail: this.serverSavesSentMail(),
+      };
+    });
+  }
+
+  // --- Sync ---
+
+  /**
+   * Brings the local copy of a mailbox up to date and returns the state it is now at. The
+   * mailbox is threaded again when messages came or went, flag changes leave the
+   * conversations as they are.
+   */
+  private async syncMailbox(store: ImapSyncStore, mailbox: string) {
+    const previous = await store.getState(mailbox);
+    const delta = await this.imapService.syncMailbox(mailbox, previous, () =>
+      store.getFlags(mailbox),
+    );
+    await store.apply(mailbox, delta);
+
+    const moved =
+      delta.reset || delta.vanished.length > 0 || delta.state.uidNext !== previous?.uidNext;
+    if (moved || (await store.hasUnthreaded(mailbox))) {
+      const threads = await this.imapService.threadByReferences(mailbox);
+      if (threads) await store.saveThreads(mailbox, threads);
+    }
+    return delta.state;
+  }
+
+  // Pages of a folder from the synced copy, synced once for the listing
+  private async syncedSource(
+    store: ImapSyncStore,
+    mailbox: string,
+    cursor: ImapCursor | undefined,
+  ): Promise<ListingSource> {
+    const state = await this.syncMailbox(store, mailbox);
+    if (cursor && cursor.uidValidity !== state.uidValidity) {
+      throw new StaleUidValidityError(mailbox, cursor.uidValidity, state.uidValidity);
+    }
+    return {
+      page: (beforeUid, limit) =>
+        this.listSynced(store, mailbox, state.uidValidity, beforeUid, limit),
+      conversations: (uids) => store.conversations(mailbox, uids),
+    };
+  }
+
+  // Pages of search results. The matches are threaded among themselves, not the whole mailbox.
+  private async searchSource(
+    mailbox: string,
+    criteria: SearchObject,
+    cursor: ImapCursor | undefined,
+  ): Promise<ListingSource> {
+    const { uidValidity, uids } = await this.imapService.searchUids(
+      mailbox,
+      criteria,
+      cursor?.uidValidity,
+    );
+    const threads = await this.imapService.threadByReferences(mailbox, uids);
+    const conversations = threads && conversationsByUid(threads);
     return {
+      page: (beforeUid, limit) =>
+        this.imapService.fetchMessageInfos(
+          mailbox,
+          uids.filter((uid) => beforeUid === undefined || uid < beforeUid).slice(0, limit),
+          uidValidity,
+        ),
+      conversations: async () => conversations,
+    };
+  }
+
+  /**
+   * A page of the mailbox from the synced copy. Envelopes are fetched the first time a
+   * message is listed and kept, later pages and reloads only cost the sync.
+   */
+  private async listSynced(
+    store: ImapSyncStore,
+    mailbox: string,
+    uidValidity: string,
+    beforeUid: number | undefined,
+    limit: number,
+  ): Promise<BasicMessageInfo[]> {
+    const page = await store.page(mailbox, uidValidity, { beforeUid, limit });
+    const fetched = await this.imapService.fetchMessageInfos(
+      mailbox,
+      page.filter((message) => !message.envelope).map((message) => message.uid),
+      uidValidity,
+    );
+    await store.saveEnvelopes(fetched);
+
+    const fetchedByUid = new Map(fetched.map((message) => [message.uid, message]));
+    return page.flatMap((message) => {
+      if (message.envelope) return [{ ...message, envelope: message.envelope }];
+      const info = fetchedByUid.get(message.uid);
+      return info ? [info] : [];
+    });
+  }
+
+  // --- Conversations ---
+
+  /**
+   * Groups a page of a folder into conversations, newest conversation first. A conversation
+   * threaded by the server is identified by its oldest message in the folder, so its id stays
+   * the same as replies arrive, and is listed on the page that holds its newest message. Pages
+   * further down skip it. Without THREAD=REFERENCES the page is threaded locally together with
+   * recent Sent mail so replies written by the user link the conversation together, a
+   * conversation reaching over the page boundary is then listed again on the next page.
+   */
+  private async groupConversations(
+    folder: string,
+    messages: BasicMessageInfo[],
+    beforeUid: number | undefined,
+    source: ListingSource,
+  ): Promise<{ id: string; $raw: unknown }[]> {
+    if (!messages.length) return [];
+    const timeOf = (m: BasicMessageInfo) => (m.envelope.date ?? m.internalDate)?.getTime() ?? 0;
+    const latestTime = (group: BasicMessageInfo[]) => Math.max(...group.map(timeOf));
+    const [{ uidValidity }] = messages as [BasicMessageInfo];
+    const idOf = (uid: number) => encodeImapId({ mailbox: folder, uidValidity, uid });
+
+    const conversationOf = await source.conversations(messages.map((message) => message.uid));
+    if (conversationOf) {
+      const groups = new Map<
+        number,
+        { conversation: StoredConversation; listed: BasicMessageInfo[] }
+      >();
+      for (const message of messages) {
+        const conversation = conversationOf.get(message.uid) ?? {
+          root: message.uid,
+          newest: message.uid,
+          uids: [message.uid],
+        };
+        // Its newest message was on an earlier page, it was listed there
+        if (beforeUid !== undefined && conversation.newest >= beforeUid) continue;
+        const group = groups.get(conversation.root) ?? { conversation, listed: [] };
+        group.listed.push(message);
+        groups.set(conversation.root, group);
+      }
+      return [...groups.values()]
+        .sort((a, b) => latestTime(b.listed) - latestTime(a.listed))
+        .map(({ conversation }) => ({
+          id: idOf(conversation.root),
+          $raw: { ids: conversation.uids.map(idOf) },
+        }));
+    }
+
+    const sentMailbox = await this.mailboxFor(FOLDERS.SENT);
+    const sent =
+      folder === sentMailbox
+        ? []
+        : await this.imapService
+            .listMessages(sentMailbox, { limit: messages.length })
+            .catch(() => []);
+    const listed = new Set(messages);
+    return threadMessages([...messages, ...sent].map(threadable)).flatMap((conversation) => {
+      const group = conversation.messages.map((m) => m.member).filter((info) => listed.has(info));
+      const [oldest] = group;
+      return oldest ? [{ id: encodeImapId(oldest), $raw: { ids: group.map(encodeImapId) } }] : [];
+    });
+  }
+
+  /**
+   * Finds every message of the conversation `seed` belongs to by repeatedly searching INBOX,
+   * Sent and the seed's own mailbox for the Message-IDs the conversation is known by.
+   * Returns the members oldest first.
+   */
+  private async resolveConversation<T extends BasicMessageInfo>(
+    seed: T,
+  ): Promise<(T | BasicMessageInfo)[]> {
+    const mailboxes = [
+      ...new Set([
+        seed.mailbox,
+        await this.mailboxFor(FOLDERS.INBOX),
+        await this.mailboxFor(FOLDERS.SENT),
+      ]),
+    ];
+    const found = new Map<string, BasicMessageInfo>([[encodeImapId(seed), seed]]);
+    const searched = new Set<string>();
+    let pending = conversationIds([seed.envelope]);
+
+    for (let round = 0; round < MAX_CONVERSATION_SEARCH_ROUNDS && pending.size; round++) {
+      const ids = [...pending];
+      ids.forEach((messageId) => searched.add(messageId));
+      pending = new Set();
+
+      for (const mailbox of mailboxes) {
+        // A missing Sent folder should not break opening the conversation
+        const results = await this.imapService
+          .searchByMessageIds(mailbox, ids)
+          .catch(() => [] as BasicMessageInfo[]);
+        for (const info of results) {
+          const key = encodeImapId(info);
+          if (found.has(key)) continue;
+          found.set(key, info);
+          for (const messageId of conversationIds([info.envelope])) {
+            if (!searched.has(messageId)) pending.add(messageId);
+          }
+        }
+      }
+    }
+
+    // HEADER searches are substring matches, so thread the results again and only keep the
+    // conversation the seed ended up in.
+    const conversation = threadMessages([...found.values()].map(threadable)).find((c) =>
+      c.messages.some((m) => m.member === seed),
+    );
+    return conversation ? conversation.messages.map((m) => m.member) : [seed];
+  }
+
+  /**
+   * The conversations the given thread ids point at, keyed by thread id. The seeds are fetched
+   * with one FETCH per mailbox. Threads whose mailbox could not be read are recorded in
+   * `failed`, threads whose message no longer exists are left out.
+   */
+  private async conversationsByThread(
+    threadIds: string[],
+    failed: Map<string, unknown>,
+  ): Promise<Map<string, BasicMessageInfo[]>> {
+    const threadIdOf = new Map(threadIds.map((id) => [encodeImapId(decodeImapId(id)), id]));
+    const conversations = new Map<string, BasicMessageInfo[]>();
+    for (const { mailbox, uidValidity, uids } of groupByMailbox(threadIds.map(decodeImapId))) {
+      let seeds: BasicMessageInfo[];
+      try {
+        seeds = await this.imapService.fetchMessageInfos(mailbox, uids, uidValidity);
+      } catch (error) {
+        for (const uid of uids) {
+          failed.set(threadIdOf.get(encodeImapId({ mailbox, uidValidity, uid }))!, error);
+        }
+        continue;
+      }
+      for (const seed of seeds) {
+        const threadId = threadIdOf.get(encodeImapId(seed));
+        if (threadId) conversations.set(threadId, await this.resolveConversation(seed));
+      }
+    }
+    return conversations;
+  }
+
+  /**
+   * Applies a change to every message of the conversations of `threadIds` and reports which
+   * threads it succeeded for. `apply` records the messages it could not change in `failed`,
+   * keyed by message id, and a thread fails when any of its messages did. Throws the first
+   * error when no thread could be changed at all.
+   */
+  private async bulkChange(
+    threadIds: string[],
+    apply: (members: BasicMessageInfo[], failed: Map<string, unknown>) => Promise<void>,
+  ): Promise<BulkOperationResult> {
+    const failed = new Map<string, unknown>();
+    const conversations = await this.conversationsByThread(threadIds, failed);
+    const members = new Map<string, BasicMessageInfo>();
+    for (const conversation of conversations.values()) {
+      for (const member of conversation) members.set(encodeImapId(member), member);
+    }
+    await apply([...members.values()], failed);
+
+    const result: BulkOperationResult = { succeeded: [], failed: [] };
+    const errors: unknown[] = [];
+    for (const threadId of new Set(threadIds)) {
+      const conversation = conversations.get(threadId);
+      const error = conversation
+        ? conversation.map((member) => failed.get(encodeImapId(member))).find(Boolean)
+        : (failed.get(threadId) ??
+          driverError('Message not found', 'NOT_FOUND', 'bulkChange', { threadId }));
+      if (!error) {
+        result.succeeded.push(threadId);
+        continue;
+      }
+      errors.push(error);
+      result.failed.push({
+        id: threadId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    if (errors.length && !result.succeeded.length) throw errors[0];
+    return result;
+  }
+
+  // A failed STORE or MOVE fails every message of its mailbox group
+  private async storeFlags(
+    messages: ImapMessageRef[],
+    flags: string[],
+    add: boolean,
+    failed: Map<string, unknown>,
+  ) {
+    for (const { mailbox, uidValidity, uids } of groupByMailbox(messages)) {
+      const uidSet = uids.join(',');
+      try {
+        if (add) await this.imapService.setFlags(mailbox, uidSet, flags, uidValidity);
+        else await this.imapService.unsetFlags(mailbox, uidSet, flags, uidValidity);
+      } catch (error) {
+        for (const uid of uids) failed.set(encodeImapId({ mailbox, uidValidity, uid }), error);
+      }
+    }
+  }
+
+  private async moveMessages(
+    messages: ImapMessageRef[],
+    destination: string,
+    failed: Map<string, unknown>,
+  ) {
+    for (const { mailbox, uidValidity, uids } of groupByMailbox(messages)) {
+      if (mailbox === destination) continue;
+      try {
+        await this.imapService.moveMessage(mailbox, uids.join(','), destination, uidValidity);
+      } catch (error) {
+        for (const uid of uids) failed.set(encodeImapId({ mailbox, uidValidity, uid }), error);
+      }
+    }
+  }
+
+  private async withErrorHandler<T>(
+    operation: string,
+    fn: () => Promise<T>,
+    context?: Record<string, unknown>,
+  ): Promise<T> {
+    try {
+      return await fn();
+    } catch (error) {
+      if (error instanceof StandardizedError) throw error;
+      const cause = error instanceof Error ? error : new Error(String(error));
+      const code = 'code' in cause && typeof cause.code === 'string' ? cause.code : 'IMAP_ERROR';
+      console.error(`[IMAP Driver Error] Operation: ${operation}`, {
+        error: cause.message,
+        code,
+        context: sanitizeContext(context),
+      });
+      throw new StandardizedError(Object.assign(cause, { code }), operation, context);
+    }
+  }
+
+  // --- Helper to map IMAP message to ParsedMessage (from types.ts) ---
+  private mapImapMessageToParsedMessage(
+    msg: ImapFullMessage,
+    threadId: string,
+    keywords = new Map<string, KeywordLabel>(),
+  ): ParsedMessage {
+    return toParsedMessage(msg.mime, {
+      id: encodeImapId(msg),
+      threadId,
+      unread: !msg.flags.includes('\\Seen'),
+      tags: flagTags(msg.flags, keywords),
+      receivedOn: msg.internalDate,
+    });
+  }
+
+  private mapPop3MessageToParsedMessage(
+    message: StoredPop3Message,
+    keywords: Map<string, KeywordLabel>,
+  ): ParsedMessage {
+    const id = encodePop3Id(message.uidl);
+    const flags = [
+      ...(message.seen ? ['\\Seen'] : []),
+      ...(message.flagged ? ['\\Flagged'] : []),
+      ...message.keywords,
+    ];
+    return toParsedMessage(parseMime(message.source), {
       id,
       threadId: id,
-      mailbox: 'INBOX',
-      subject: headers['subject'] || '',
-      from: headers['from'] ? { name: '', email: headers['from'] } : undefined,
-      to: [],
-      cc: [],
-      bcc: [],
-      bodyPlain: bodyParts.join('\n\n'),
-      bodyHtml: undefined,
-      receivedOn: new Date(),
-      sentOn: new Date(),
-      read: false,
-      labels: [],
-      attachments: [],
-      isDraft: false,
-      isScheduled: false,
-      snoozedUntil: null,
-      $raw: this.honoContext?.env?.NODE_ENV === 'development' ? raw : undefined,
-    };
+      unread: !message.seen,
+      tags: flagTags(flags, keywords),
+      receivedOn: message.receivedAt,
+    });
   }
 }
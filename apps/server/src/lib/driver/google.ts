@@ -10,7 +10,7 @@ import {
 import { parseAddressList, parseFrom, wasSentWithTLS } from '../email-utils';
 import type { IOutgoingMessage, Label, ParsedMessage } from '../../types';
 import { sanitizeTipTapHtml } from '../sanitize-tip-tap-html';
-import type { MailManager, ManagerConfig } from './types';
+import type { EmailAlias, MailManager, ManagerConfig } from './types';
 import { type gmail_v1, google } from 'googleapis';
 import type { CreateDraftData } from '../schemas';
 import { setTimeout } from 'timers/promises';
@@ -70,9 +70,7 @@ export class GoogleMailManager implements MailManager {
       });
 
       const primaryEmail = profile.data.emailAddress || '';
-      const aliases: { email: string; name?: string; primary?: boolean }[] = [
-        { email: primaryEmail, primary: true },
-      ];
+      const aliases: EmailAlias[] = [{ email: primaryEmail, primary: true }];
 
       const settings = await this.gmail.users.settings.sendAs.list({
         userId: 'me',
@@ -88,6 +86,7 @@ export class GoogleMailManager implements MailManager {
             email: alias.sendAsEmail || '',
             name: alias.displayName || undefined,
             primary: alias.isPrimary || false,
+            replyTo: alias.replyToAddress || undefined,
           });
         });
       }
@@ -0,0 +1,131 @@
+import type { Mailbox, MailboxNamespace } from './imap.service';
+import { FOLDERS } from '../utils';
+
+// Maps the app's folder ids (FOLDERS) onto the mailboxes of an IMAP account. Servers name
+// these folders very differently ("Deleted Items", "[Gmail]/Bin", "INBOX.Sent", localized
+// names), so the mapping is resolved per connection from, in order of preference:
+//   1. the user's override from the connections settings page
+//   2. RFC 6154 SPECIAL-USE flags reported by the server
+//   3. imapflow's table of known (localized) folder names
+//   4. the English name patterns below
+//   5. the conventional names in DEFAULT_MAILBOXES
+
+export type FolderId = (typeof FOLDERS)[keyof typeof FOLDERS];
+
+export type MailboxMapping = Partial<Record<FolderId, string>>;
+
+const SPECIAL_USE_FOLDERS: Record<string, FolderId> = {
+  '\\Sent': FOLDERS.SENT,
+  '\\Drafts': FOLDERS.DRAFT,
+  '\\Trash': FOLDERS.BIN,
+  '\\Junk': FOLDERS.SPAM,
+  '\\Archive': FOLDERS.ARCHIVE,
+};
+
+const NAME_PATTERNS: [FolderId, RegExp][] = [
+  [FOLDERS.SENT, /^sent( items| mail| messages)?$/i],
+  [FOLDERS.DRAFT, /^drafts?$/i],
+  [FOLDERS.BIN, /^(trash|bin|deleted( items| messages)?)$/i],
+  [FOLDERS.SPAM, /^(spam|junk( e-?mail| mail)?|bulk mail)$/i],
+  [FOLDERS.ARCHIVE, /^archives?$/i],
+];
+
+export const DEFAULT_MAILBOXES: Record<FolderId, string> = {
+  [FOLDERS.INBOX]: 'INBOX',
+  [FOLDERS.SENT]: 'Sent',
+  [FOLDERS.DRAFT]: 'Drafts',
+  [FOLDERS.BIN]: 'Trash',
+  [FOLDERS.SPAM]: 'Junk',
+  [FOLDERS.ARCHIVE]: 'Archive',
+};
+
+export const isFolderId = (value: string): value is FolderId =>
+  Object.values(FOLDERS).includes(value as FolderId);
+
+// Lower is better
+const rank = (mailbox: Mailbox) =>
+  mailbox.specialUseSource === 'extension' || mailbox.specialUseSource === 'user' ? 0 : 1;
+
+/**
+ * Detects which mailbox plays which role, without user overrides. Folders that could not be
+ * detected are left out.
+ */
+export const detectMailboxMapping = (mailboxes: Mailbox[]): MailboxMapping => {
+  const candidates = new Map<FolderId, { mailbox: Mailbox; rank: number }>();
+  const consider = (folder: FolderId, mailbox: Mailbox, score: number) => {
+    const current = candidates.get(folder);
+    if (
+      !current ||
+      score < current.rank ||
+      (score === current.rank && mailbox.path.length < current.mailbox.path.length)
+    ) {
+      candidates.set(folder, { mailbox, rank: score });
+    }
+  };
+
+  for (const mailbox of mailboxes) {
+    if (mailbox.path.toUpperCase() === 'INBOX') consider(FOLDERS.INBOX, mailbox, 0);
+
+    const special = mailbox.specialUse && SPECIAL_USE_FOLDERS[mailbox.specialUse];
+    if (special) {
+      consider(special, mailbox, rank(mailbox));
+      continue;
+    }
+    // Gmail has no archive folder, archived mail only lives in All Mail
+    if (mailbox.specialUse === '\\All') {
+      consider(FOLDERS.ARCHIVE, mailbox, 3);
+      continue;
+    }
+    for (const [folder, pattern] of NAME_PATTERNS) {
+      if (pattern.test(mailbox.name.trim())) consider(folder, mailbox, 2);
+    }
+  }
+
+  return Object.fromEntries(
+    [...candidates.entries()].map(([folder, { mailbox }]) => [folder, mailbox.path]),
+  );
+};
+
+/**
+ * The mailbox path to use for every app folder. Overrides pointing at mailboxes that no
+ * longer exist are ignored.
+ */
+export const resolveMailboxMapping = (
+  mailboxes: Mailbox[],
+  overrides: MailboxMapping = {},
+): Record<FolderId, string> => {
+  const paths = new Set(mailboxes.map((mailbox) => mailbox.path));
+  const detected = detectMailboxMapping(mailboxes);
+  const resolved = { ...DEFAULT_MAILBOXES };
+  for (const folder of Object.keys(resolved) as FolderId[]) {
+    const override = overrides[folder];
+    resolved[folder] =
+      override && paths.has(override) ? override : (detected[folder] ?? resolved[folder]);
+  }
+  return resolved;
+};
+
+// --- Hierarchy ---
+
+// Labels are nested with "/" in the app, as in Gmail, whatever delimiter the server uses
+const LABEL_SEPARATOR = '/';
+
+/**
+ * The mailbox path for a label name like "Work/ProjectX". Returns null when the name cannot
+ * be stored on this server: an empty part, a part containing the server's delimiter, or
+ * nesting on a server without hierarchy.
+ */
+export const labelNameToPath = (name: string, namespace: MailboxNamespace): string | null => {
+  const parts = name.split(LABEL_SEPARATOR).map((part) => part.trim());
+  if (parts.some((part) => !part)) return null;
+  const { prefix, delimiter } = namespace;
+  if (!delimiter) return parts.length === 1 ? prefix + parts[0] : null;
+  if (parts.some((part) => part.includes(delimiter))) return null;
+  return prefix + parts.join(delimiter);
+};
+
+export const pathToLabelName = (path: string, namespace: MailboxNamespace): string => {
+  const { prefix, delimiter } = namespace;
+  const relative = prefix && path.startsWith(prefix) ? path.slice(prefix.length) : path;
+  return delimiter ? relative.split(delimiter).join(LABEL_SEPARATOR) : relative;
+};
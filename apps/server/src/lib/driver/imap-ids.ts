@@ -0,0 +1,104 @@
+import { StandardizedError } from './utils';
+
+// IMAP UIDs are only unique within a mailbox and only for as long as the mailbox keeps its
+// UIDVALIDITY, so every id the generic driver hands out carries all three:
+//
+//   imap.<base64url(mailbox path)>.<uidvalidity>.<uid>
+//
+// The mailbox path is encoded so ids stay URL safe (they end up in the `threadId` query
+// param) whatever delimiter or characters the server uses in folder names.
+
+export interface ImapMessageRef {
+  mailbox: string;
+  uidValidity: string;
+  uid: number;
+}
+
+const ID_PREFIX = 'imap';
+
+export const encodeImapId = ({ mailbox, uidValidity, uid }: ImapMessageRef) =>
+  [ID_PREFIX, Buffer.from(mailbox, 'utf8').toString('base64url'), uidValidity, uid].join('.');
+
+const invalidImapId = (id: string) =>
+  new StandardizedError(
+    Object.assign(new Error(`Invalid message id: ${id}`), { code: 'INVALID_ID' }),
+    'decodeImapId',
+    { id },
+  );
+
+export const decodeImapId = (id: string): ImapMessageRef => {
+  const bare = id.startsWith('thread:') ? id.substring(7) : id;
+  const [prefix, mailbox, uidValidity, uid, ...rest] = bare.split('.');
+  if (
+    prefix !== ID_PREFIX ||
+    !mailbox ||
+    !uidValidity ||
+    !/^\d+$/.test(uidValidity) ||
+    !uid ||
+    !/^\d+$/.test(uid) ||
+    rest.length
+  ) {
+    throw invalidImapId(id);
+  }
+  return {
+    mailbox: Buffer.from(mailbox, 'base64url').toString('utf8'),
+    uidValidity,
+    uid: Number(uid),
+  };
+};
+
+export const isSameMessage = (a: ImapMessageRef, b: ImapMessageRef) =>
+  a.mailbox === b.mailbox && a.uidValidity === b.uidValidity && a.uid === b.uid;
+
+/**
+ * Groups message references by mailbox so each mailbox only has to be selected once.
+ * References to the same mailbox with different UIDVALIDITY values are kept apart so the
+ * stale ones can be rejected without affecting the rest.
+ */
+export const groupByMailbox = (refs: ImapMessageRef[]) => {
+  const groups = new Map<string, { mailbox: string; uidValidity: string; uids: number[] }>();
+  for (const ref of refs) {
+    const key = `${ref.mailbox}\u0000${ref.uidValidity}`;
+    const group = groups.get(key) ?? {
+      mailbox: ref.mailbox,
+      uidValidity: ref.uidValidity,
+      uids: [],
+    };
+    if (!group.uids.includes(ref.uid)) group.uids.push(ref.uid);
+    groups.set(key, group);
+  }
+  return [...groups.values()];
+};
+
+// Page tokens handed out by list(). They point below the oldest UID of the previous page, so
+// mail arriving in the meantime (which always gets a higher UID) never shifts later pages.
+export interface ImapCursor {
+  mailbox: string;
+  uidValidity: string;
+  beforeUid: number;
+}
+
+export const encodeImapCursor = ({ mailbox, uidValidity, beforeUid }: ImapCursor) =>
+  Buffer.from(JSON.stringify([mailbox, uidValidity, beforeUid]), 'utf8').toString('base64url');
+
+export const decodeImapCursor = (cursor: string): ImapCursor => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    parsed = null;
+  }
+  if (
+    !Array.isArray(parsed) ||
+    typeof parsed[0] !== 'string' ||
+    typeof parsed[1] !== 'string' ||
+    !Number.isInteger(parsed[2])
+  ) {
+    throw new StandardizedError(
+      Object.assign(new Error(`Invalid page token: ${cursor}`), { code: 'INVALID_CURSOR' }),
+      'decodeImapCursor',
+      { cursor },
+    );
+  }
+  return { mailbox: parsed[0], uidValidity: parsed[1], beforeUid: parsed[2] };
+};
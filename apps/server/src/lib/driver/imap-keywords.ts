@@ -0,0 +1,100 @@
+import { imapKeyword } from '@zero/db/schema';
+import type { Label } from '../../types';
+import { and, eq } from 'drizzle-orm';
+import type { DB } from '@zero/db';
+
+// User labels of IMAP accounts whose server accepts keywords of our choosing. IMAP folders are
+// exclusive, keywords let a message carry any number of labels like in Gmail. Only the keyword
+// is stored on the server, the label's name and colors are kept here, so renaming a label does
+// not have to touch its messages.
+
+// Label ids of keyword labels, kept apart from folder labels whose ids are mailbox paths
+const LABEL_ID_PREFIX = 'keyword:';
+
+// Characters a keyword atom cannot contain (RFC 3501 atom-specials and resp-specials)
+const NOT_ATOM_CHAR = /[^\x21-\x7e]|[(){%*"\\\]]/g;
+
+export const keywordLabelId = (keyword: string) => LABEL_ID_PREFIX + keyword;
+
+export const keywordFromLabelId = (id: string) =>
+  id.startsWith(LABEL_ID_PREFIX) ? id.slice(LABEL_ID_PREFIX.length) : null;
+
+/**
+ * The keyword for a new label, in the style other clients use for tags (lower case, anything
+ * that cannot be part of an atom replaced), with a number appended when it is taken. Keywords
+ * starting with $ or \ are left to the registered ones such as $Forwarded.
+ */
+export const keywordForName = (name: string, taken: Set<string>) => {
+  const atom = name
+    .normalize('NFKD')
+    // Drops the accents split off by NFKD, "Réunions" becomes "reunions"
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(NOT_ATOM_CHAR, '_')
+    .replace(/^[$\\]+/, '');
+  // Names in other scripts leave nothing readable, the label's name is what is shown anyway
+  const base = /[a-z0-9]/.test(atom) ? atom : 'label';
+  let keyword = base;
+  for (let i = 2; taken.has(keyword); i++) keyword = `${base}_${i}`;
+  return keyword;
+};
+
+export type KeywordLabel = Label & { keyword: string };
+
+export class ImapKeywordStore {
+  constructor(
+    private db: DB,
+    private connectionId: string,
+  ) {}
+
+  private keywordRow(keyword: string) {
+    return and(eq(imapKeyword.connectionId, this.connectionId), eq(imapKeyword.keyword, keyword));
+  }
+
+  async list(): Promise<KeywordLabel[]> {
+    const rows = await this.db
+      .select()
+      .from(imapKeyword)
+      .where(eq(imapKeyword.connectionId, this.connectionId))
+      .orderBy(imapKeyword.name);
+    return rows.map((row) => ({
+      id: keywordLabelId(row.keyword),
+      keyword: row.keyword,
+      name: row.name,
+      color:
+        row.backgroundColor || row.textColor
+          ? { backgroundColor: row.backgroundColor ?? '', textColor: row.textColor ?? '' }
+          : undefined,
+      type: 'user',
+    }));
+  }
+
+  async create(keyword: string, label: Pick<Label, 'name' | 'color'>) {
+    await this.db.insert(imapKeyword).values({
+      connectionId: this.connectionId,
+      keyword,
+      name: label.name,
+      backgroundColor: label.color?.backgroundColor || null,
+      textColor: label.color?.textColor || null,
+      createdAt: new Date(),
+    });
+  }
+
+  // Colors are left as they are when the update has none
+  async update(keyword: string, label: Pick<Label, 'name' | 'color'>) {
+    await this.db
+      .update(imapKeyword)
+      .set({
+        name: label.name,
+        ...(label.color && {
+          backgroundColor: label.color.backgroundColor || null,
+          textColor: label.color.textColor || null,
+        }),
+      })
+      .where(this.keywordRow(keyword));
+  }
+
+  async remove(keyword: string) {
+    await this.db.delete(imapKeyword).where(this.keywordRow(keyword));
+  }
+}
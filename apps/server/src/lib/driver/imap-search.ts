@@ -0,0 +1,386 @@
+import type { SearchObject } from 'imapflow';
+
+// Translates the Gmail search syntax used throughout the app (search bar, filter suggestions,
+// natural language search and the AI search assistant) into an imapflow SEARCH criteria tree.
+//
+// Supported: free text, "quoted phrases", from:/to:/cc:/bcc: (including `me`), subject:,
+// is:unread/read/starred/important/draft/all, has:attachment, after:/before:, older:/newer:,
+// older_than:/newer_than:, label:, larger:/smaller:/size:, deliveredto:, rfc822msgid:, list:,
+// OR, AND, NOT/-, (groups), {or groups} and operator groups such as subject:(bill OR invoice).
+//
+// Fallback for what IMAP SEARCH cannot express:
+// - Servers that advertise X-GM-EXT-1 (Gmail over IMAP) get the raw query through X-GM-RAW,
+//   see `gmailRawSearch`, so their results match the Gmail API exactly.
+// - has:attachment is approximated with a multipart/mixed Content-Type header match.
+// - Any other operator (category:, is:personal, filename:, ...) is dropped from the tree and
+//   reported in `unsupported`. Dropping widens the search instead of narrowing it: an AND
+//   simply loses that condition, an OR or NOT containing it matches everything.
+// - in: selects the mailbox to search when used at the top level, and is dropped elsewhere.
+
+export type SearchNode =
+  | { type: 'and' | 'or'; children: SearchNode[] }
+  | { type: 'not'; child: SearchNode }
+  | { type: 'term'; operator?: string; value: string };
+
+export interface ImapSearch {
+  criteria: SearchObject;
+  // Folder requested with a top level `in:` term, using the app's folder names
+  folder?: string;
+  // Terms that could not be translated and were left out of `criteria`
+  unsupported: string[];
+}
+
+type Token =
+  | { type: 'lparen' | 'rparen' | 'lbrace' | 'rbrace' | 'or' | 'and' | 'not' }
+  | { type: 'field'; operator: string }
+  | { type: 'term'; operator?: string; value: string };
+
+const OPERATOR_REGEX = /^([a-z_]+):(.*)$/i;
+
+const tokenize = (query: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  const readQuoted = () => {
+    const end = query.indexOf('"', i + 1);
+    const value = query.slice(i + 1, end === -1 ? undefined : end);
+    i = end === -1 ? query.length : end + 1;
+    return value;
+  };
+
+  while (i < query.length) {
+    const char = query.charAt(i);
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')' || char === '{' || char === '}') {
+      tokens.push({
+        type: ({ '(': 'lparen', ')': 'rparen', '{': 'lbrace', '}': 'rbrace' } as const)[char],
+      });
+      i++;
+    } else if (char === '-' && i + 1 < query.length && !/\s/.test(query.charAt(i + 1))) {
+      tokens.push({ type: 'not' });
+      i++;
+    } else if (char === '"') {
+      tokens.push({ type: 'term', value: readQuoted() });
+    } else {
+      let end = i;
+      while (end < query.length && !/[\s(){}"]/.test(query.charAt(end))) end++;
+      const word = query.slice(i, end);
+      i = end;
+
+      const match = word.match(OPERATOR_REGEX);
+      if (word === 'OR' || word === '|') tokens.push({ type: 'or' });
+      else if (word === 'AND') tokens.push({ type: 'and' });
+      else if (word === 'NOT') tokens.push({ type: 'not' });
+      else if (match?.[1] && !match[2] && query.charAt(i) === '(') {
+        tokens.push({ type: 'field', operator: match[1].toLowerCase() });
+      } else if (match?.[1] && !match[2] && query.charAt(i) === '"') {
+        tokens.push({ type: 'term', operator: match[1].toLowerCase(), value: readQuoted() });
+      } else if (match?.[1] && match[2]) {
+        tokens.push({ type: 'term', operator: match[1].toLowerCase(), value: match[2] });
+      } else if (word) {
+        tokens.push({ type: 'term', value: word });
+      }
+    }
+  }
+  return tokens;
+};
+
+const combine = (type: 'and' | 'or', children: SearchNode[]): SearchNode | null => {
+  if (!children.length) return null;
+  if (children.length === 1) return children[0] ?? null;
+  return { type, children };
+};
+
+/**
+ * Parses a Gmail style search query into a tree. Adjacent terms are ANDed, OR binds tighter
+ * than the implicit AND like it does in Gmail, so `a b OR c` means `a AND (b OR c)`.
+ */
+export const parseSearchQuery = (query: string): SearchNode | null => {
+  const tokens = tokenize(query);
+  let position = 0;
+  const peek = () => tokens[position];
+
+  const parseSequence = (
+    defaultOperator: string | undefined,
+    closing?: 'rparen' | 'rbrace',
+  ): SearchNode[] => {
+    const nodes: SearchNode[] = [];
+    while (position < tokens.length) {
+      const token = peek();
+      if (!token) break;
+      if (token.type === 'rparen' || token.type === 'rbrace') {
+        if (token.type === closing) position++;
+        // Stray closing brackets are ignored
+        else if (!closing) {
+          position++;
+          continue;
+        }
+        break;
+      }
+      const node = parseOr(defaultOperator);
+      if (node) nodes.push(node);
+    }
+    return nodes;
+  };
+
+  const parseOr = (defaultOperator: string | undefined): SearchNode | null => {
+    const children: SearchNode[] = [];
+    const first = parseUnary(defaultOperator);
+    if (first) children.push(first);
+    while (peek()?.type === 'or') {
+      position++;
+      const next = parseUnary(defaultOperator);
+      if (next) children.push(next);
+    }
+    return combine('or', children);
+  };
+
+  const parseUnary = (defaultOperator: string | undefined): SearchNode | null => {
+    const token = peek();
+    if (!token) return null;
+    position++;
+    switch (token.type) {
+      case 'not': {
+        const child = parseUnary(defaultOperator);
+        return child ? { type: 'not', child } : null;
+      }
+      case 'and':
+      case 'or':
+        // AND is implicit, a dangling OR has nothing to join
+        return parseUnary(defaultOperator);
+      case 'lparen':
+        return combine('and', parseSequence(defaultOperator, 'rparen'));
+      case 'lbrace':
+        return combine('or', parseSequence(defaultOperator, 'rbrace'));
+      case 'field': {
+        if (peek()?.type === 'lparen') position++;
+        return combine('and', parseSequence(token.operator, 'rparen'));
+      }
+      case 'term':
+        return { type: 'term', operator: token.operator ?? defaultOperator, value: token.value };
+      default:
+        return null;
+    }
+  };
+
+  return combine('and', parseSequence(undefined));
+};
+
+const SIZE_UNITS: Record<string, number> = { '': 1, k: 1024, m: 1024 * 1024, g: 1024 ** 3 };
+
+const parseSize = (value: string) => {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([kmg]?)b?$/i);
+  if (!match?.[1]) return null;
+  return Math.round(Number(match[1]) * (SIZE_UNITS[(match[2] ?? '').toLowerCase()] ?? 1));
+};
+
+const parseDate = (value: string) => {
+  // Gmail accepts YYYY/MM/DD, MM/DD/YYYY and unix timestamps in seconds
+  if (/^\d{9,}$/.test(value)) return new Date(Number(value) * 1000);
+  const ymd = value.match(/^(\d{4})[/-](\d{1,2})[/-](\d{1,2})$/);
+  if (ymd) return new Date(Number(ymd[1]), Number(ymd[2]) - 1, Number(ymd[3]));
+  const mdy = value.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
+  if (mdy) return new Date(Number(mdy[3]), Number(mdy[1]) - 1, Number(mdy[2]));
+  return null;
+};
+
+const parseRelativeDate = (value: string, now: Date) => {
+  const match = value.match(/^(\d+)([dmy])$/i);
+  if (!match) return null;
+  const amount = Number(match[1]);
+  const date = new Date(now);
+  switch (match[2]?.toLowerCase()) {
+    case 'd':
+      date.setDate(date.getDate() - amount);
+      break;
+    case 'm':
+      date.setMonth(date.getMonth() - amount);
+      break;
+    case 'y':
+      date.setFullYear(date.getFullYear() - amount);
+      break;
+  }
+  return date;
+};
+
+// Gmail folder names for in:, mapped to the folder ids the app uses
+const IN_FOLDERS: Record<string, string> = {
+  inbox: 'inbox',
+  sent: 'sent',
+  draft: 'draft',
+  drafts: 'draft',
+  spam: 'spam',
+  trash: 'bin',
+  bin: 'bin',
+  archive: 'archive',
+};
+
+interface TranslateOptions {
+  // Address `me` stands for in from:/to:/cc:/bcc:
+  self?: string;
+  now?: Date;
+  // Keywords of the user's labels by lower case label name, for label:
+  keywords?: Map<string, string>;
+}
+
+const translateTerm = (
+  term: Extract<SearchNode, { type: 'term' }>,
+  options: TranslateOptions,
+): SearchObject | null => {
+  const value = term.value.trim();
+  if (!value) return null;
+  const address = () =>
+    value.toLowerCase() === 'me' && options.self ? options.self : value.replace(/^\*+/, '');
+  const now = options.now ?? new Date();
+
+  switch (term.operator) {
+    case undefined:
+      return { text: value };
+    case 'from':
+    case 'to':
+    case 'cc':
+    case 'bcc':
+      return { [term.operator]: address() };
+    case 'subject':
+      return { subject: value };
+    case 'is':
+      switch (value.toLowerCase()) {
+        case 'unread':
+          return { seen: false };
+        case 'read':
+          return { seen: true };
+        // Starring and marking important both set \Flagged in modifyLabels, neither is told apart
+        case 'starred':
+        case 'important':
+          return { flagged: true };
+        case 'draft':
+          return { draft: true };
+        case 'all':
+          return { all: true };
+        default:
+          return null;
+      }
+    case 'has':
+      return value.toLowerCase() === 'attachment'
+        ? { header: { 'content-type': 'multipart/mixed' } }
+        : null;
+    case 'after':
+    case 'newer': {
+      const date = parseDate(value);
+      return date ? { since: date } : null;
+    }
+    case 'before':
+    case 'older': {
+      const date = parseDate(value);
+      return date ? { before: date } : null;
+    }
+    case 'newer_than': {
+      const date = parseRelativeDate(value, now);
+      return date ? { since: date } : null;
+    }
+    case 'older_than': {
+      const date = parseRelativeDate(value, now);
+      return date ? { before: date } : null;
+    }
+    case 'label':
+      return { keyword: options.keywords?.get(value.toLowerCase()) ?? value };
+    case 'larger':
+    case 'size': {
+      const size = parseSize(value);
+      return size === null ? null : { larger: size };
+    }
+    case 'smaller': {
+      const size = parseSize(value);
+      return size === null ? null : { smaller: size };
+    }
+    case 'deliveredto':
+      return { header: { 'delivered-to': address() } };
+    case 'rfc822msgid':
+      return { header: { 'message-id': value } };
+    case 'list':
+      return { header: { 'list-id': value } };
+    default:
+      return null;
+  }
+};
+
+/**
+ * ANDs criteria together. Keys of a SearchObject are ANDed already, criteria whose keys
+ * collide are added as NOT (OR (NOT a) (NOT b) ...) which is the same thing.
+ */
+const andCriteria = (items: SearchObject[]): SearchObject => {
+  const merged: SearchObject = {};
+  const rest: SearchObject[] = [];
+  for (const item of items) {
+    if (Object.keys(item).some((key) => key in merged)) rest.push(item);
+    else Object.assign(merged, item);
+  }
+  if (rest.length && merged.not) {
+    rest.push({ not: merged.not });
+    delete merged.not;
+  }
+  if (rest.length === 1 && rest[0]) merged.not = { not: rest[0] };
+  else if (rest.length > 1) merged.not = { or: rest.map((item) => ({ not: item })) };
+  return Object.keys(merged).length ? merged : { all: true };
+};
+
+const describe = (term: Extract<SearchNode, { type: 'term' }>) =>
+  term.operator ? `${term.operator}:${term.value}` : term.value;
+
+/**
+ * Translates a Gmail style query into IMAP SEARCH criteria, see the top of this file for how
+ * operators without an IMAP equivalent are handled.
+ */
+export const toImapSearch = (query: string, options: TranslateOptions = {}): ImapSearch => {
+  const unsupported: string[] = [];
+  let folder: string | undefined;
+
+  const translate = (node: SearchNode, topLevel: boolean): SearchObject | null => {
+    switch (node.type) {
+      case 'term': {
+        if (node.operator === 'in') {
+          const target = IN_FOLDERS[node.value.toLowerCase()];
+          if (topLevel && node.value.toLowerCase() === 'anywhere') return null;
+          if (topLevel && target) {
+            folder = target;
+            return null;
+          }
+          unsupported.push(describe(node));
+          return null;
+        }
+        const criteria = translateTerm(node, options);
+        if (!criteria) unsupported.push(describe(node));
+        return criteria;
+      }
+      case 'not': {
+        const child = translate(node.child, false);
+        return child ? { not: child } : null;
+      }
+      case 'or': {
+        const children = node.children.map((child) => translate(child, false));
+        // A dropped alternative could have matched anything, so the whole OR does
+        if (children.some((child) => !child)) return null;
+        return { or: children.filter((child): child is SearchObject => !!child) };
+      }
+      case 'and': {
+        const children = node.children
+          .map((child) => translate(child, topLevel))
+          .filter((child): child is SearchObject => !!child);
+        return children.length ? andCriteria(children) : null;
+      }
+    }
+  };
+
+  const tree = parseSearchQuery(query);
+  const criteria = (tree && translate(tree, true)) ?? { all: true };
+  return { criteria, folder, unsupported };
+};
+
+/**
+ * X-GM-RAW criteria for servers that implement Gmail's search syntax natively. in: terms are
+ * stripped since the mailbox is selected separately.
+ */
+export const gmailRawSearch = (query: string): SearchObject => {
+  const raw = query.replace(/(^|\s)in:\S+/gi, ' ').trim();
+  return raw ? { gmraw: raw } : { all: true };
+};
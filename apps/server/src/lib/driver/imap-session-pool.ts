@@ -0,0 +1,326 @@
+import type { ImapService } from './imap.service';
+import { StandardizedError } from './utils';
+import { Readable } from 'stream';
+
+// Logged in IMAP sessions of one account, shared by the requests of that account instead of
+// a login per request (see DurableImapPool). Servers limit concurrent logins per account,
+// so the number of sessions is capped and callers wait for a free one. Sessions idling too
+// long are logged out, sessions idling a little are checked with a NOOP before reuse, and
+// failed logins are retried with exponential backoff instead of hammering the server.
+
+export interface ImapPoolOptions {
+  maxSessions: number;
+  // Idle sessions are logged out after this long
+  idleTimeoutMs: number;
+  // Idle sessions are pinged before reuse after this long
+  healthCheckAfterMs: number;
+  // How long a call waits for a session before it fails
+  acquireTimeoutMs: number;
+  backoffMinMs: number;
+  backoffMaxMs: number;
+}
+
+export const DEFAULT_IMAP_POOL_OPTIONS: ImapPoolOptions = {
+  maxSessions: 3,
+  idleTimeoutMs: 5 * 60 * 1000,
+  healthCheckAfterMs: 30 * 1000,
+  acquireTimeoutMs: 30 * 1000,
+  backoffMinMs: 1000,
+  backoffMaxMs: 60 * 1000,
+};
+
+export interface ImapPoolMetrics {
+  maxSessions: number;
+  sessions: number;
+  busy: number;
+  idle: number;
+  connecting: number;
+  waiting: number;
+  opened: number;
+  closed: number;
+  calls: number;
+  failedCalls: number;
+  connectFailures: number;
+  healthCheckFailures: number;
+  acquireTimeouts: number;
+  backoffUntil: string | null;
+  lastError: string | null;
+}
+
+interface Session {
+  service: ImapService;
+  busy: boolean;
+  lastUsedAt: number;
+}
+
+const poolError = (message: string, code: string) =>
+  new StandardizedError(Object.assign(new Error(message), { code }), 'imapPool');
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+export class ImapSessionPool {
+  private sessions = new Set<Session>();
+  // Callers waiting for a session to become free, woken in order
+  private waiters: (() => void)[] = [];
+  private connecting = 0;
+  private closing = false;
+  private connectFailuresInRow = 0;
+  private backoffUntil = 0;
+  private lastError: string | null = null;
+  private counters = {
+    opened: 0,
+    closed: 0,
+    calls: 0,
+    failedCalls: 0,
+    connectFailures: 0,
+    healthCheckFailures: 0,
+    acquireTimeouts: 0,
+  };
+
+  constructor(
+    private createService: () => Promise<ImapService>,
+    private options: ImapPoolOptions = DEFAULT_IMAP_POOL_OPTIONS,
+  ) {}
+
+  // Runs `fn` on a session of its own, the session goes back to the pool afterwards
+  async use<T>(fn: (service: ImapService) => Promise<T>): Promise<T> {
+    const session = await this.acquire();
+    this.counters.calls++;
+    try {
+      return await fn(session.service);
+    } catch (error) {
+      this.counters.failedCalls++;
+      this.lastError = errorMessage(error);
+      throw error;
+    } finally {
+      this.release(session);
+    }
+  }
+
+  private async acquire(): Promise<Session> {
+    const deadline = Date.now() + this.options.acquireTimeoutMs;
+    for (;;) {
+      if (this.closing) throw poolError('The IMAP session pool was closed', 'POOL_CLOSED');
+      const idle = [...this.sessions].find((session) => !session.busy);
+      if (idle) {
+        idle.busy = true;
+        if (await this.healthy(idle)) return idle;
+        continue;
+      }
+      if (this.sessions.size + this.connecting < this.options.maxSessions) {
+        return this.open(deadline);
+      }
+      await this.wait(deadline);
+    }
+  }
+
+  private wait(deadline: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        this.waiters = this.waiters.filter((waiter) => waiter !== wake);
+        this.counters.acquireTimeouts++;
+        reject(poolError('Timed out waiting for a free IMAP session', 'POOL_TIMEOUT'));
+      }, deadline - Date.now());
+      this.waiters.push(wake);
+    });
+  }
+
+  private wake() {
+    this.waiters.shift()?.();
+  }
+
+  private async open(deadline: number): Promise<Session> {
+    // The server refused the last login, fail fast rather than wait past the deadline
+    if (this.backoffUntil > deadline) {
+      throw poolError(
+        `IMAP server unavailable until ${new Date(this.backoffUntil).toISOString()}: ${this.lastError}`,
+        'POOL_BACKOFF',
+      );
+    }
+    this.connecting++;
+    try {
+      const backoff = this.backoffUntil - Date.now();
+      if (backoff > 0) await sleep(backoff);
+      const service = await this.createService();
+      try {
+        await service.connect();
+      } catch (error) {
+        this.connectFailuresInRow++;
+        this.counters.connectFailures++;
+        this.lastError = errorMessage(error);
+        this.backoffUntil =
+          Date.now() +
+          Math.min(
+            this.options.backoffMinMs * 2 ** (this.connectFailuresInRow - 1),
+            this.options.backoffMaxMs,
+          );
+        throw error;
+      }
+      this.connectFailuresInRow = 0;
+      this.backoffUntil = 0;
+      const session = { service, busy: true, lastUsedAt: Date.now() };
+      this.sessions.add(session);
+      this.counters.opened++;
+      return session;
+    } finally {
+      this.connecting--;
+      this.wake();
+    }
+  }
+
+  private async healthy(session: Session): Promise<boolean> {
+    if (!session.service.usable) {
+      await this.discard(session);
+      return false;
+    }
+    if (Date.now() - session.lastUsedAt < this.options.healthCheckAfterMs) return true;
+    try {
+      await session.service.ping();
+      return true;
+    } catch (error) {
+      this.counters.healthCheckFailures++;
+      this.lastError = errorMessage(error);
+      await this.discard(session);
+      return false;
+    }
+  }
+
+  private release(session: Session) {
+    // A call that lost the connection leaves a session that cannot be reused
+    if (this.closing || !session.service.usable) {
+      void this.discard(session);
+      return;
+    }
+    session.busy = false;
+    session.lastUsedAt = Date.now();
+    this.wake();
+  }
+
+  private async discard(session: Session) {
+    if (!this.sessions.delete(session)) return;
+    this.counters.closed++;
+    this.wake();
+    await session.service.disconnect();
+  }
+
+  // Logs out the sessions that idled past the idle timeout
+  async sweep(now = Date.now()) {
+    const expired = [...this.sessions].filter(
+      (session) => !session.busy && session.lastUsedAt + this.options.idleTimeoutMs <= now,
+    );
+    await Promise.all(expired.map((session) => this.discard(session)));
+  }
+
+  // When the next idle session expires, null without idle sessions
+  nextSweepAt(): number | null {
+    const expiries = [...this.sessions]
+      .filter((session) => !session.busy)
+      .map((session) => session.lastUsedAt + this.options.idleTimeoutMs);
+    return expiries.length ? Math.min(...expiries) : null;
+  }
+
+  // Logs out idle sessions now and busy ones once their call finished
+  async close() {
+    this.closing = true;
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach((wake) => wake());
+    await Promise.all(
+      [...this.sessions].filter((session) => !session.busy).map((session) => this.discard(session)),
+    );
+  }
+
+  metrics(): ImapPoolMetrics {
+    const busy = [...this.sessions].filter((session) => session.busy).length;
+    return {
+      maxSessions: this.options.maxSessions,
+      sessions: this.sessions.size,
+      busy,
+      idle: this.sessions.size - busy,
+      connecting: this.connecting,
+      waiting: this.waiters.length,
+      ...this.counters,
+      backoffUntil:
+        this.backoffUntil > Date.now() ? new Date(this.backoffUntil).toISOString() : null,
+      lastError: this.lastError,
+    };
+  }
+}
+
+// --- Calling a pool in another isolate ---
+
+// Errors cross the RPC boundary as plain objects, with the fields callers look at
+export interface SerializedImapError {
+  name: string;
+  message: string;
+  code?: string;
+  serverResponseCode?: string;
+  responseText?: string;
+  authenticationFailed?: boolean;
+}
+
+export type ImapPoolResult = { value: unknown } | { error: SerializedImapError };
+
+// What DurableImapPool offers, so the driver does not depend on the Workers runtime
+export interface ImapPoolStub {
+  call(connectionId: string, method: string, args: unknown[]): Promise<ImapPoolResult>;
+  metrics(): Promise<ImapPoolMetrics | null>;
+  reset(): Promise<void>;
+}
+
+export const serializeImapError = (error: unknown): SerializedImapError => {
+  if (!(error instanceof Error)) return { name: 'Error', message: String(error) };
+  const fields = error as Error & Partial<SerializedImapError>;
+  return {
+    name: error.name,
+    message: error.message,
+    code: fields.code,
+    serverResponseCode: fields.serverResponseCode,
+    responseText: fields.responseText,
+    authenticationFailed: fields.authenticationFailed,
+  };
+};
+
+// RPC hands binary data back as Uint8Array, the services return Buffers
+const reviveBuffers = (value: unknown): unknown => {
+  if (value instanceof Uint8Array) return Buffer.from(value.buffer, value.byteOffset, value.length);
+  if (Array.isArray(value)) return value.map(reviveBuffers);
+  if (value instanceof Map) {
+    return new Map([...value].map(([key, entry]) => [key, reviveBuffers(entry)]));
+  }
+  if (value && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, reviveBuffers(entry)]),
+    );
+  }
+  return value;
+};
+
+/**
+ * An ImapService whose calls run on a pooled session. Attachments are read into memory by
+ * the pool and streamed from there, callbacks like syncMailbox's flag loader are passed as
+ * RPC stubs. Watching needs a connection of its own and is not available here.
+ */
+export const pooledImapService = (stub: ImapPoolStub, connectionId: string): ImapService =>
+  new Proxy({} as ImapService, {
+    get: (_target, method) => {
+      // Not a thenable, so the proxy can be returned from async functions
+      if (typeof method !== 'string' || method === 'then') return undefined;
+      return async (...args: unknown[]) => {
+        const result = await stub.call(connectionId, method, args);
+        if ('error' in result) {
+          throw Object.assign(new Error(result.error.message), result.error);
+        }
+        const value = reviveBuffers(result.value);
+        return method === 'downloadAttachment' && Buffer.isBuffer(value)
+          ? Readable.from([value])
+          : value;
+      };
+    },
+  });
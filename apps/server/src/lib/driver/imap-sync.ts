@@ -0,0 +1,276 @@
+import type {
+  BasicMessageInfo,
+  MailboxDelta,
+  MailboxSyncState,
+  MessageEnvelope,
+} from './imap.service';
+import { and, desc, eq, inArray, isNotNull, isNull, lt, or, sql } from 'drizzle-orm';
+import { imapMailboxState, imapMessage } from '@zero/db/schema';
+import type { DB } from '@zero/db';
+
+// Postgres copy of the IMAP mailboxes of one connection, kept current with the deltas from
+// ImapService.syncMailbox. The UIDs and flags of every message are stored so pages can be
+// answered locally, envelopes only once a message was listed. Each message also records the
+// conversation the server threaded it into, by the conversation's oldest UID.
+
+// Rows per INSERT, a first sync of a large mailbox inserts every UID
+const INSERT_CHUNK_SIZE = 1000;
+
+export type StoredMessage = Omit<BasicMessageInfo, 'envelope'> & {
+  envelope: MessageEnvelope | null;
+};
+
+// A conversation of a mailbox as threaded by the server, with the UIDs of all its messages
+export interface StoredConversation {
+  root: number; // Its oldest UID, which identifies it
+  newest: number;
+  uids: number[]; // Oldest first
+}
+
+// The conversation of every message of a THREAD result, by UID
+export const conversationsByUid = (threads: number[][]) => {
+  const conversations = new Map<number, StoredConversation>();
+  for (const thread of threads) {
+    const uids = [...thread].sort((a, b) => a - b);
+    const [root] = uids;
+    if (root === undefined) continue;
+    const conversation = { root, newest: uids.at(-1) ?? root, uids };
+    for (const uid of uids) conversations.set(uid, conversation);
+  }
+  return conversations;
+};
+
+const chunk = <T>(items: T[], size: number) =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) =>
+    items.slice(i * size, (i + 1) * size),
+  );
+
+// Dates are stored as ISO strings inside the envelope JSON
+const reviveEnvelope = (envelope: Record<string, unknown> | null): MessageEnvelope | null =>
+  envelope
+    ? {
+        ...(envelope as MessageEnvelope),
+        date: typeof envelope.date === 'string' ? new Date(envelope.date) : undefined,
+      }
+    : null;
+
+export class ImapSyncStore {
+  constructor(
+    private db: DB,
+    private connectionId: string,
+  ) {}
+
+  private mailboxRows(mailbox: string) {
+    return and(eq(imapMessage.connectionId, this.connectionId), eq(imapMessage.mailbox, mailbox));
+  }
+
+  async getState(mailbox: string): Promise<MailboxSyncState | null> {
+    const [state] = await this.db
+      .select()
+      .from(imapMailboxState)
+      .where(
+        and(
+          eq(imapMailboxState.connectionId, this.connectionId),
+          eq(imapMailboxState.mailbox, mailbox),
+        ),
+      );
+    return state
+      ? {
+          uidValidity: state.uidValidity,
+          uidNext: state.uidNext,
+          highestModseq: state.highestModseq ?? undefined,
+        }
+      : null;
+  }
+
+  async getFlags(mailbox: string): Promise<Map<number, string[]>> {
+    const rows = await this.db
+      .select({ uid: imapMessage.uid, flags: imapMessage.flags })
+      .from(imapMessage)
+      .where(this.mailboxRows(mailbox));
+    return new Map(rows.map((row) => [row.uid, row.flags]));
+  }
+
+  async apply(mailbox: string, delta: MailboxDelta) {
+    if (delta.method === 'unchanged') return;
+    await this.db.transaction(async (tx) => {
+      if (delta.reset) {
+        await tx.delete(imapMessage).where(this.mailboxRows(mailbox));
+      } else {
+        for (const uids of chunk(delta.vanished, INSERT_CHUNK_SIZE)) {
+          await tx
+            .delete(imapMessage)
+            .where(and(this.mailboxRows(mailbox), inArray(imapMessage.uid, uids)));
+        }
+      }
+
+      for (const changed of chunk(delta.changed, INSERT_CHUNK_SIZE)) {
+        await tx
+          .insert(imapMessage)
+          .values(
+            changed.map(({ uid, flags }) => ({
+              connectionId: this.connectionId,
+              mailbox,
+              uid,
+              flags,
+            })),
+          )
+          .onConflictDoUpdate({
+            target: [imapMessage.connectionId, imapMessage.mailbox, imapMessage.uid],
+            set: { flags: sql`excluded.flags` },
+          });
+      }
+
+      const state = {
+        uidValidity: delta.state.uidValidity,
+        uidNext: delta.state.uidNext,
+        highestModseq: delta.state.highestModseq ?? null,
+        syncedAt: new Date(),
+      };
+      await tx
+        .insert(imapMailboxState)
+        .values({ connectionId: this.connectionId, mailbox, ...state })
+        .onConflictDoUpdate({
+          target: [imapMailboxState.connectionId, imapMailboxState.mailbox],
+          set: state,
+        });
+    });
+  }
+
+  /**
+   * Drops the copy of a mailbox and the mailboxes nested in it, after they were deleted or
+   * renamed on the server. A renamed mailbox is synced again under its new path.
+   */
+  async forgetMailbox(mailbox: string, delimiter: string | null) {
+    const matches = (column: typeof imapMessage.mailbox | typeof imapMailboxState.mailbox) =>
+      delimiter
+        ? or(eq(column, mailbox), sql`starts_with(${column}, ${mailbox + delimiter})`)
+        : eq(column, mailbox);
+    await this.db.transaction(async (tx) => {
+      await tx
+        .delete(imapMessage)
+        .where(and(eq(imapMessage.connectionId, this.connectionId), matches(imapMessage.mailbox)));
+      await tx
+        .delete(imapMailboxState)
+        .where(
+          and(
+            eq(imapMailboxState.connectionId, this.connectionId),
+            matches(imapMailboxState.mailbox),
+          ),
+        );
+    });
+  }
+
+  // Whether some message was never threaded, it arrived after the last THREAD or the column is new
+  async hasUnthreaded(mailbox: string): Promise<boolean> {
+    const [row] = await this.db
+      .select({ uid: imapMessage.uid })
+      .from(imapMessage)
+      .where(and(this.mailboxRows(mailbox), isNull(imapMessage.threadRoot)))
+      .limit(1);
+    return !!row;
+  }
+
+  // Records the conversations of a THREAD result, only rows whose conversation changed are written
+  async saveThreads(mailbox: string, threads: number[][]) {
+    const roots = [...conversationsByUid(threads)].map(([uid, { root }]) => ({ uid, root }));
+    for (const rows of chunk(roots, INSERT_CHUNK_SIZE)) {
+      const thread = sql`unnest(${sql.param(rows.map((row) => row.uid))}::integer[], ${sql.param(rows.map((row) => row.root))}::integer[]) as thread(uid, root)`;
+      await this.db
+        .update(imapMessage)
+        .set({ threadRoot: sql`thread.root` })
+        .from(thread)
+        .where(
+          and(
+            this.mailboxRows(mailbox),
+            sql`${imapMessage.uid} = thread.uid`,
+            sql`${imapMessage.threadRoot} is distinct from thread.root`,
+          ),
+        );
+    }
+  }
+
+  /**
+   * The conversations of the given messages by UID. Null when none of them was threaded, the
+   * server can't thread then. A message threaded after the last THREAD is a conversation of
+   * its own until the next one.
+   */
+  async conversations(
+    mailbox: string,
+    uids: number[],
+  ): Promise<Map<number, StoredConversation> | null> {
+    if (!uids.length) return new Map();
+    const rows = await this.db
+      .select({ uid: imapMessage.uid, root: imapMessage.threadRoot })
+      .from(imapMessage)
+      .where(and(this.mailboxRows(mailbox), inArray(imapMessage.uid, uids)));
+    const roots = [...new Set(rows.flatMap((row) => (row.root === null ? [] : [row.root])))];
+    if (!roots.length) return null;
+
+    const members = await this.db
+      .select({ uid: imapMessage.uid, root: imapMessage.threadRoot })
+      .from(imapMessage)
+      .where(
+        and(
+          this.mailboxRows(mailbox),
+          isNotNull(imapMessage.threadRoot),
+          inArray(imapMessage.threadRoot, roots),
+        ),
+      );
+    const threads = new Map<number, number[]>();
+    for (const { uid, root } of members) {
+      if (root !== null) threads.set(root, [...(threads.get(root) ?? []), uid]);
+    }
+    const conversations = conversationsByUid([...threads.values()]);
+    for (const row of rows) {
+      if (!conversations.has(row.uid)) {
+        conversations.set(row.uid, { root: row.uid, newest: row.uid, uids: [row.uid] });
+      }
+    }
+    return conversations;
+  }
+
+  async saveEnvelopes(messages: BasicMessageInfo[]) {
+    for (const message of messages) {
+      await this.db
+        .update(imapMessage)
+        .set({
+          envelope: message.envelope as Record<string, unknown>,
+          internalDate: message.internalDate ?? null,
+          size: message.size ?? null,
+        })
+        .where(and(this.mailboxRows(message.mailbox), eq(imapMessage.uid, message.uid)));
+    }
+  }
+
+  /**
+   * The newest `limit` messages below `beforeUid`, newest first. UIDs are assigned in arrival
+   * order, so this is the same page the server would return for a UID SEARCH.
+   */
+  async page(
+    mailbox: string,
+    uidValidity: string,
+    { beforeUid, limit }: { beforeUid?: number; limit: number },
+  ): Promise<StoredMessage[]> {
+    const rows = await this.db
+      .select()
+      .from(imapMessage)
+      .where(
+        and(
+          this.mailboxRows(mailbox),
+          beforeUid !== undefined ? lt(imapMessage.uid, beforeUid) : undefined,
+        ),
+      )
+      .orderBy(desc(imapMessage.uid))
+      .limit(limit);
+    return rows.map((row) => ({
+      mailbox,
+      uidValidity,
+      uid: row.uid,
+      flags: row.flags,
+      envelope: reviveEnvelope(row.envelope),
+      internalDate: row.internalDate ?? undefined,
+      size: row.size ?? undefined,
+    }));
+  }
+}
@@ -0,0 +1,165 @@
+// Conversation builder for IMAP mailboxes, based on Jamie Zawinski's threading algorithm
+// (https://www.jwz.org/doc/threading.html) which is also what RFC 5256 THREAD=REFERENCES uses.
+// Messages from several mailboxes (typically INBOX and Sent) can be threaded together since
+// only the Message-ID, In-Reply-To and References headers are taken into account.
+
+export interface ThreadableMessage {
+  messageId?: string;
+  inReplyTo?: string;
+  references?: string[];
+  subject?: string;
+  date?: Date;
+}
+
+export interface Conversation<T extends ThreadableMessage> {
+  // Message-ID of the conversation root. When the root message itself is not available
+  // (deleted, or in a mailbox that was not searched) this is the id it is referenced by.
+  rootId: string;
+  // Oldest first
+  messages: T[];
+}
+
+interface Container<T> {
+  id: string;
+  message?: T;
+  parent?: Container<T>;
+  children: Container<T>[];
+}
+
+const MESSAGE_ID_REGEX = /<[^<>\s]+>/g;
+
+/**
+ * Extracts every `<id@host>` token from a Message-ID, In-Reply-To or References header value.
+ * Headers that are missing the angle brackets are treated as a single id.
+ */
+export const extractMessageIds = (value?: string | null): string[] => {
+  if (!value) return [];
+  const matches = value.match(MESSAGE_ID_REGEX);
+  if (matches) return matches.map(normalizeMessageId);
+  const trimmed = value.trim();
+  return trimmed ? [normalizeMessageId(trimmed)] : [];
+};
+
+export const normalizeMessageId = (id: string) => {
+  const bare = id.trim().replace(/^<|>$/g, '');
+  return `<${bare}>`;
+};
+
+const SUBJECT_PREFIX_REGEX = /^\s*((re|fwd?|aw|wg|sv|vs|antw)(\[\d+\])?\s*:\s*)+/i;
+
+export const baseSubject = (subject?: string) =>
+  (subject ?? '').replace(SUBJECT_PREFIX_REGEX, '').replace(/\s+/g, ' ').trim().toLowerCase();
+
+const isReplySubject = (subject?: string) => SUBJECT_PREFIX_REGEX.test(subject ?? '');
+
+const isAncestor = <T>(candidate: Container<T>, of: Container<T>) => {
+  for (let node: Container<T> | undefined = of; node; node = node.parent) {
+    if (node === candidate) return true;
+  }
+  return false;
+};
+
+const link = <T>(parent: Container<T>, child: Container<T>) => {
+  if (child.parent === parent || isAncestor(child, parent)) return;
+  if (child.parent) {
+    child.parent.children = child.parent.children.filter((c) => c !== child);
+  }
+  child.parent = parent;
+  parent.children.push(child);
+};
+
+const collect = <T>(container: Container<T>, into: T[]) => {
+  if (container.message) into.push(container.message);
+  for (const child of container.children) collect(child, into);
+  return into;
+};
+
+const timeOf = (message: ThreadableMessage) => message.date?.getTime() ?? 0;
+
+const latestTime = (conversation: Conversation<ThreadableMessage>) =>
+  Math.max(...conversation.messages.map(timeOf));
+
+/**
+ * Groups messages into conversations. The returned list is ordered by the date of the
+ * most recent message in each conversation, newest first.
+ */
+export const threadMessages = <T extends ThreadableMessage>(messages: T[]): Conversation<T>[] => {
+  const containers = new Map<string, Container<T>>();
+  const getContainer = (id: string) => {
+    let container = containers.get(id);
+    if (!container) {
+      container = { id, children: [] };
+      containers.set(id, container);
+    }
+    return container;
+  };
+
+  let anonymous = 0;
+  for (const message of messages) {
+    let container = message.messageId ? getContainer(message.messageId) : undefined;
+    // Duplicate Message-IDs happen when the same message is stored in several mailboxes
+    // (e.g. a message sent to yourself), the first copy wins.
+    if (!container || container.message) {
+      container = getContainer(`<anonymous-${anonymous++}@zero>`);
+    }
+    container.message = message;
+
+    const references = [...(message.references ?? [])];
+    if (message.inReplyTo && references[references.length - 1] !== message.inReplyTo) {
+      references.push(message.inReplyTo);
+    }
+
+    let previous: Container<T> | undefined;
+    for (const reference of references) {
+      const current = getContainer(reference);
+      if (previous && !current.parent) link(previous, current);
+      previous = current;
+    }
+    if (previous && previous !== container) link(previous, container);
+  }
+
+  // Roots are containers without a parent, empty roots are kept so that siblings whose
+  // common ancestor is missing still end up in the same conversation.
+  const roots = [...containers.values()].filter((c) => !c.parent);
+
+  // Merge roots that only differ by a reply prefix in the subject, this catches replies
+  // from clients that drop In-Reply-To and References.
+  const bySubject = new Map<string, Container<T>>();
+  for (const root of roots) {
+    const first = root.message ?? collect(root, [])[0];
+    const subject = baseSubject(first?.subject);
+    if (!subject) continue;
+    const existing = bySubject.get(subject);
+    if (!existing) {
+      bySubject.set(subject, root);
+    } else if (isReplySubject(first?.subject)) {
+      link(existing, root);
+    } else if (root.message && existing.message && isReplySubject(existing.message.subject)) {
+      link(root, existing);
+      bySubject.set(subject, root);
+    }
+  }
+
+  return roots
+    .filter((root) => !root.parent)
+    .map((root) => ({
+      rootId: root.id,
+      messages: collect(root, []).sort((a, b) => timeOf(a) - timeOf(b)),
+    }))
+    .filter((conversation) => conversation.messages.length > 0)
+    .sort((a, b) => latestTime(b) - latestTime(a));
+};
+
+/**
+ * Every id a conversation is known by, used to look up the rest of a conversation with
+ * IMAP SEARCH HEADER queries.
+ */
+export const conversationIds = (messages: ThreadableMessage[]) => {
+  const ids = new Set<string>();
+  for (const message of messages) {
+    if (message.messageId) ids.add(message.messageId);
+    if (message.inReplyTo) ids.add(message.inReplyTo);
+    for (const reference of message.references ?? []) ids.add(reference);
+  }
+  return ids;
+};
@@ -1,4 +1,14 @@
-import { ImapFlow, ImapFlowOptions } from 'imapflow';
+import {
+  ImapFlow,
+  type ExpungeEvent,
+  type FetchMessageObject,
+  type FlagsEvent,
+  type ImapFlowOptions,
+  type SearchObject,
+} from 'imapflow';
+import { extractMessageIds } from './imap-threading';
+import { parseMime, type MimeMessage } from './mime-parser';
+import type { OAuthTokenProvider } from './oauth';
 
 // Define Supporting Types
 export interface ImapConfig {
@@ -7,24 +17,73 @@ export interface ImapConfig {
   secure: boolean; // true for SSL/TLS direct connection, false for STARTTLS
   auth: {
     user: string;
-    pass: string;
+    pass?: string;
+    tokenProvider?: OAuthTokenProvider; // Logs in with OAuth instead of the password
   };
   logger?: false | any; // Or a more specific logger type if you have one
-  requireTLS?: boolean; // Often used for STARTTLS
+  requireTLS?: boolean; // Refuse to log in when the server does not offer STARTTLS
+  timeout?: number; // Milliseconds to wait for the connection and the server greeting
+  maxIdleTime?: number; // Milliseconds after which a running IDLE is restarted
 }
 
 export interface Mailbox {
   path: string;
   name: string; // Derived from path
+  delimiter: string; // Hierarchy delimiter, usually "." or "/"
   uidValidity?: number;
-  // Add other relevant mailbox attributes if available
+  flags: string[];
+  // RFC 6154 special-use flag such as \Sent or \Trash
+  specialUse?: string;
+  // 'extension' when the server reported the flag, otherwise guessed from a known folder name
+  specialUseSource?: 'user' | 'extension' | 'name';
+}
+
+export interface MailboxNamespace {
+  // Prepended to every mailbox path by some servers, e.g. "INBOX."
+  prefix: string;
+  // Null when the server has a flat list of mailboxes
+  delimiter: string | null;
+}
+
+// Message counts of a mailbox as reported by STATUS
+export interface MailboxStatus {
+  messages: number;
+  unseen: number;
+  recent: number;
+}
+
+// What a previous sync of a mailbox saw, see ImapService.syncMailbox
+export interface MailboxSyncState {
+  uidValidity: string;
+  uidNext: number;
+  highestModseq?: string; // Only on servers with CONDSTORE
+}
+
+export interface MailboxDelta {
+  state: MailboxSyncState;
+  // True on the first sync and after the mailbox was renumbered, `changed` then holds every
+  // message and everything known from before has to be dropped
+  reset: boolean;
+  // Messages that are new or whose flags changed since the previous sync
+  changed: { uid: number; flags: string[] }[];
+  vanished: number[];
+  method: 'unchanged' | 'qresync' | 'condstore' | 'diff';
+}
+
+// A change to a mailbox reported while watching it, see ImapService.watchMailbox
+export interface MailboxChange {
+  type: 'exists' | 'expunge' | 'flags';
+  mailbox: string;
+  uidValidity: string;
+  uid: number;
+  flags?: string[]; // All flags of the message after a 'flags' change
 }
 
 export interface MessageEnvelope {
   date?: Date;
   subject?: string;
   from?: { name?: string; address?: string }[];
-  to?: { name?:string; address?: string }[];
+  to?: { name?: string; address?: string }[];
   cc?: { name?: string; address?: string }[];
   bcc?: { name?: string; address?: string }[];
   messageId?: string;
@@ -33,37 +92,178 @@ export interface MessageEnvelope {
 }
 
 export interface BasicMessageInfo {
+  mailbox: string; // Path of the mailbox the message was fetched from
+  uidValidity: string; // UIDVALIDITY of that mailbox, UIDs are only valid together with it
   uid: number; // IMAP UID
   flags: string[];
   envelope: MessageEnvelope;
   size?: number;
-  // Potentially internalDate if available
+  internalDate?: Date;
 }
 
-export interface AttachmentInfo {
+export interface MessagePart {
   partID: string;
-  type: string; // e.g., 'application/pdf'
-  filename?: string;
+  type: string; // e.g. text/plain, text/html, image/jpeg
   size?: number;
-  disposition?: string; // 'attachment', 'inline'
-  // encoding?: string;
+  encoding?: string;
+  filename?: string;
+  disposition?: string;
+  // other relevant attributes
 }
 
-export interface MessagePart {
-    partID: string;
-    type: string; // e.g. text/plain, text/html, image/jpeg
-    size?: number;
-    encoding?: string;
-    filename?: string;
-    disposition?: string;
-    // other relevant attributes
+export interface FullMessage extends BasicMessageInfo {
+  mime: MimeMessage; // The whole source, parsed
 }
 
-export interface FullMessage extends BasicMessageInfo {
-  bodyStructure: any; // Raw body structure from imapflow, can be complex
-  textBody?: string; // Plain text body part
-  htmlBody?: string; // HTML body part
-  attachments: AttachmentInfo[];
+// Envelope data plus the headers the envelope does not carry (needed for threading)
+const ENVELOPE_QUERY = {
+  uid: true,
+  flags: true,
+  envelope: true,
+  size: true,
+  internalDate: true,
+  headers: ['references'],
+};
+
+// Unfolds a raw header block and returns the value of the first header with the given name
+const getHeaderValue = (headers: Buffer | undefined, name: string): string | undefined => {
+  if (!headers) return undefined;
+  const unfolded = headers.toString('utf8').replace(/\r?\n[ \t]+/g, ' ');
+  const prefix = `${name.toLowerCase()}:`;
+  const line = unfolded.split(/\r?\n/).find((l) => l.toLowerCase().startsWith(prefix));
+  return line?.slice(prefix.length).trim();
+};
+
+const mapAddresses = (addresses?: { name?: string; address?: string }[]) =>
+  addresses?.map((a) => ({ name: a.name, address: a.address }));
+
+const toBasicMessageInfo = (
+  msg: FetchMessageObject,
+  mailbox: { path: string; uidValidity: bigint },
+): BasicMessageInfo => ({
+  mailbox: mailbox.path,
+  uidValidity: mailbox.uidValidity.toString(),
+  uid: msg.uid,
+  flags: Array.from(msg.flags ?? []),
+  envelope: {
+    date: msg.envelope?.date || undefined,
+    subject: msg.envelope?.subject || undefined,
+    from: mapAddresses(msg.envelope?.from),
+    to: mapAddresses(msg.envelope?.to),
+    cc: mapAddresses(msg.envelope?.cc),
+    bcc: mapAddresses(msg.envelope?.bcc),
+    messageId: extractMessageIds(msg.envelope?.messageId)[0],
+    inReplyTo: extractMessageIds(msg.envelope?.inReplyTo)[0],
+    references: extractMessageIds(getHeaderValue(msg.headers, 'references')),
+  },
+  size: msg.size,
+  internalDate: msg.internalDate ? new Date(msg.internalDate) : undefined,
+});
+
+// THREAD (RFC 5256) is not wrapped by imapflow, so it is issued through the raw command
+// interface. Attributes follow imapflow's parser output: nested arrays of { value } atoms.
+type ImapAttribute = { type?: string; value?: string } | ImapAttribute[];
+type RawImapClient = {
+  exec(
+    command: string,
+    attributes: ImapAttribute[],
+    options?: {
+      untagged?: Record<string, (untagged: { attributes?: ImapAttribute[] }) => Promise<void>>;
+    },
+  ): Promise<{ next: () => void }>;
+};
+
+const flattenThreadNode = (node: ImapAttribute, into: number[] = []) => {
+  if (Array.isArray(node)) {
+    for (const child of node) flattenThreadNode(child, into);
+  } else if (node.value && /^\d+$/.test(node.value)) {
+    into.push(Number(node.value));
+  }
+  return into;
+};
+
+// Caps the number of Message-IDs OR'ed together in a single SEARCH command
+const MESSAGE_ID_SEARCH_CHUNK = 20;
+
+const DEFAULT_PAGE_SIZE = 100;
+
+const STATUS_QUERY = { messages: true, unseen: true, recent: true };
+
+const toMailboxStatus = (status: {
+  messages?: number;
+  unseen?: number;
+  recent?: number;
+}): MailboxStatus => ({
+  messages: status.messages ?? 0,
+  unseen: status.unseen ?? 0,
+  recent: status.recent ?? 0,
+});
+
+// How often watchMailbox polls servers without IDLE
+const DEFAULT_POLL_INTERVAL_MS = 60_000;
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true },
+    );
+  });
+
+export interface ListMessagesOptions {
+  // Only return messages with a lower UID, i.e. older than the previous page
+  beforeUid?: number;
+  limit?: number;
+  // Rejects the request if the mailbox was renumbered since the cursor was created
+  uidValidity?: string;
+}
+
+type EsearchReturnOption = 'MIN' | 'MAX' | 'COUNT' | 'ALL' | { partial: string };
+
+// Expands a compact sequence set such as "1,5:10,20" as returned by ESEARCH
+const expandUidSet = (set?: string): number[] => {
+  if (!set) return [];
+  return set.split(',').flatMap((part) => {
+    const [from, to] = part.split(':').map(Number);
+    if (!from) return [];
+    if (!to) return [from];
+    const [low, high] = from < to ? [from, to] : [to, from];
+    return Array.from({ length: high - low + 1 }, (_, i) => low + i);
+  });
+};
+
+// The reverse, "1,5:10,20" for the UIDs 1, 5 to 10 and 20
+const compactUidSet = (uids: number[]) => {
+  const ranges: [number, number][] = [];
+  for (const uid of [...new Set(uids)].sort((a, b) => a - b)) {
+    const last = ranges.at(-1);
+    if (last && last[1] === uid - 1) last[1] = uid;
+    else ranges.push([uid, uid]);
+  }
+  return ranges.map(([from, to]) => (from === to ? `${from}` : `${from}:${to}`)).join(',');
+};
+
+/**
+ * Thrown when a message is addressed with a UIDVALIDITY that no longer matches the mailbox.
+ * The server has renumbered the mailbox, so the UID may now point at a different message.
+ */
+export class StaleUidValidityError extends Error {
+  code = 'UIDVALIDITY_CHANGED';
+  constructor(
+    public mailboxPath: string,
+    public expected: string,
+    public actual: string,
+  ) {
+    super(
+      `Mailbox "${mailboxPath}" was renumbered by the server (UIDVALIDITY ${expected} -> ${actual}), reload the message list`,
+    );
+    this.name = 'StaleUidValidityError';
+  }
 }
 
 // Implement ImapService Class
@@ -74,20 +274,39 @@ export class ImapService {
 
   constructor(config: ImapConfig) {
     this.config = config;
+    this.client = new ImapFlow(this.clientOptions());
+  }
+
+  // imapflow takes the access token up front, OAuth clients are created again on connect
+  private clientOptions(accessToken?: string): ImapFlowOptions {
+    const config = this.config;
     const imapOptions: ImapFlowOptions = {
       host: this.config.host,
       port: this.config.port,
       secure: this.config.secure,
-      auth: {
-        user: this.config.auth.user,
-        pass: this.config.auth.pass,
-      },
+      // imapflow prefers OAUTHBEARER over XOAUTH2 when the server offers both
+      auth: accessToken
+        ? { user: this.config.auth.user, accessToken }
+        : {
+            user: this.config.auth.user,
+            pass: this.config.auth.pass,
+          },
       logger: config.logger !== undefined ? config.logger : false, // Default to false if not provided
+      // Lets syncMailbox learn about expunged messages with VANISHED instead of a UID diff
+      qresync: true,
     };
-    if (config.requireTLS !== undefined) {
-        imapOptions.requireTLS = config.requireTLS;
+    // imapflow upgrades opportunistically, doSTARTTLS makes a missing STARTTLS an error
+    if (!config.secure && config.requireTLS) {
+      imapOptions.doSTARTTLS = true;
+    }
+    if (config.timeout) {
+      imapOptions.connectionTimeout = config.timeout;
+      imapOptions.greetingTimeout = config.timeout;
     }
-    this.client = new ImapFlow(imapOptions);
+    if (config.maxIdleTime) {
+      imapOptions.maxIdleTime = config.maxIdleTime;
+    }
+    return imapOptions;
   }
 
   async connect(): Promise<void> {
@@ -96,7 +315,18 @@ export class ImapService {
       return;
     }
     try {
-      await this.client.connect();
+      const { tokenProvider } = this.config.auth;
+      if (tokenProvider) {
+        this.client = new ImapFlow(this.clientOptions(await tokenProvider.getAccessToken()));
+        // A token the server rejects although it has not expired yet was revoked or is stale
+        await this.client.connect().catch(async (error) => {
+          if (!(error as { authenticationFailed?: boolean }).authenticationFailed) throw error;
+          this.client = new ImapFlow(this.clientOptions(await tokenProvider.getAccessToken(true)));
+          await this.client.connect();
+        });
+      } else {
+        await this.client.connect();
+      }
       console.log(`IMAP connected to ${this.config.host}`);
     } catch (error) {
       console.error(`IMAP connection error to ${this.config.host}:`, error);
@@ -106,8 +336,8 @@ export class ImapService {
 
   async disconnect(): Promise<void> {
     if (!this.client.usable && this.client.state === this.client.states.LOGOUT) {
-        console.log('IMAP client is already disconnected.');
-        return;
+      console.log('IMAP client is already disconnected.');
+      return;
     }
     try {
       await this.client.logout();
@@ -118,14 +348,39 @@ export class ImapService {
     }
   }
 
+  // Whether the connection is still logged in, a session that lost it is not reused
+  get usable(): boolean {
+    return this.client.usable;
+  }
+
+  // A NOOP round trip, to check an idle connection before reusing it
+  async ping(): Promise<void> {
+    if (!this.usable) throw new Error(`IMAP connection to ${this.config.host} is closed`);
+    await this.client.noop();
+  }
+
+  /**
+   * What the server offered on the current connection, for connection diagnostics. `secure`
+   * is true for implicit TLS as well as after a STARTTLS upgrade.
+   */
+  getConnectionInfo(): { secure: boolean; capabilities: string[] } {
+    return {
+      secure: this.config.secure || this.client.secureConnection,
+      capabilities: [...this.client.capabilities.keys()],
+    };
+  }
+
   async listMailboxes(): Promise<Mailbox[]> {
     await this.connectIfNeeded();
     try {
       const mailboxes = await this.client.list();
-      return mailboxes.map(mb => ({
+      return mailboxes.map((mb) => ({
         path: mb.path,
         name: mb.name, // imapflow provides 'name' which is the last part of the path
-        // uidValidity: mb.uidValidity, // If available and needed
+        delimiter: mb.delimiter,
+        flags: [...mb.flags],
+        specialUse: mb.specialUse,
+        specialUseSource: mb.specialUseSource,
       }));
     } catch (error) {
       console.error('IMAP listMailboxes error:', error);
@@ -133,142 +388,330 @@ export class ImapService {
     }
   }
 
-  async listMessages(mailboxPath: string, startSeq?: number, count?: number): Promise<BasicMessageInfo[]> {
+  /**
+   * The personal namespace of the account, which new mailbox paths have to start with and
+   * be nested in.
+   */
+  async getNamespace(): Promise<MailboxNamespace> {
+    await this.connectIfNeeded();
+    // Set by imapflow from NAMESPACE (or LIST "" "") after login but missing from its typings
+    const { namespace } = this.client as unknown as { namespace?: Partial<MailboxNamespace> };
+    return { prefix: namespace?.prefix ?? '', delimiter: namespace?.delimiter ?? null };
+  }
+
+  /**
+   * Creates a mailbox, including missing parents, and subscribes to it. Returns false when
+   * the server reported that the mailbox already exists.
+   */
+  async createMailbox(path: string): Promise<boolean> {
+    await this.connectIfNeeded();
+    try {
+      const result = await this.client.mailboxCreate(path);
+      return result.created;
+    } catch (error) {
+      console.error(`IMAP createMailbox error for ${path}:`, error);
+      throw error;
+    }
+  }
+
+  // Child mailboxes are renamed along with their parent
+  async renameMailbox(path: string, newPath: string): Promise<void> {
     await this.connectIfNeeded();
+    try {
+      await this.client.mailboxRename(path, newPath);
+    } catch (error) {
+      console.error(`IMAP renameMailbox error from ${path} to ${newPath}:`, error);
+      throw error;
+    }
+  }
+
+  async deleteMailbox(path: string): Promise<void> {
+    await this.connectIfNeeded();
+    try {
+      await this.client.mailboxDelete(path);
+    } catch (error) {
+      console.error(`IMAP deleteMailbox error for ${path}:`, error);
+      throw error;
+    }
+  }
+
+  async subscribeMailbox(path: string): Promise<void> {
+    await this.connectIfNeeded();
+    // imapflow logs the server's error and only returns false
+    if (!(await this.client.mailboxSubscribe(path))) {
+      throw new Error(`The server refused to subscribe to mailbox "${path}"`);
+    }
+  }
+
+  async unsubscribeMailbox(path: string): Promise<void> {
+    await this.connectIfNeeded();
+    if (!(await this.client.mailboxUnsubscribe(path))) {
+      throw new Error(`The server refused to unsubscribe from mailbox "${path}"`);
+    }
+  }
+
+  /**
+   * Lists the newest messages of a mailbox, newest first. Pass the UID of the oldest message of
+   * the previous page as `beforeUid` to get the next page.
+   */
+  async listMessages(
+    mailboxPath: string,
+    options: ListMessagesOptions = {},
+  ): Promise<BasicMessageInfo[]> {
+    return this.searchMessages(mailboxPath, { all: true }, options);
+  }
+
+  /**
+   * Runs a UID SEARCH in the mailbox and fetches the envelopes of the newest `limit` matches,
+   * newest first. Pagination works like listMessages.
+   */
+  async searchMessages(
+    mailboxPath: string,
+    query: SearchObject,
+    { beforeUid, limit = DEFAULT_PAGE_SIZE, uidValidity }: ListMessagesOptions = {},
+  ): Promise<BasicMessageInfo[]> {
+    if (beforeUid !== undefined && beforeUid <= 1) return [];
     let lock;
     try {
-      lock = await this.client.getMailboxLock(mailboxPath);
+      lock = await this.lockMailbox(mailboxPath, uidValidity);
+      const mailbox = this.selectedMailbox();
+      if (!mailbox.exists) return [];
+
+      const range = beforeUid ? { uid: `1:${beforeUid - 1}` } : {};
+      const uids = await this.newestUids({ ...query, ...range }, limit);
+      if (!uids.length) return [];
+
       const messages: BasicMessageInfo[] = [];
-      // imapflow uses UID ranges or sequence numbers. '*' means latest.
-      // For simplicity, let's fetch recent messages. A proper implementation
-      // would handle pagination using UIDs or sequence numbers based on `startSeq` and `count`.
-      // Example: Fetch last 'count' messages or up to a certain number if count is not specified.
-      // This example fetches basic info for messages from sequence 1 up to 100.
-      // A more robust solution would use UID ranges and handle the 'startSeq' and 'count' for pagination.
-      
-      let fetchRange = '1:100'; // Default range, adjust as needed
-      if (startSeq && count) {
-        fetchRange = `${startSeq}:${startSeq + count - 1}`;
-      } else if (count) { // fetch last 'count' messages
-         // Get total messages first to determine the range for the last 'count'
-         const mailboxStatus = await this.client.status(mailboxPath, {messages: true});
-         const totalMessages = mailboxStatus.messages ?? 0;
-         if (totalMessages > 0) {
-            const start = Math.max(1, totalMessages - count + 1);
-            fetchRange = `${start}:${totalMessages}`;
-         } else {
-            return []; // No messages
-         }
+      for await (const msg of this.client.fetch(uids.join(','), ENVELOPE_QUERY, { uid: true })) {
+        messages.push(toBasicMessageInfo(msg, mailbox));
       }
+      return messages.sort((a, b) => b.uid - a.uid);
+    } catch (error) {
+      console.error(`IMAP searchMessages error in ${mailboxPath}:`, error);
+      throw error;
+    } finally {
+      if (lock) lock.release();
+    }
+  }
+
+  /**
+   * UIDs of every message matching the query, newest first, and the UIDVALIDITY they belong
+   * to. For listings that need all matches at once, like threading search results.
+   */
+  async searchUids(
+    mailboxPath: string,
+    query: SearchObject,
+    uidValidity?: string,
+  ): Promise<{ uidValidity: string; uids: number[] }> {
+    let lock;
+    try {
+      lock = await this.lockMailbox(mailboxPath, uidValidity);
+      const mailbox = this.selectedMailbox();
+      const current = mailbox.uidValidity.toString();
+      if (!mailbox.exists) return { uidValidity: current, uids: [] };
+      const uids = (await this.client.search(query, { uid: true })) || [];
+      return { uidValidity: current, uids: uids.sort((a, b) => b - a) };
+    } catch (error) {
+      console.error(`IMAP searchUids error in ${mailboxPath}:`, error);
+      throw error;
+    } finally {
+      if (lock) lock.release();
+    }
+  }
 
+  async fetchMessageInfo(
+    mailboxPath: string,
+    uid: string,
+    uidValidity?: string,
+  ): Promise<BasicMessageInfo | null> {
+    let lock;
+    try {
+      lock = await this.lockMailbox(mailboxPath, uidValidity);
+      const message = await this.client.fetchOne(uid, ENVELOPE_QUERY, { uid: true });
+      return message ? toBasicMessageInfo(message, this.selectedMailbox()) : null;
+    } catch (error) {
+      console.error(`IMAP fetchMessageInfo error for UID ${uid} in ${mailboxPath}:`, error);
+      throw error;
+    } finally {
+      if (lock) lock.release();
+    }
+  }
 
-      for await (const msg of this.client.fetch(fetchRange, { uid: true, flags: true, envelope: true, size: true })) {
-        messages.push({
-          uid: msg.uid,
-          flags: Array.from(msg.flags), // Convert Set to Array
-          envelope: { // Map envelope fields
-            date: msg.envelope.date || undefined,
-            subject: msg.envelope.subject || undefined,
-            from: msg.envelope.from?.map(f => ({name: f.name, address: f.address})),
-            to: msg.envelope.to?.map(t => ({name: t.name, address: t.address})),
-            cc: msg.envelope.cc?.map(c => ({name: c.name, address: c.address})),
-            bcc: msg.envelope.bcc?.map(b => ({name: b.name, address: b.address})),
-            messageId: msg.envelope.messageId || undefined,
-            inReplyTo: msg.envelope.inReplyTo || undefined,
-            references: msg.envelope.references || undefined,
-          },
-          size: msg.size,
-        });
+  /**
+   * Fetches the envelopes of the given UIDs, newest first. UIDs that no longer exist are
+   * left out.
+   */
+  async fetchMessageInfos(
+    mailboxPath: string,
+    uids: number[],
+    uidValidity?: string,
+  ): Promise<BasicMessageInfo[]> {
+    if (!uids.length) return [];
+    let lock;
+    try {
+      lock = await this.lockMailbox(mailboxPath, uidValidity);
+      const mailbox = this.selectedMailbox();
+      const messages: BasicMessageInfo[] = [];
+      for await (const msg of this.client.fetch(uids.join(','), ENVELOPE_QUERY, { uid: true })) {
+        messages.push(toBasicMessageInfo(msg, mailbox));
       }
-      return messages;
+      return messages.sort((a, b) => b.uid - a.uid);
     } catch (error) {
-      console.error(`IMAP listMessages error in ${mailboxPath}:`, error);
+      console.error(`IMAP fetchMessageInfos error in ${mailboxPath}:`, error);
       throw error;
     } finally {
       if (lock) lock.release();
     }
   }
 
-  async fetchMessage(mailboxPath: string, uid: string): Promise<FullMessage | null> {
-    await this.connectIfNeeded();
+  /**
+   * Works out what changed in a mailbox since `previous`, fetching as little as the server
+   * allows: nothing when HIGHESTMODSEQ and UIDNEXT did not move, only the changed messages
+   * with CONDSTORE (CHANGEDSINCE), plus the expunged UIDs with QRESYNC (VANISHED). Servers
+   * without CONDSTORE get a UID/flags diff against `knownFlags`, which is only called when
+   * the server cannot report expunges by itself.
+   */
+  async syncMailbox(
+    mailboxPath: string,
+    previous: MailboxSyncState | null,
+    knownFlags: () => Promise<Map<number, string[]>>,
+  ): Promise<MailboxDelta> {
     let lock;
     try {
-      lock = await this.client.getMailboxLock(mailboxPath);
-      const message = await this.client.fetchOne(uid, { 
-        uid: true, flags: true, envelope: true, size: true, bodyStructure: true, internalDate: true 
-      });
-      if (!message) return null;
-
-      let textBody: string | undefined;
-      let htmlBody: string | undefined;
-      const attachments: AttachmentInfo[] = [];
-
-      // Function to find text/plain and text/html parts
-      const findBodyParts = async (part: any, partIDPrefix = '') => {
-        const currentPartID = partIDPrefix ? `${partIDPrefix}.${part.partID}` : part.partID;
-        if (part.type === 'text/plain' && !part.disposition) {
-           const content = await this.client.download(uid, currentPartID);
-           let strContent = '';
-           for await (const chunk of content.content) {
-               strContent += chunk.toString();
-           }
-           textBody = strContent;
-        } else if (part.type === 'text/html' && !part.disposition) {
-           const content = await this.client.download(uid, currentPartID);
-           let strContent = '';
-           for await (const chunk of content.content) {
-               strContent += chunk.toString();
-           }
-           htmlBody = strContent;
-        }
-        // Attachment handling (basic example)
-        if (part.disposition === 'attachment' || (part.filename && part.type !== 'text/plain' && part.type !== 'text/html')) {
-            attachments.push({
-                partID: currentPartID,
-                type: part.type,
-                filename: part.filename || 'untitled',
-                size: part.size,
-                disposition: part.disposition,
-            });
+      lock = await this.lockMailbox(mailboxPath);
+      const mailbox = this.selectedMailbox();
+      const state: MailboxSyncState = {
+        uidValidity: mailbox.uidValidity.toString(),
+        uidNext: mailbox.uidNext,
+        highestModseq: mailbox.noModseq ? undefined : mailbox.highestModseq?.toString(),
+      };
+      const reset = !previous || previous.uidValidity !== state.uidValidity;
+      const since =
+        this.client.enabled.has('CONDSTORE') && state.highestModseq
+          ? previous?.highestModseq
+          : undefined;
+
+      if (!reset && previous && since) {
+        if (
+          previous.highestModseq === state.highestModseq &&
+          previous.uidNext === state.uidNext
+        ) {
+          return { state, reset, changed: [], vanished: [], method: 'unchanged' };
         }
 
-        if (part.childNodes && part.childNodes.length > 0) {
-            for (const childNode of part.childNodes) {
-                await findBodyParts(childNode, currentPartID);
+        const qresync = this.client.enabled.has('QRESYNC');
+        const vanished: number[] = [];
+        const onExpunge = (event: ExpungeEvent) => {
+          if (event.path === mailboxPath && event.vanished && event.uid) vanished.push(event.uid);
+        };
+        const changed: MailboxDelta['changed'] = [];
+        this.client.on('expunge', onExpunge);
+        try {
+          if (mailbox.exists) {
+            for await (const msg of this.client.fetch(
+              '1:*',
+              { uid: true, flags: true },
+              { uid: true, changedSince: BigInt(since) },
+            )) {
+              changed.push({ uid: msg.uid, flags: [...(msg.flags ?? [])] });
             }
+          }
+        } finally {
+          this.client.off('expunge', onExpunge);
         }
-      };
-      
-      if (message.bodyStructure) {
-        if (message.bodyStructure.childNodes && message.bodyStructure.childNodes.length > 0) {
-            for (const part of message.bodyStructure.childNodes) {
-                await findBodyParts(part);
-            }
-        } else { // Single part message
-            await findBodyParts(message.bodyStructure);
+        if (qresync) return { state, reset, changed, vanished, method: 'qresync' };
+
+        // CONDSTORE alone does not report expunges, compare the UIDs instead
+        const current = new Set(mailbox.exists ? await this.allUids() : []);
+        const gone = [...(await knownFlags()).keys()].filter((uid) => !current.has(uid));
+        return { state, reset, changed, vanished: gone, method: 'condstore' };
+      }
+
+      const known = reset ? new Map<number, string[]>() : await knownFlags();
+      const changed: MailboxDelta['changed'] = [];
+      const present = new Set<number>();
+      if (mailbox.exists) {
+        const query = { uid: true, flags: true };
+        for await (const msg of this.client.fetch('1:*', query, { uid: true })) {
+          const flags = [...(msg.flags ?? [])];
+          const before = known.get(msg.uid);
+          present.add(msg.uid);
+          if (!before || before.length !== flags.length || flags.some((f) => !before.includes(f))) {
+            changed.push({ uid: msg.uid, flags });
+          }
+        }
+      }
+      const vanished = [...known.keys()].filter((uid) => !present.has(uid));
+      return { state, reset, changed, vanished, method: 'diff' };
+    } catch (error) {
+      console.error(`IMAP syncMailbox error in ${mailboxPath}:`, error);
+      throw error;
+    } finally {
+      if (lock) lock.release();
+    }
+  }
+
+  async getMailboxStatus(mailboxPath: string): Promise<MailboxStatus> {
+    await this.connectIfNeeded();
+    return toMailboxStatus(await this.client.status(mailboxPath, STATUS_QUERY));
+  }
+
+  /**
+   * STATUS of several mailboxes at once. Servers with LIST-STATUS (RFC 5819, part of
+   * IMAP4rev2) answer for the whole account in a single LIST, otherwise one STATUS is sent per
+   * mailbox, one after another since imapflow keeps a single command in flight. Mailboxes the
+   * server could not report on are missing from the result.
+   */
+  async getMailboxStatuses(mailboxPaths: string[]): Promise<Map<string, MailboxStatus>> {
+    await this.connectIfNeeded();
+    const wanted = new Set(mailboxPaths);
+    const statuses = new Map<string, MailboxStatus>();
+    if (this.supports('LIST-STATUS')) {
+      try {
+        const mailboxes = await this.client.list({ statusQuery: STATUS_QUERY });
+        for (const mailbox of mailboxes) {
+          if (wanted.has(mailbox.path) && mailbox.status) {
+            statuses.set(mailbox.path, toMailboxStatus(mailbox.status));
+          }
         }
+        return statuses;
+      } catch (error) {
+        console.warn('IMAP LIST-STATUS failed, falling back to STATUS:', error);
       }
+    }
 
+    for (const path of wanted) {
+      try {
+        statuses.set(path, toMailboxStatus(await this.client.status(path, STATUS_QUERY)));
+      } catch (error) {
+        // Accounts without e.g. a Junk folder still get the other counts
+        console.warn(
+          `IMAP STATUS failed for ${path}:`,
+          error instanceof Error ? error.message : error,
+        );
+      }
+    }
+    return statuses;
+  }
 
+  // Fetches the whole source, bodies and attachments are read from it by the MIME parser
+  async fetchMessage(
+    mailboxPath: string,
+    uid: string,
+    uidValidity?: string,
+  ): Promise<FullMessage | null> {
+    let lock;
+    try {
+      lock = await this.lockMailbox(mailboxPath, uidValidity);
+      const message = await this.client.fetchOne(
+        uid,
+        { ...ENVELOPE_QUERY, source: true },
+        { uid: true },
+      );
+      if (!message || !message.source) return null;
       return {
-        uid: message.uid,
-        flags: Array.from(message.flags),
-        envelope: { /* map envelope fields as in listMessages */ 
-            date: message.envelope.date || undefined,
-            subject: message.envelope.subject || undefined,
-            from: message.envelope.from?.map(f => ({name: f.name, address: f.address})),
-            to: message.envelope.to?.map(t => ({name: t.name, address: t.address})),
-            cc: message.envelope.cc?.map(c => ({name: c.name, address: c.address})),
-            bcc: message.envelope.bcc?.map(b => ({name: b.name, address: b.address})),
-            messageId: message.envelope.messageId || undefined,
-            inReplyTo: message.envelope.inReplyTo || undefined,
-            references: message.envelope.references || undefined,
-        },
-        size: message.size,
-        bodyStructure: message.bodyStructure, // Keep the raw structure for potential advanced use
-        textBody,
-        htmlBody,
-        attachments,
+        ...toBasicMessageInfo(message, this.selectedMailbox()),
+        mime: parseMime(message.source),
       };
     } catch (error) {
       console.error(`IMAP fetchMessage error for UID ${uid} in ${mailboxPath}:`, error);
@@ -277,28 +720,72 @@ export class ImapService {
       if (lock) lock.release();
     }
   }
-  
-  async downloadAttachment(mailboxPath: string, uid: string, partID: string): Promise<ReadableStream | null> {
-    await this.connectIfNeeded();
+
+  async downloadAttachment(
+    mailboxPath: string,
+    uid: string,
+    partID: string,
+    uidValidity?: string,
+  ): Promise<ReadableStream | null> {
     let lock;
     try {
-      lock = await this.client.getMailboxLock(mailboxPath);
-      const download = await this.client.download(uid, partID);
+      lock = await this.lockMailbox(mailboxPath, uidValidity);
+      const download = await this.client.download(uid, partID, { uid: true });
       return download?.content || null;
     } catch (error) {
-      console.error(`IMAP downloadAttachment error for UID ${uid}, partID ${partID} in ${mailboxPath}:`, error);
+      console.error(
+        `IMAP downloadAttachment error for UID ${uid}, partID ${partID} in ${mailboxPath}:`,
+        error,
+      );
       throw error;
     } finally {
       if (lock) lock.release();
     }
   }
 
-  async setFlags(mailboxPath: string, uidOrRange: string, flags: string[]): Promise<void> {
-    await this.connectIfNeeded();
+  /**
+   * Whether messages in the mailbox accept keywords of our own choosing, which the server
+   * announces with \* in PERMANENTFLAGS. Only reported when the mailbox is opened read-write.
+   */
+  async allowsCustomKeywords(mailboxPath: string): Promise<boolean> {
+    let lock;
+    try {
+      lock = await this.lockMailbox(mailboxPath);
+      return this.selectedMailbox().permanentFlags?.has('\\*') ?? false;
+    } finally {
+      if (lock) lock.release();
+    }
+  }
+
+  // Removes a flag or keyword from every message of the mailbox, returns how many had it
+  async clearFlag(mailboxPath: string, flag: string): Promise<number> {
     let lock;
     try {
-      lock = await this.client.getMailboxLock(mailboxPath);
-      await this.client.messageFlagsAdd(uidOrRange, flags);
+      lock = await this.lockMailbox(mailboxPath);
+      const uids = (await this.client.search({ keyword: flag }, { uid: true })) || [];
+      if (uids.length) await this.client.messageFlagsRemove(uids, [flag], { uid: true });
+      return uids.length;
+    } catch (error) {
+      console.error(`IMAP clearFlag error for ${flag} in ${mailboxPath}:`, error);
+      throw error;
+    } finally {
+      if (lock) lock.release();
+    }
+  }
+
+  async setFlags(
+    mailboxPath: string,
+    uidOrRange: string,
+    flags: string[],
+    uidValidity?: string,
+  ): Promise<void> {
+    let lock;
+    try {
+      lock = await this.lockMailbox(mailboxPath, uidValidity);
+      // imapflow reports a rejected STORE by returning false
+      if (!(await this.client.messageFlagsAdd(uidOrRange, flags, { uid: true }))) {
+        throw new Error(`Could not update flags ${flags.join(' ')} of ${uidOrRange}`);
+      }
     } catch (error) {
       console.error(`IMAP setFlags error in ${mailboxPath}:`, error);
       throw error;
@@ -307,12 +794,19 @@ export class ImapService {
     }
   }
 
-  async unsetFlags(mailboxPath: string, uidOrRange: string, flags: string[]): Promise<void> {
-    await this.connectIfNeeded();
+  async unsetFlags(
+    mailboxPath: string,
+    uidOrRange: string,
+    flags: string[],
+    uidValidity?: string,
+  ): Promise<void> {
     let lock;
     try {
-      lock = await this.client.getMailboxLock(mailboxPath);
-      await this.client.messageFlagsRemove(uidOrRange, flags);
+      lock = await this.lockMailbox(mailboxPath, uidValidity);
+      // imapflow reports a rejected STORE by returning false
+      if (!(await this.client.messageFlagsRemove(uidOrRange, flags, { uid: true }))) {
+        throw new Error(`Could not update flags ${flags.join(' ')} of ${uidOrRange}`);
+      }
     } catch (error) {
       console.error(`IMAP unsetFlags error in ${mailboxPath}:`, error);
       throw error;
@@ -321,22 +815,367 @@ export class ImapService {
     }
   }
 
-  async moveMessage(mailboxPath: string, uid: string, destinationMailboxPath: string): Promise<void> {
+  /**
+   * Moves messages (a UID or UID set) with a single UID MOVE. Without MOVE they are copied and
+   * the originals expunged, but only once the copy succeeded; imapflow's own fallback deletes
+   * them even when the COPY was rejected.
+   */
+  async moveMessage(
+    mailboxPath: string,
+    uid: string,
+    destinationMailboxPath: string,
+    uidValidity?: string,
+  ): Promise<void> {
+    let lock;
+    try {
+      // Note: Ensure destinationMailboxPath exists.
+      lock = await this.lockMailbox(mailboxPath, uidValidity);
+      if (this.supports('MOVE')) {
+        if (!(await this.client.messageMove(uid, destinationMailboxPath, { uid: true }))) {
+          throw new Error(`Could not move ${uid} to ${destinationMailboxPath}`);
+        }
+      } else {
+        if (!(await this.client.messageCopy(uid, destinationMailboxPath, { uid: true }))) {
+          throw new Error(`Could not copy ${uid} to ${destinationMailboxPath}`);
+        }
+        await this.expungeUids(uid);
+      }
+    } catch (error) {
+      console.error(
+        `IMAP moveMessage error from ${mailboxPath} to ${destinationMailboxPath}:`,
+        error,
+      );
+      throw error;
+    } finally {
+      if (lock) lock.release();
+    }
+  }
+
+  /**
+   * Stores a raw RFC 822 message in the mailbox. Without UIDPLUS the server does not report
+   * the new UID, so the message is looked up by its Message-ID instead.
+   */
+  async appendMessage(
+    mailboxPath: string,
+    raw: string | Buffer,
+    flags: string[] = [],
+    messageId?: string,
+  ): Promise<{ mailbox: string; uidValidity: string; uid: number } | null> {
     await this.connectIfNeeded();
+    try {
+      const result = await this.client.append(mailboxPath, raw, flags);
+      if (!result) return null;
+      if (result.uid && result.uidValidity !== undefined) {
+        return {
+          mailbox: result.destination,
+          uidValidity: result.uidValidity.toString(),
+          uid: result.uid,
+        };
+      }
+      if (!messageId) return null;
+
+      let lock;
+      try {
+        lock = await this.lockMailbox(mailboxPath);
+        const uids = await this.client.search(
+          { header: { 'message-id': messageId } },
+          { uid: true },
+        );
+        const uid = uids ? Math.max(0, ...uids) : 0;
+        return uid
+          ? {
+              mailbox: mailboxPath,
+              uidValidity: this.selectedMailbox().uidValidity.toString(),
+              uid,
+            }
+          : null;
+      } finally {
+        if (lock) lock.release();
+      }
+    } catch (error) {
+      console.error(`IMAP appendMessage error in ${mailboxPath}:`, error);
+      throw error;
+    }
+  }
+
+  // Permanently removes messages: sets \Deleted and expunges them, see expungeUids
+  async deleteMessages(
+    mailboxPath: string,
+    uidOrRange: string,
+    uidValidity?: string,
+  ): Promise<void> {
     let lock;
     try {
-      // Note: imapflow's move is UID based. Ensure destinationMailboxPath exists.
-      lock = await this.client.getMailboxLock(mailboxPath);
-      const moveResponse = await this.client.messageMove(uid, destinationMailboxPath);
-      console.log('IMAP message move response:', moveResponse);
+      lock = await this.lockMailbox(mailboxPath, uidValidity);
+      await this.expungeUids(uidOrRange);
     } catch (error) {
-      console.error(`IMAP moveMessage error from ${mailboxPath} to ${destinationMailboxPath}:`, error);
+      console.error(`IMAP deleteMessages error for UID ${uidOrRange} in ${mailboxPath}:`, error);
       throw error;
     } finally {
       if (lock) lock.release();
     }
   }
-  
+
+  async hasCapability(capability: string): Promise<boolean> {
+    await this.connectIfNeeded();
+    return this.client.capabilities.has(capability.toUpperCase());
+  }
+
+  /**
+   * Finds every message in the mailbox that has one of the given ids as its Message-ID,
+   * In-Reply-To or in its References header.
+   */
+  async searchByMessageIds(mailboxPath: string, messageIds: string[]): Promise<BasicMessageInfo[]> {
+    if (!messageIds.length) return [];
+    let lock;
+    try {
+      lock = await this.lockMailbox(mailboxPath);
+      const mailbox = this.selectedMailbox();
+      const uids = new Set<number>();
+      for (let i = 0; i < messageIds.length; i += MESSAGE_ID_SEARCH_CHUNK) {
+        const chunk = messageIds.slice(i, i + MESSAGE_ID_SEARCH_CHUNK);
+        const criteria = chunk.flatMap((id): SearchObject[] => [
+          { header: { 'message-id': id } },
+          { header: { 'in-reply-to': id } },
+          { header: { references: id } },
+        ]);
+        const result = await this.client.search({ or: criteria }, { uid: true });
+        for (const uid of result || []) uids.add(uid);
+      }
+      if (!uids.size) return [];
+
+      const messages: BasicMessageInfo[] = [];
+      for await (const msg of this.client.fetch([...uids].join(','), ENVELOPE_QUERY, {
+        uid: true,
+      })) {
+        messages.push(toBasicMessageInfo(msg, mailbox));
+      }
+      return messages;
+    } catch (error) {
+      console.error(`IMAP searchByMessageIds error in ${mailboxPath}:`, error);
+      throw error;
+    } finally {
+      if (lock) lock.release();
+    }
+  }
+
+  /**
+   * Server side threading with `UID THREAD REFERENCES`, of the whole mailbox or only of the
+   * given UIDs. Returns the UIDs of every conversation, or null when the server does not
+   * advertise THREAD=REFERENCES. Threading sees every message it is given, so callers run it
+   * once per sync or per search rather than for each page.
+   */
+  async threadByReferences(mailboxPath: string, uids?: number[]): Promise<number[][] | null> {
+    if (uids && !uids.length) return [];
+    if (!(await this.hasCapability('THREAD=REFERENCES'))) return null;
+    let lock;
+    try {
+      lock = await this.lockMailbox(mailboxPath);
+      const threads: number[][] = [];
+      const response = await (this.client as unknown as RawImapClient).exec(
+        'UID THREAD',
+        [
+          { type: 'ATOM', value: 'REFERENCES' },
+          { type: 'ATOM', value: 'UTF-8' },
+          ...(uids
+            ? [
+                { type: 'ATOM', value: 'UID' },
+                { type: 'SEQUENCE', value: compactUidSet(uids) },
+              ]
+            : [{ type: 'ATOM', value: 'ALL' }]),
+        ],
+        {
+          untagged: {
+            THREAD: async (untagged) => {
+              for (const node of untagged.attributes ?? []) {
+                const uids = flattenThreadNode(node);
+                if (uids.length) threads.push(uids);
+              }
+            },
+          },
+        },
+      );
+      response.next();
+      return threads;
+    } catch (error) {
+      // Not fatal, callers fall back to client side threading
+      console.warn(`IMAP THREAD failed in ${mailboxPath}, falling back to local threading:`, error);
+      return null;
+    } finally {
+      if (lock) lock.release();
+    }
+  }
+
+  /**
+   * Keeps the mailbox selected (read-only) and reports every message that arrives, is expunged
+   * or has its flags changed by another client, until `signal` is aborted. Waits in IDLE when
+   * the server supports it and polls with NOOP otherwise. IDLE blocks every other command, so
+   * this needs a connection of its own. Rejects when the connection is lost.
+   */
+  async watchMailbox(
+    mailboxPath: string,
+    onChange: (change: MailboxChange) => void,
+    {
+      signal,
+      pollInterval = DEFAULT_POLL_INTERVAL_MS,
+    }: { signal: AbortSignal; pollInterval?: number },
+  ): Promise<void> {
+    await this.connectIfNeeded();
+    const mailbox = await this.client.mailboxOpen(mailboxPath, { readOnly: true });
+    const uidValidity = mailbox.uidValidity.toString();
+
+    // EXPUNGE responses only carry the sequence number, which is the position in this list
+    const uids = mailbox.exists ? (await this.allUids()).sort((a, b) => a - b) : [];
+
+    const report = (type: MailboxChange['type'], uid: number | undefined, flags?: string[]) => {
+      if (uid) onChange({ type, mailbox: mailboxPath, uidValidity, uid, flags });
+    };
+
+    // New messages always get higher UIDs, so searching above the last known one finds them
+    // even when other messages were expunged in the meantime
+    let arrivals = Promise.resolve();
+    const onExists = ({ path }: { path: string }) => {
+      if (path !== mailboxPath) return;
+      arrivals = arrivals
+        .then(async () => {
+          const last = uids.at(-1) ?? 0;
+          const found = await this.client.search({ uid: `${last + 1}:*` }, { uid: true });
+          for (const uid of (found || []).filter((uid) => uid > last).sort((a, b) => a - b)) {
+            uids.push(uid);
+            report('exists', uid);
+          }
+        })
+        .catch((error) => console.error(`IMAP watch error in ${mailboxPath}:`, error));
+    };
+    const onExpunge = (event: ExpungeEvent) => {
+      if (event.path !== mailboxPath) return;
+      if (event.uid) {
+        const index = uids.indexOf(event.uid);
+        if (index >= 0) uids.splice(index, 1);
+        report('expunge', event.uid);
+      } else if (event.seq) {
+        report('expunge', uids.splice(event.seq - 1, 1)[0]);
+      }
+    };
+    const onFlags = (event: FlagsEvent) => {
+      if (event.path !== mailboxPath) return;
+      report('flags', event.uid ?? uids[event.seq - 1], [...event.flags]);
+    };
+    const stop = () => {
+      this.client.logout().catch(() => undefined);
+    };
+
+    this.client.on('exists', onExists);
+    this.client.on('expunge', onExpunge);
+    this.client.on('flags', onFlags);
+    signal.addEventListener('abort', stop, { once: true });
+    try {
+      while (!signal.aborted) {
+        if (!this.client.usable) {
+          throw new Error(`IMAP connection to ${this.config.host} was lost`);
+        }
+        if (this.client.capabilities.has('IDLE')) {
+          await this.client.idle();
+        } else {
+          await this.client.noop();
+          await sleep(pollInterval, signal);
+        }
+      }
+    } finally {
+      this.client.off('exists', onExists);
+      this.client.off('expunge', onExpunge);
+      this.client.off('flags', onFlags);
+      signal.removeEventListener('abort', stop);
+    }
+  }
+
+  /**
+   * Capability check that counts the extensions RFC 9051 folds into IMAP4rev2 (MOVE, UIDPLUS,
+   * LIST-STATUS, ...) as present once IMAP4rev2 is in use, as imapflow does internally.
+   */
+  private supports(capability: string) {
+    const { capabilities, enabled } = this.client;
+    return (
+      capabilities.has(capability) ||
+      enabled.has('IMAP4REV2') ||
+      (capabilities.has('IMAP4rev2') && !capabilities.has('IMAP4rev1'))
+    );
+  }
+
+  /**
+   * Flags messages of the selected mailbox \Deleted and expunges them. UID EXPUNGE (UIDPLUS)
+   * removes exactly these messages. A plain EXPUNGE would also remove whatever else is flagged
+   * \Deleted, e.g. by another client, so without UIDPLUS it is only sent when nothing else is;
+   * otherwise the messages stay flagged until the mailbox is next expunged.
+   */
+  private async expungeUids(uidOrRange: string) {
+    if (!this.supports('UIDPLUS')) {
+      if (!(await this.client.messageFlagsAdd(uidOrRange, ['\\Deleted'], { uid: true }))) {
+        throw new Error(`Could not flag ${uidOrRange} \\Deleted`);
+      }
+      const ours = new Set(expandUidSet(uidOrRange));
+      const flagged = (await this.client.search({ deleted: true }, { uid: true })) || [];
+      if (flagged.some((uid) => !ours.has(uid))) {
+        console.warn(
+          `IMAP server has no UIDPLUS and other messages are flagged \\Deleted, ` +
+            `${uidOrRange} is left flagged until the next expunge`,
+        );
+        return;
+      }
+    }
+    if (!(await this.client.messageDelete(uidOrRange, { uid: true }))) {
+      throw new Error(`Could not expunge ${uidOrRange}`);
+    }
+  }
+
+  private async allUids(): Promise<number[]> {
+    const result = await this.client.search({ all: true }, { uid: true });
+    return result || [];
+  }
+
+  /**
+   * UIDs of the newest `limit` messages matching the query, newest first. UIDs are assigned in
+   * ascending order as messages are added, so they already are the arrival order and make a
+   * stable cursor (SORT ARRIVAL would order by INTERNALDATE, which imported mail can break).
+   * PARTIAL (RFC 9394) lets the server cut the page, plain ESEARCH at least returns the
+   * matches as a compact set instead of one number per message.
+   */
+  private async newestUids(query: SearchObject, limit: number): Promise<number[]> {
+    const returnOptions: EsearchReturnOption[] | undefined = this.client.capabilities.has('PARTIAL')
+      ? [{ partial: `-1:-${limit}` }]
+      : this.client.capabilities.has('ESEARCH')
+        ? ['ALL']
+        : undefined;
+    const result = returnOptions
+      ? await this.client.search(query, { uid: true, returnOptions })
+      : await this.client.search(query, { uid: true });
+    if (!result) return [];
+    const uids = Array.isArray(result)
+      ? result
+      : expandUidSet(result.partial?.messages ?? result.all);
+    return uids.sort((a, b) => b - a).slice(0, limit);
+  }
+
+  /**
+   * Selects the mailbox and, when a UIDVALIDITY is given, makes sure the mailbox has not been
+   * renumbered since the UIDs were handed out. The caller must release the returned lock.
+   */
+  private async lockMailbox(mailboxPath: string, uidValidity?: string) {
+    await this.connectIfNeeded();
+    const lock = await this.client.getMailboxLock(mailboxPath);
+    const current = this.selectedMailbox().uidValidity.toString();
+    if (uidValidity !== undefined && current !== uidValidity) {
+      lock.release();
+      throw new StaleUidValidityError(mailboxPath, uidValidity, current);
+    }
+    return lock;
+  }
+
+  private selectedMailbox() {
+    if (!this.client.mailbox) throw new Error('No IMAP mailbox selected');
+    return this.client.mailbox;
+  }
+
   private async connectIfNeeded(): Promise<void> {
     if (!this.client.usable || this.client.state === this.client.states.LOGOUT) {
       console.log('IMAP client not connected, attempting to connect...');
@@ -0,0 +1,548 @@
+import { parseAddressList, parseFrom, wasSentWithTLS } from '../email-utils';
+import type { Label, ParsedMessage, Sender } from '../../types';
+import * as he from 'he';
+
+// MIME parser shared by IMAP and POP3, working on the raw RFC 5322 source so a message reads
+// the same whichever protocol fetched it. Bodies are decoded from their transfer encoding and
+// charset, headers from RFC 2047 encoded-words, and images referenced with cid: are inlined
+// into the HTML. Parts are numbered like IMAP body sections (1, 2.1, ...), so an attachment
+// can still be downloaded on its own over IMAP.
+
+export interface MimeHeader {
+  name: string;
+  value: string;
+}
+
+export interface MimeAttachment {
+  // IMAP section number, with a suffix for the files unpacked from a winmail.dat
+  partId: string;
+  filename: string;
+  mimeType: string;
+  contentId?: string;
+  content: Buffer;
+  headers: MimeHeader[];
+}
+
+export interface MimeMessage {
+  headers: MimeHeader[];
+  text?: string;
+  html?: string;
+  attachments: MimeAttachment[];
+}
+
+interface MimePart {
+  id: string;
+  headers: MimeHeader[];
+  type: string;
+  params: Record<string, string>;
+  disposition?: string;
+  dispositionParams: Record<string, string>;
+  // Still transfer-encoded, as a latin1 string so every byte maps to one character
+  body: string;
+  children: MimePart[];
+}
+
+interface Collected {
+  text: string[];
+  html: string[];
+  attachments: MimeAttachment[];
+}
+
+const ENCODED_WORD = /=\?([^?\s]+)\?([BbQq])\?([^?\s]*)\?=/g;
+
+// A run of encoded-words, the whitespace between them is not part of the text (RFC 2047 6.2)
+const ENCODED_WORD_RUN = /=\?[^?\s]+\?[BbQq]\?[^?\s]*\?=(?:\s*=\?[^?\s]+\?[BbQq]\?[^?\s]*\?=)*/g;
+
+// --- Decoding ---
+
+/**
+ * Decodes bytes in the given charset. Labels are resolved like a browser does, so aliases
+ * such as latin1 or ks_c_5601-1987 work; charsets TextDecoder does not know (UTF-7, x-unknown)
+ * fall back to UTF-8.
+ */
+const decodeCharset = (bytes: Uint8Array, charset?: string) => {
+  const label = (charset || 'utf-8').trim().replace(/^"|"$/g, '');
+  try {
+    return new TextDecoder(label).decode(bytes);
+  } catch {
+    return new TextDecoder().decode(bytes);
+  }
+};
+
+// Header bytes outside ASCII are UTF-8 (RFC 6532) when they decode as such, latin1 otherwise
+const decodeRawHeader = (value: string) => {
+  if (!/[\x80-\xff]/.test(value)) return value;
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(Buffer.from(value, 'latin1'));
+  } catch {
+    return value;
+  }
+};
+
+const decodeQuotedPrintable = (text: string) =>
+  Buffer.from(
+    text
+      .replace(/[ \t]+(?=\r?\n|$)/g, '')
+      .replace(/=\r?\n/g, '')
+      .replace(/=([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))),
+    'latin1',
+  );
+
+const decodeTransfer = (body: string, encoding = '') => {
+  switch (encoding.trim().toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.replace(/[^A-Za-z0-9+/=]/g, ''), 'base64');
+    case 'quoted-printable':
+      return decodeQuotedPrintable(body);
+    default:
+      return Buffer.from(body, 'latin1');
+  }
+};
+
+/**
+ * Decodes RFC 2047 encoded-words. Adjacent words in the same charset are decoded together,
+ * as senders split multi-byte characters across them.
+ */
+export const decodeWords = (text: string) =>
+  text.replace(ENCODED_WORD_RUN, (run) => {
+    const words = [...run.matchAll(ENCODED_WORD)].map(([, charset, encoding, encoded]) => ({
+      // RFC 2231 allows a language after the charset, utf-8*en
+      charset: charset!.split('*')[0]!.toLowerCase(),
+      bytes:
+        encoding!.toUpperCase() === 'B'
+          ? Buffer.from(encoded!, 'base64')
+          : decodeQuotedPrintable(encoded!.replace(/_/g, ' ')),
+    }));
+    let decoded = '';
+    for (let i = 0; i < words.length; ) {
+      let j = i + 1;
+      while (j < words.length && words[j]!.charset === words[i]!.charset) j++;
+      const bytes = Buffer.concat(words.slice(i, j).map((word) => word.bytes));
+      decoded += decodeCharset(bytes, words[i]!.charset);
+      i = j;
+    }
+    return decoded;
+  });
+
+// --- Headers ---
+
+const parseHeaderBlock = (block: string): MimeHeader[] =>
+  block
+    .replace(/\r?\n(?=[ \t])/g, '')
+    .split(/\r?\n/)
+    .flatMap((line) => {
+      const colon = line.indexOf(':');
+      if (colon < 1) return [];
+      return [
+        { name: line.slice(0, colon).trim(), value: decodeRawHeader(line.slice(colon + 1).trim()) },
+      ];
+    });
+
+const headerValue = (headers: MimeHeader[], name: string) =>
+  headers.find((header) => header.name.toLowerCase() === name)?.value;
+
+const headerValues = (headers: MimeHeader[], name: string) =>
+  headers.filter((header) => header.name.toLowerCase() === name).map((header) => header.value);
+
+/**
+ * Splits a structured header such as Content-Type into its value and parameters. Parameters
+ * split with RFC 2231 continuations (filename*0*=utf-8''...; filename*1*=...) are joined and
+ * decoded, and encoded-words in quoted values are decoded too since many clients send them.
+ */
+const parseParams = (header = '') => {
+  const semicolon = header.indexOf(';');
+  const value = (semicolon === -1 ? header : header.slice(0, semicolon)).trim().toLowerCase();
+  const segments = new Map<string, { index: number; encoded: boolean; text: string }[]>();
+  const PARAM = /;\s*([^=\s;]+)\s*=\s*("(?:[^"\\]|\\.)*"|[^;]*)/g;
+  for (const [, key, raw] of header.matchAll(PARAM)) {
+    const [, name, index, star] = /^(.+?)(?:\*(\d+))?(\*)?$/.exec(key!.toLowerCase())!;
+    const text = raw!.startsWith('"') ? raw!.slice(1, -1).replace(/\\(.)/g, '$1') : raw!.trim();
+    const list = segments.get(name!) ?? [];
+    list.push({ index: Number(index ?? 0), encoded: !!star, text });
+    segments.set(name!, list);
+  }
+
+  const params: Record<string, string> = {};
+  for (const [name, list] of segments) {
+    list.sort((a, b) => a.index - b.index);
+    if (!list.some((segment) => segment.encoded)) {
+      params[name] = decodeWords(list.map((segment) => segment.text).join(''));
+      continue;
+    }
+    let charset: string | undefined;
+    const bytes = list.map((segment, i) => {
+      if (!segment.encoded) return Buffer.from(segment.text, 'latin1');
+      let text = segment.text;
+      if (i === 0) {
+        const [prefix, , ...rest] = text.split("'");
+        if (rest.length) {
+          charset = prefix;
+          text = rest.join("'");
+        }
+      }
+      return Buffer.from(
+        text.replace(/%([0-9A-Fa-f]{2})/g, (_, hex: string) =>
+          String.fromCharCode(parseInt(hex, 16)),
+        ),
+        'latin1',
+      );
+    });
+    params[name] = decodeCharset(Buffer.concat(bytes), charset);
+  }
+  return { value, params };
+};
+
+// --- Structure ---
+
+const splitHeaders = (source: string) => {
+  if (/^\r?\n/.test(source)) return { headers: [], body: source.replace(/^\r?\n/, '') };
+  const end = /\r?\n\r?\n/.exec(source);
+  if (!end) return { headers: parseHeaderBlock(source), body: '' };
+  return {
+    headers: parseHeaderBlock(source.slice(0, end.index)),
+    body: source.slice(end.index + end[0].length),
+  };
+};
+
+/**
+ * The body parts between the boundary delimiters, without the preamble and epilogue. A body
+ * cut off before its closing delimiter keeps the parts found so far.
+ */
+const splitMultipart = (body: string, boundary: string) => {
+  const text = `\r\n${body}`;
+  const marker = `\n--${boundary}`;
+  const parts: string[] = [];
+  let start = -1;
+  let position = text.indexOf(marker);
+  while (position !== -1) {
+    const lineEnd = text.indexOf('\n', position + marker.length);
+    const rest = text.slice(position + marker.length, lineEnd === -1 ? undefined : lineEnd);
+    const closing = rest.startsWith('--');
+    // Lines that merely start with the boundary are content
+    if (closing || /^[ \t]*\r?$/.test(rest)) {
+      if (start !== -1) parts.push(text.slice(start, position).replace(/\r$/, ''));
+      if (closing || lineEnd === -1) return parts;
+      start = lineEnd + 1;
+    }
+    position = text.indexOf(marker, position + marker.length);
+  }
+  if (start !== -1) parts.push(text.slice(start));
+  return parts;
+};
+
+const parsePart = (source: string, id: string, defaultType = 'text/plain'): MimePart => {
+  const { headers, body } = splitHeaders(source);
+  const contentType = parseParams(headerValue(headers, 'content-type') || defaultType);
+  const disposition = parseParams(headerValue(headers, 'content-disposition'));
+  const part: MimePart = {
+    // A message that is not multipart has its body as section 1
+    id: id || '1',
+    headers,
+    type: contentType.value || defaultType,
+    params: contentType.params,
+    disposition: disposition.value || undefined,
+    dispositionParams: disposition.params,
+    body,
+    children: [],
+  };
+  if (part.type.startsWith('multipart/') && part.params.boundary) {
+    // Parts of a digest are messages unless they say otherwise (RFC 2046 5.1.5)
+    const childType = part.type === 'multipart/digest' ? 'message/rfc822' : 'text/plain';
+    part.children = splitMultipart(body, part.params.boundary).map((child, i) =>
+      parsePart(child, id ? `${id}.${i + 1}` : `${i + 1}`, childType),
+    );
+  }
+  return part;
+};
+
+// --- TNEF (winmail.dat) ---
+
+const TNEF_SIGNATURE = 0x223e9f78;
+const TNEF_LEVEL_ATTACHMENT = 2;
+const ATT_ATTACH_DATA = 0x800f;
+const ATT_ATTACH_TITLE = 0x8010;
+const ATT_ATTACH_REND_DATA = 0x9002;
+const ATT_ATTACHMENT = 0x9005;
+const PR_ATTACH_LONG_FILENAME = 0x3707;
+const PR_ATTACH_MIME_TAG = 0x370e;
+
+// Sizes of the fixed-length MAPI property types, variable-length ones are counted and padded
+const MAPI_FIXED_SIZES: Record<number, number> = {
+  0x0002: 4,
+  0x0003: 4,
+  0x0004: 4,
+  0x0005: 8,
+  0x0006: 8,
+  0x0007: 8,
+  0x000a: 4,
+  0x000b: 4,
+  0x0014: 8,
+  0x0040: 8,
+  0x0048: 16,
+};
+const MAPI_STRING = 0x001e;
+const MAPI_UNICODE = 0x001f;
+const MAPI_VARIABLE = new Set([MAPI_STRING, MAPI_UNICODE, 0x000d, 0x0102]);
+const MAPI_MULTIPLE = 0x1000;
+
+/**
+ * Reads the string properties of an attAttachment attribute (MS-OXTNEF 2.1.3.4), which hold
+ * the long file name where attAttachTitle only has the 8.3 one. Stops at the first property
+ * it cannot size.
+ */
+const readMapiStrings = (data: Buffer) => {
+  const strings = new Map<number, string>();
+  let offset = 4;
+  for (let count = data.readUInt32LE(0); count > 0 && offset + 4 <= data.length; count--) {
+    const type = data.readUInt16LE(offset);
+    const id = data.readUInt16LE(offset + 2);
+    offset += 4;
+    if (id >= 0x8000) {
+      // Named property: GUID, kind and then an id or a padded name
+      const kind = data.readUInt32LE(offset + 16);
+      offset += 20;
+      offset += kind === 0 ? 4 : 4 + Math.ceil(data.readUInt32LE(offset) / 4) * 4;
+    }
+    const baseType = type & ~MAPI_MULTIPLE;
+    const multiple = (type & MAPI_MULTIPLE) !== 0 || MAPI_VARIABLE.has(baseType);
+    const values = multiple ? data.readUInt32LE(offset) : 1;
+    if (multiple) offset += 4;
+    for (let i = 0; i < values; i++) {
+      if (MAPI_VARIABLE.has(baseType)) {
+        const length = data.readUInt32LE(offset);
+        const value = data.subarray(offset + 4, offset + 4 + length);
+        if (baseType === MAPI_STRING || baseType === MAPI_UNICODE) {
+          const text = value.toString(baseType === MAPI_UNICODE ? 'utf16le' : 'latin1');
+          strings.set(id, text.replace(/\0+$/, ''));
+        }
+        offset += 4 + Math.ceil(length / 4) * 4;
+      } else if (MAPI_FIXED_SIZES[baseType]) {
+        offset += MAPI_FIXED_SIZES[baseType];
+      } else {
+        return strings;
+      }
+    }
+  }
+  return strings;
+};
+
+/**
+ * The files inside a TNEF stream, as sent by Outlook as winmail.dat. Message-level attributes
+ * (the RTF body, meeting details) are skipped, only attachments are of use to other clients.
+ */
+const parseTnef = (data: Buffer) => {
+  const files: { filename?: string; mimeType?: string; content?: Buffer }[] = [];
+  if (data.length < 6 || data.readUInt32LE(0) !== TNEF_SIGNATURE) return [];
+  let offset = 6;
+  try {
+    while (offset + 9 <= data.length) {
+      const level = data[offset];
+      const id = data.readUInt32LE(offset + 1) & 0xffff;
+      const length = data.readUInt32LE(offset + 5);
+      const value = data.subarray(offset + 9, offset + 9 + length);
+      // Attribute header, value and a two byte checksum
+      offset += 9 + length + 2;
+      if (level !== TNEF_LEVEL_ATTACHMENT) continue;
+      if (id === ATT_ATTACH_REND_DATA) files.push({});
+      const file = files[files.length - 1];
+      if (!file) continue;
+      if (id === ATT_ATTACH_TITLE) {
+        file.filename ??= value.toString('latin1').replace(/\0[\s\S]*$/, '');
+      } else if (id === ATT_ATTACH_DATA) {
+        file.content = Buffer.from(value);
+      } else if (id === ATT_ATTACHMENT) {
+        const strings = readMapiStrings(value);
+        file.filename = strings.get(PR_ATTACH_LONG_FILENAME) || file.filename;
+        file.mimeType = strings.get(PR_ATTACH_MIME_TAG);
+      }
+    }
+  } catch (error) {
+    // A truncated stream still yields the files read before the damage
+    console.warn('Could not read the whole TNEF attachment:', error);
+  }
+  return files.filter((file) => file.content);
+};
+
+// --- Bodies and attachments ---
+
+const isTnef = (part: MimePart, filename?: string) =>
+  part.type === 'application/ms-tnef' ||
+  part.type === 'application/vnd.ms-tnef' ||
+  filename?.toLowerCase() === 'winmail.dat';
+
+const attachmentOf = (
+  part: MimePart,
+  content: Buffer,
+  filename = `attachment-${part.id}`,
+): MimeAttachment => ({
+  partId: part.id,
+  filename,
+  mimeType: part.type,
+  contentId: headerValue(part.headers, 'content-id')?.replace(/^<|>$/g, '') || undefined,
+  content,
+  headers: part.headers,
+});
+
+const collect = (part: MimePart, into: Collected) => {
+  if (part.type === 'multipart/alternative') {
+    // The last alternative the part understands is the preferred one (RFC 2046 5.1.4)
+    const alternatives = part.children.map((child) => {
+      const collected: Collected = { text: [], html: [], attachments: [] };
+      collect(child, collected);
+      return collected;
+    });
+    const html = alternatives.findLast((alternative) => alternative.html.length);
+    const text = alternatives.findLast((alternative) => alternative.text.length);
+    if (html) into.html.push(...html.html);
+    if (text) into.text.push(...text.text);
+    alternatives.forEach((alternative) => into.attachments.push(...alternative.attachments));
+    return;
+  }
+  if (part.children.length) {
+    part.children.forEach((child) => collect(child, into));
+    return;
+  }
+
+  const content = decodeTransfer(part.body, headerValue(part.headers, 'content-transfer-encoding'));
+  const filename = part.dispositionParams.filename || part.params.name;
+  const isBody =
+    (part.type === 'text/plain' || part.type === 'text/html') &&
+    part.disposition !== 'attachment' &&
+    !filename;
+  if (isBody) {
+    const text = decodeCharset(content, part.params.charset);
+    (part.type === 'text/html' ? into.html : into.text).push(text);
+  } else if (part.type === 'message/rfc822' || part.type === 'message/global') {
+    const subject = headerValue(splitHeaders(content.toString('latin1')).headers, 'subject');
+    const name = filename || `${decodeWords(subject || '').trim() || 'message'}.eml`;
+    into.attachments.push(attachmentOf(part, content, name));
+  } else if (isTnef(part, filename)) {
+    const files = parseTnef(content);
+    if (!files.length) into.attachments.push(attachmentOf(part, content, filename));
+    files.forEach((file, i) =>
+      into.attachments.push({
+        ...attachmentOf(part, file.content!, file.filename || `attachment-${i + 1}`),
+        partId: `${part.id}.tnef${i + 1}`,
+        mimeType: file.mimeType || 'application/octet-stream',
+      }),
+    );
+  } else {
+    into.attachments.push(attachmentOf(part, content, filename));
+  }
+};
+
+/**
+ * Replaces cid: references with data URLs of the parts they point at. Those parts are part
+ * of the body and are no longer listed as attachments.
+ */
+const inlineImages = (html: string, attachments: MimeAttachment[]) => {
+  const byContentId = new Map(
+    attachments.flatMap((attachment) =>
+      attachment.contentId ? [[attachment.contentId.toLowerCase(), attachment] as const] : [],
+    ),
+  );
+  const embedded = new Set<MimeAttachment>();
+  const inlined = html.replace(/cid:([^"'\s)>]+)/gi, (reference, contentId: string) => {
+    let key = contentId;
+    try {
+      key = decodeURIComponent(contentId);
+    } catch {}
+    const attachment = byContentId.get(key.toLowerCase());
+    if (!attachment) return reference;
+    embedded.add(attachment);
+    return `data:${attachment.mimeType};base64,${attachment.content.toString('base64')}`;
+  });
+  return {
+    html: inlined,
+    attachments: attachments.filter((attachment) => !embedded.has(attachment)),
+  };
+};
+
+/**
+ * Parses a raw message. POP3 hands messages over as a string, which is taken to be UTF-8,
+ * IMAP as the bytes of the source.
+ */
+export const parseMime = (source: Buffer | string): MimeMessage => {
+  const bytes = typeof source === 'string' ? Buffer.from(source, 'utf8') : source;
+  const root = parsePart(bytes.toString('latin1'), '');
+  const collected: Collected = { text: [], html: [], attachments: [] };
+  collect(root, collected);
+  const text = collected.text.length ? collected.text.join('\n') : undefined;
+  if (!collected.html.length)
+    return { headers: root.headers, text, attachments: collected.attachments };
+  const { html, attachments } = inlineImages(collected.html.join('\n'), collected.attachments);
+  return { headers: root.headers, text, html, attachments };
+};
+
+// --- ParsedMessage ---
+
+const decodeSenders = (senders: Sender[]) =>
+  senders.map((sender) => ({ ...sender, name: sender.name && decodeWords(sender.name) }));
+
+const addressHeader = (headers: MimeHeader[], name: string) => {
+  const values = headerValues(headers, name).filter((value) => value.trim());
+  return values.length ? decodeSenders(values.flatMap((value) => parseAddressList(value))) : null;
+};
+
+const messageDate = (headers: MimeHeader[], fallback?: Date) => {
+  const date = new Date(headerValue(headers, 'date') ?? NaN);
+  return Number.isNaN(date.getTime()) ? (fallback ?? new Date()) : date;
+};
+
+const snippet = (message: MimeMessage) =>
+  he.decode(
+    (message.text ?? (message.html ?? '').replace(/<(style|script)[\s\S]*?<\/\1>|<[^>]*>/gi, ' '))
+      .replace(/\s+/g, ' ')
+      .trim()
+      .slice(0, 200),
+  );
+
+/**
+ * Fills a ParsedMessage from a parsed source. The protocol supplies what the source does not
+ * know: the id, flags and, for messages without a usable Date header, when it arrived.
+ */
+export const toParsedMessage = (
+  message: MimeMessage,
+  details: { id: string; threadId: string; tags: Label[]; unread: boolean; receivedOn?: Date },
+): ParsedMessage => {
+  const { headers } = message;
+  const header = (name: string) => headerValue(headers, name)?.replace(/\s+/g, ' ') || undefined;
+  const from = header('from');
+  const sender = from ? parseFrom(from) : { name: '', email: '' };
+  const html = message.html ?? he.encode(message.text ?? '').replace(/\n/g, '<br>');
+
+  return {
+    id: details.id,
+    threadId: details.threadId,
+    title: snippet(message),
+    subject: decodeWords(header('subject') ?? '') || '(no subject)',
+    tags: details.tags,
+    sender: { ...sender, name: decodeWords(sender.name) },
+    to: addressHeader(headers, 'to') ?? [],
+    cc: addressHeader(headers, 'cc'),
+    bcc: addressHeader(headers, 'bcc'),
+    tls:
+      wasSentWithTLS(headerValues(headers, 'received')) ||
+      headers.some((h) => h.name.toLowerCase() === 'tls-report'),
+    listUnsubscribe: header('list-unsubscribe'),
+    listUnsubscribePost: header('list-unsubscribe-post'),
+    receivedOn: messageDate(headers, details.receivedOn).toISOString(),
+    unread: details.unread,
+    body: '',
+    processedHtml: '',
+    blobUrl: '',
+    decodedBody: html,
+    messageId: header('message-id'),
+    inReplyTo: header('in-reply-to'),
+    references: header('references'),
+    replyTo: header('reply-to') && decodeWords(header('reply-to')!),
+    attachments: message.attachments.map((attachment) => ({
+      attachmentId: attachment.partId,
+      filename: attachment.filename,
+      mimeType: attachment.mimeType,
+      size: attachment.content.length,
+      body: attachment.content.toString('base64'),
+      headers: attachment.headers,
+    })),
+  };
+};
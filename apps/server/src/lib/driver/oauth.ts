@@ -0,0 +1,145 @@
+import { StandardizedError } from './utils';
+
+// OAuth 2.0 logins for generic IMAP/SMTP accounts, for providers that turned off passwords.
+// The services only ask a token provider for an access token and log in with it using SASL
+// XOAUTH2 or OAUTHBEARER (RFC 7628), so any OAuth capable host works with a provider of its own.
+
+export interface OAuthTokenProvider {
+  // A valid access token. `force` refreshes it even when it has not expired, after a server
+  // rejected it.
+  getAccessToken(force?: boolean): Promise<string>;
+}
+
+export interface OAuthToken {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt?: Date;
+}
+
+export interface OAuthTokenEndpoint {
+  tokenUrl: string;
+  clientId: string;
+  clientSecret?: string;
+}
+
+export type SaslOAuthMechanism = 'XOAUTH2' | 'OAUTHBEARER';
+
+// Token endpoints of the providers connections can name in `oauthProvider`, the client
+// credentials come from the <ENV>_CLIENT_ID and <ENV>_CLIENT_SECRET variables
+export const OAUTH_PROVIDERS = {
+  google: { tokenUrl: 'https://oauth2.googleapis.com/token', env: 'GOOGLE' },
+  microsoft: {
+    tokenUrl: 'https://login.microsoftonline.com/common/oauth2/v2.0/token',
+    env: 'MICROSOFT',
+  },
+  yahoo: { tokenUrl: 'https://api.login.yahoo.com/oauth2/get_token', env: 'YAHOO' },
+  aol: { tokenUrl: 'https://api.login.aol.com/oauth2/get_token', env: 'AOL' },
+} as const;
+
+export type OAuthProviderId = keyof typeof OAUTH_PROVIDERS;
+
+// Tokens issued outside the app (app tokens, service accounts) are used as they are
+export const STATIC_OAUTH_PROVIDER = 'static';
+
+export const isOAuthProviderId = (id: string): id is OAuthProviderId => id in OAUTH_PROVIDERS;
+
+// Tokens are refreshed this long before they expire, so they do not run out mid-session
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+const oauthError = (message: string, code: string) =>
+  new StandardizedError(Object.assign(new Error(message), { code }), 'refreshAccessToken');
+
+/**
+ * Hands out the stored access token and refreshes it with the refresh token once it expired.
+ * Without an endpoint the token is never refreshed. `onRefresh` persists the new tokens,
+ * concurrent callers share one refresh.
+ */
+export class RefreshingTokenProvider implements OAuthTokenProvider {
+  private refreshing?: Promise<string>;
+
+  constructor(
+    private current: OAuthToken,
+    private endpoint?: OAuthTokenEndpoint,
+    private onRefresh?: (token: OAuthToken) => Promise<void>,
+  ) {}
+
+  get token(): OAuthToken {
+    return this.current;
+  }
+
+  async getAccessToken(force = false): Promise<string> {
+    const expired =
+      !!this.current.expiresAt && this.current.expiresAt.getTime() - EXPIRY_MARGIN_MS <= Date.now();
+    if (this.current.accessToken && !expired && !force) return this.current.accessToken;
+    this.refreshing ??= this.refresh().finally(() => {
+      this.refreshing = undefined;
+    });
+    return this.refreshing;
+  }
+
+  private async refresh(): Promise<string> {
+    if (!this.endpoint || !this.current.refreshToken) {
+      throw oauthError(
+        'The access token was rejected or expired and cannot be refreshed, reconnect the account',
+        'invalid_grant',
+      );
+    }
+    const response = await fetch(this.endpoint.tokenUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: 'application/json',
+      },
+      body: new URLSearchParams({
+        grant_type: 'refresh_token',
+        refresh_token: this.current.refreshToken,
+        client_id: this.endpoint.clientId,
+        ...(this.endpoint.clientSecret && { client_secret: this.endpoint.clientSecret }),
+      }),
+    });
+    const body = (await response.json().catch(() => ({}))) as {
+      access_token?: string;
+      refresh_token?: string;
+      expires_in?: number;
+      error?: string;
+      error_description?: string;
+    };
+    if (!response.ok || !body.access_token) {
+      throw oauthError(
+        body.error_description ?? body.error ?? `The token endpoint answered ${response.status}`,
+        body.error ?? 'OAUTH_REFRESH_FAILED',
+      );
+    }
+
+    // Providers that rotate refresh tokens send a new one, the others keep the old one valid
+    this.current = {
+      accessToken: body.access_token,
+      refreshToken: body.refresh_token ?? this.current.refreshToken,
+      expiresAt: body.expires_in ? new Date(Date.now() + body.expires_in * 1000) : undefined,
+    };
+    await this.onRefresh?.(this.current).catch((error) =>
+      console.warn('Failed to save the refreshed OAuth token:', error),
+    );
+    return this.current.accessToken;
+  }
+}
+
+/**
+ * The base64 initial response of a SASL OAuth login. XOAUTH2 is Google's and Microsoft's
+ * format, OAUTHBEARER the standard one, which also names the server it is meant for.
+ */
+export const saslOAuthResponse = (
+  mechanism: SaslOAuthMechanism,
+  {
+    user,
+    accessToken,
+    host,
+    port,
+  }: { user: string; accessToken: string; host: string; port: number },
+) => {
+  const fields =
+    mechanism === 'XOAUTH2'
+      ? [`user=${user}`, `auth=Bearer ${accessToken}`, '', '']
+      : [`n,a=${user},`, `host=${host}`, `port=${port}`, `auth=Bearer ${accessToken}`, '', ''];
+  return Buffer.from(fields.join('\x01'), 'utf8').toString('base64');
+};
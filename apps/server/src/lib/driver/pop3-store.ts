@@ -0,0 +1,360 @@
+import {
+  and,
+  count,
+  desc,
+  eq,
+  gt,
+  gte,
+  ilike,
+  inArray,
+  lt,
+  lte,
+  not,
+  or,
+  sql,
+  type Column,
+  type SQL,
+} from 'drizzle-orm';
+import { parseMime, toParsedMessage } from './mime-parser';
+import { pop3Message } from '@zero/db/schema';
+import type { SearchObject } from 'imapflow';
+import { StandardizedError } from './utils';
+import type { DB } from '@zero/db';
+
+// Local mailbox of POP3 connections. POP3 only lets a client download and delete messages,
+// so everything else a mailbox needs (read state, labels, Archive and Trash) is kept here, in
+// the same terms the IMAP path uses: app folder ids, \Seen and \Flagged, label keywords.
+//
+// Message numbers change with every deletion, messages are identified by their UIDL:
+//
+//   pop3.<base64url(uidl)>
+
+export interface Pop3Retention {
+  // false deletes messages from the server once they are stored here
+  leaveOnServer: boolean;
+  // Deletes messages left on the server this many days after they were downloaded
+  deleteAfterDays?: number;
+}
+
+export type StoredPop3Message = typeof pop3Message.$inferSelect;
+
+export type Pop3MessageChange = Partial<
+  Pick<StoredPop3Message, 'folder' | 'seen' | 'flagged'> & {
+    addKeywords: string[];
+    removeKeywords: string[];
+  }
+>;
+
+const ID_PREFIX = 'pop3';
+
+export const encodePop3Id = (uidl: string) =>
+  [ID_PREFIX, Buffer.from(uidl, 'utf8').toString('base64url')].join('.');
+
+export const decodePop3Id = (id: string): string => {
+  const bare = id.startsWith('thread:') ? id.substring(7) : id;
+  const [prefix, uidl, ...rest] = bare.split('.');
+  if (prefix !== ID_PREFIX || !uidl || rest.length) {
+    throw new StandardizedError(
+      Object.assign(new Error(`Invalid message id: ${id}`), { code: 'INVALID_ID' }),
+      'decodePop3Id',
+      { id },
+    );
+  }
+  return Buffer.from(uidl, 'base64url').toString('utf8');
+};
+
+// Page tokens point below the last message of the previous page, newest first
+const encodeCursor = (message: Pick<StoredPop3Message, 'receivedAt' | 'uidl'>) =>
+  Buffer.from(JSON.stringify([message.receivedAt.getTime(), message.uidl]), 'utf8').toString(
+    'base64url',
+  );
+
+const decodeCursor = (cursor: string) => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    parsed = null;
+  }
+  if (!Array.isArray(parsed) || !Number.isInteger(parsed[0]) || typeof parsed[1] !== 'string') {
+    throw new StandardizedError(
+      Object.assign(new Error(`Invalid page token: ${cursor}`), { code: 'INVALID_CURSOR' }),
+      'decodePop3Cursor',
+      { cursor },
+    );
+  }
+  return { receivedAt: new Date(parsed[0]), uidl: parsed[1] };
+};
+
+const contains = (column: Column, value: string) =>
+  ilike(column, `%${value.replace(/[\\%_]/g, '\\$&')}%`);
+
+const hasKeyword = (keyword: string) =>
+  sql`${pop3Message.keywords} @> ${JSON.stringify([keyword])}::jsonb`;
+
+/**
+ * Translates the SEARCH criteria built by toImapSearch into a condition on the stored
+ * messages, so POP3 accounts understand the same queries. Addresses, subjects and snippets are
+ * matched on their columns; body text and headers on the raw source, which misses text inside
+ * base64 parts like a server without a full text index would.
+ */
+export const searchCondition = (criteria: SearchObject): SQL | undefined => {
+  const conditions: (SQL | undefined)[] = [];
+  for (const [key, value] of Object.entries(criteria)) {
+    if (value === undefined) continue;
+    switch (key) {
+      case 'seen':
+        conditions.push(eq(pop3Message.seen, value as boolean));
+        break;
+      case 'flagged':
+        conditions.push(eq(pop3Message.flagged, value as boolean));
+        break;
+      case 'draft':
+        conditions.push(value ? sql`false` : undefined);
+        break;
+      case 'from':
+        conditions.push(contains(pop3Message.sender, value as string));
+        break;
+      case 'to':
+      case 'cc':
+      case 'bcc':
+        conditions.push(contains(pop3Message.recipients, value as string));
+        break;
+      case 'subject':
+        conditions.push(contains(pop3Message.subject, value as string));
+        break;
+      case 'body':
+        conditions.push(contains(pop3Message.source, value as string));
+        break;
+      case 'text':
+        conditions.push(
+          or(
+            contains(pop3Message.subject, value as string),
+            contains(pop3Message.sender, value as string),
+            contains(pop3Message.recipients, value as string),
+            contains(pop3Message.source, value as string),
+          ),
+        );
+        break;
+      case 'since':
+        conditions.push(gte(pop3Message.receivedAt, new Date(value as Date)));
+        break;
+      case 'before':
+        conditions.push(lt(pop3Message.receivedAt, new Date(value as Date)));
+        break;
+      case 'larger':
+        conditions.push(gt(pop3Message.size, value as number));
+        break;
+      case 'smaller':
+        conditions.push(lt(pop3Message.size, value as number));
+        break;
+      case 'keyword':
+        conditions.push(hasKeyword(value as string));
+        break;
+      case 'unKeyword':
+        conditions.push(not(hasKeyword(value as string)));
+        break;
+      case 'header':
+        for (const [name, headerValue] of Object.entries(value as Record<string, string>)) {
+          conditions.push(
+            name === 'content-type' && headerValue === 'multipart/mixed'
+              ? eq(pop3Message.hasAttachments, true)
+              : contains(pop3Message.source, `${name}: ${headerValue}`),
+          );
+        }
+        break;
+      case 'or':
+        conditions.push(or(...(value as SearchObject[]).map(searchCondition)));
+        break;
+      case 'not': {
+        const condition = searchCondition(value as SearchObject);
+        if (condition) conditions.push(not(condition));
+        break;
+      }
+    }
+  }
+  return and(...conditions);
+};
+
+export class Pop3Store {
+  constructor(
+    private db: DB,
+    private connectionId: string,
+  ) {}
+
+  private messageRows(uidls?: string[]) {
+    return and(
+      eq(pop3Message.connectionId, this.connectionId),
+      uidls ? inArray(pop3Message.uidl, uidls) : undefined,
+    );
+  }
+
+  // When every stored message was downloaded and whether it is still on the server
+  async serverState(): Promise<Map<string, { downloadedAt: Date; onServer: boolean }>> {
+    const rows = await this.db
+      .select({
+        uidl: pop3Message.uidl,
+        downloadedAt: pop3Message.downloadedAt,
+        onServer: pop3Message.onServer,
+      })
+      .from(pop3Message)
+      .where(this.messageRows());
+    return new Map(rows.map(({ uidl, ...state }) => [uidl, state]));
+  }
+
+  /**
+   * Stores a downloaded message in the inbox. The listing columns are read from the source
+   * once here, get() parses it again for the body and attachments.
+   */
+  async insert(uidl: string, source: string, downloadedAt: Date) {
+    const mime = parseMime(source);
+    const parsed = toParsedMessage(mime, {
+      id: encodePop3Id(uidl),
+      threadId: encodePop3Id(uidl),
+      tags: [],
+      unread: true,
+      receivedOn: downloadedAt,
+    });
+    const address = (sender: { name?: string; email: string }) =>
+      sender.name ? `${sender.name} <${sender.email}>` : sender.email;
+    await this.db
+      .insert(pop3Message)
+      .values({
+        connectionId: this.connectionId,
+        uidl,
+        folder: 'inbox',
+        source,
+        subject: parsed.subject,
+        sender: address(parsed.sender),
+        recipients: [...parsed.to, ...(parsed.cc ?? []), ...(parsed.bcc ?? [])]
+          .map(address)
+          .join(', '),
+        snippet: parsed.title,
+        messageId: parsed.messageId ?? null,
+        hasAttachments: mime.attachments.length > 0,
+        size: Buffer.byteLength(source),
+        receivedAt: new Date(parsed.receivedOn),
+        downloadedAt,
+      })
+      .onConflictDoNothing();
+  }
+
+  async get(uidl: string): Promise<StoredPop3Message | undefined> {
+    const [row] = await this.db
+      .select()
+      .from(pop3Message)
+      .where(and(this.messageRows(), eq(pop3Message.uidl, uidl)));
+    return row;
+  }
+
+  // Newest first, `pageToken` continues below the previous page
+  async page(
+    folder: string,
+    { criteria, pageToken, limit }: { criteria: SearchObject; pageToken?: string; limit: number },
+  ) {
+    const cursor = pageToken ? decodeCursor(pageToken) : undefined;
+    const rows = await this.db
+      .select({
+        uidl: pop3Message.uidl,
+        receivedAt: pop3Message.receivedAt,
+      })
+      .from(pop3Message)
+      .where(
+        and(
+          this.messageRows(),
+          eq(pop3Message.folder, folder),
+          searchCondition(criteria),
+          cursor
+            ? or(
+                lt(pop3Message.receivedAt, cursor.receivedAt),
+                and(
+                  eq(pop3Message.receivedAt, cursor.receivedAt),
+                  lt(pop3Message.uidl, cursor.uidl),
+                ),
+              )
+            : undefined,
+        ),
+      )
+      .orderBy(desc(pop3Message.receivedAt), desc(pop3Message.uidl))
+      .limit(limit + 1);
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    return {
+      uidls: page.map((row) => row.uidl),
+      nextPageToken: rows.length > limit && last ? encodeCursor(last) : null,
+    };
+  }
+
+  // Applies a change to the given messages and returns the UIDLs that exist
+  async update(uidls: string[], change: Pop3MessageChange): Promise<string[]> {
+    if (!uidls.length) return [];
+    let keywords: SQL | undefined;
+    if (change.addKeywords?.length || change.removeKeywords?.length) {
+      // The array is bound as a single parameter, a plain interpolation would expand it to a list
+      const removed = change.removeKeywords?.length
+        ? sql` where k <> all(${sql.param(change.removeKeywords)}::text[])`
+        : sql``;
+      // Distinct so adding a keyword twice does not duplicate it
+      keywords = sql`(select coalesce(jsonb_agg(distinct k), '[]'::jsonb) from jsonb_array_elements_text(${pop3Message.keywords} || ${JSON.stringify(change.addKeywords ?? [])}::jsonb) as k${removed})`;
+    }
+    const values = {
+      ...(change.folder !== undefined && { folder: change.folder }),
+      ...(change.seen !== undefined && { seen: change.seen }),
+      ...(change.flagged !== undefined && { flagged: change.flagged }),
+      ...(keywords && { keywords }),
+    };
+    // Nothing to change, the caller still learns which messages exist
+    const rows = Object.keys(values).length
+      ? await this.db
+          .update(pop3Message)
+          .set(values)
+          .where(this.messageRows(uidls))
+          .returning({ uidl: pop3Message.uidl })
+      : await this.db
+          .select({ uidl: pop3Message.uidl })
+          .from(pop3Message)
+          .where(this.messageRows(uidls));
+    return rows.map((row) => row.uidl);
+  }
+
+  async clearKeyword(keyword: string) {
+    await this.db
+      .update(pop3Message)
+      .set({ keywords: sql`${pop3Message.keywords} - ${keyword}::text` })
+      .where(and(this.messageRows(), hasKeyword(keyword)));
+  }
+
+  // Called once the server confirmed the deletion (QUIT) or the message disappeared from it
+  async markRemovedFromServer(uidls: string[]) {
+    if (!uidls.length) return;
+    await this.db.update(pop3Message).set({ onServer: false }).where(this.messageRows(uidls));
+  }
+
+  // Messages downloaded at or before `cutoff` that are still on the server
+  async downloadedBefore(cutoff: Date): Promise<string[]> {
+    const rows = await this.db
+      .select({ uidl: pop3Message.uidl })
+      .from(pop3Message)
+      .where(
+        and(
+          this.messageRows(),
+          eq(pop3Message.onServer, true),
+          lte(pop3Message.downloadedAt, cutoff),
+        ),
+      );
+    return rows.map((row) => row.uidl);
+  }
+
+  // Unread and total messages per folder
+  async counts(): Promise<{ folder: string; unseen: number; messages: number }[]> {
+    return this.db
+      .select({
+        folder: pop3Message.folder,
+        unseen: sql<number>`count(*) filter (where not ${pop3Message.seen})::int`,
+        messages: count(),
+      })
+      .from(pop3Message)
+      .where(this.messageRows())
+      .groupBy(pop3Message.folder);
+  }
+}
@@ -7,6 +7,10 @@ export interface Pop3Config {
   auth: { user: string; pass: string };
 }
 
+type Pop3Command = 'uidl' | 'retr' | 'dele' | 'quit';
+
+// Message numbers are only valid for one session (RFC 1939), use the UIDL to refer to a
+// message across sessions. Deletions take effect when the session ends with QUIT.
 export class Pop3Service {
   private client: POP3Client | null = null;
   private connected = false;
@@ -41,47 +45,62 @@ export class Pop3Service {
     }
   }
 
-  listMessages(): Promise<number[]> {
-    return new Promise(async (resolve, reject) => {
-      if (!this.client) return reject(new Error('Not connected'));
-      await this.connectIfNeeded();
-      this.client.list();
-      const numbers: number[] = [];
-      const client = this.client;
-      const onList = (status: boolean, msgcount: number, msgnumber: number, data: string) => {
-        if (status) {
-          for (let i = 0; i < msgcount; i++) numbers.push(i + 1);
-          resolve(numbers);
-        } else {
-          reject(new Error('POP3 LIST failed'));
-        }
-        client.removeListener('list', onList);
-      };
-      client.on('list', onList);
+  /**
+   * Sends a command and resolves with the arguments of poplib's answer event, after the
+   * status. poplib runs one command at a time and emits `locked` for any other.
+   */
+  private run(client: POP3Client, command: Pop3Command, ...args: unknown[]): Promise<unknown[]> {
+    return new Promise((resolve, reject) => {
+      const events = [command, 'error', 'locked', 'invalid-state'];
+      const listeners = events.map((event) => {
+        const listener = (...data: unknown[]) => {
+          events.forEach((name, i) => client.removeListener(name, listeners[i]));
+          if (event === command && data[0]) resolve(data.slice(1));
+          else if (event === 'error') reject(data[0]);
+          else reject(new Error(`POP3 ${command.toUpperCase()} failed: ${String(data.at(-1))}`));
+        };
+        client.on(event, listener);
+        return listener;
+      });
+      client[command](...args);
     });
   }
 
-  fetchMessage(id: number): Promise<string> {
-    return new Promise(async (resolve, reject) => {
-      if (!this.client) return reject(new Error('Not connected'));
-      await this.connectIfNeeded();
-      this.client.retr(id);
-      let data = '';
-      const client = this.client;
-      const onRetr = (status: boolean, msgnumber: number, rawdata: string, dataBuffer: Buffer) => {
-        if (status) {
-          resolve(dataBuffer.toString());
-        } else {
-          reject(new Error('POP3 RETR failed: ' + rawdata));
-        }
-        client.removeListener('retr', onRetr);
-      };
-      client.on('retr', onRetr);
+  // Message number to UIDL of every message in the maildrop
+  async listUids(): Promise<Map<number, string>> {
+    await this.connectIfNeeded();
+    const [, uids] = await this.run(this.client, 'uidl');
+    const result = new Map<number, string>();
+    (uids as (string | undefined)[]).forEach((uid, number) => {
+      if (uid) result.set(number, uid.trim());
     });
+    return result;
+  }
+
+  async fetchMessage(id: number): Promise<string> {
+    await this.connectIfNeeded();
+    // The message without the status line and terminator, still dot-stuffed
+    const [, rawdata] = await this.run(this.client, 'retr', id);
+    return String(rawdata).replace(/^\.\./gm, '.');
   }
 
-  quit() {
-    this.client?.quit();
+  // Marks a message for deletion, the server removes it on quit()
+  async deleteMessage(id: number): Promise<void> {
+    await this.connectIfNeeded();
+    await this.run(this.client, 'dele', id);
+  }
+
+  // Ends the session, committing deletions. A client that never logged in is just closed.
+  async quit(): Promise<void> {
+    const client = this.client;
+    const connected = this.connected;
     this.client = null;
+    this.connected = false;
+    if (!client) return;
+    if (!connected) {
+      client.end();
+      return;
+    }
+    await this.run(client, 'quit');
   }
 }
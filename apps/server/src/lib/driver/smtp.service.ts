@@ -1,5 +1,10 @@
 import * as nodemailer from 'nodemailer';
 import type { Transporter } from 'nodemailer';
+import {
+  saslOAuthResponse,
+  type OAuthTokenProvider,
+  type SaslOAuthMechanism,
+} from './oauth';
 
 // Define Supporting Types
 export interface SmtpConfig {
@@ -8,9 +13,12 @@ export interface SmtpConfig {
   secure: boolean; // true for SMTPS (SSL/TLS direct), false for STARTTLS
   auth: {
     user: string;
-    pass: string;
+    pass?: string;
+    tokenProvider?: OAuthTokenProvider; // Logs in with OAuth instead of the password
   };
   logger?: boolean | any; // Or a more specific logger type
+  requireTLS?: boolean; // Refuse to log in when the server does not offer STARTTLS
+  timeout?: number; // Milliseconds to wait for the connection and the server greeting
 }
 
 export interface MailAttachment {
@@ -33,6 +41,42 @@ export interface MailSendOptions {
   headers?: Record<string, string>; // Custom headers
 }
 
+interface CustomAuthContext {
+  authMethods: string[];
+  sendCommand: (command: string) => Promise<{ status: number; text: string }>;
+}
+
+/**
+ * nodemailer login handler for OAuth accounts. nodemailer only recognizes XOAUTH2 in the EHLO
+ * response, servers that do not advertise it get the standard OAUTHBEARER. A rejected token is
+ * refreshed and tried once more.
+ */
+const oauthLogin =
+  (config: SmtpConfig, tokenProvider: OAuthTokenProvider) => async (ctx: CustomAuthContext) => {
+    const mechanism: SaslOAuthMechanism = ctx.authMethods.includes('XOAUTH2')
+      ? 'XOAUTH2'
+      : 'OAUTHBEARER';
+    let response = { status: 0, text: '' };
+    for (const force of [false, true]) {
+      const accessToken = await tokenProvider.getAccessToken(force);
+      const initial = saslOAuthResponse(mechanism, {
+        user: config.auth.user,
+        accessToken,
+        host: config.host,
+        port: config.port,
+      });
+      response = await ctx.sendCommand(`AUTH ${mechanism} ${initial}`);
+      // A 334 carries the error details, answering it ends the exchange with a 535
+      if (response.status === 334) {
+        response = await ctx.sendCommand(mechanism === 'XOAUTH2' ? '' : 'AQ==');
+      }
+      if (response.status === 235) return;
+    }
+    throw Object.assign(new Error(`${mechanism} login failed: ${response.text}`), {
+      code: 'EAUTH',
+    });
+  };
+
 // Implement SmtpService Class
 export class SmtpService {
   private transporter: Transporter;
@@ -40,15 +84,22 @@ export class SmtpService {
 
   constructor(config: SmtpConfig) {
     this.config = config;
+    const { tokenProvider } = this.config.auth;
     this.transporter = nodemailer.createTransport({
       host: this.config.host,
       port: this.config.port,
       secure: this.config.secure, // true for 465, false for other ports (like 587 for STARTTLS)
-      auth: {
-        user: this.config.auth.user,
-        pass: this.config.auth.pass,
-      },
+      auth: tokenProvider
+        ? { type: 'custom', method: 'OAUTH', user: this.config.auth.user }
+        : {
+            user: this.config.auth.user,
+            pass: this.config.auth.pass,
+          },
+      customAuth: tokenProvider ? { OAUTH: oauthLogin(this.config, tokenProvider) } : undefined,
       logger: config.logger !== undefined ? config.logger : false,
+      requireTLS: this.config.requireTLS,
+      connectionTimeout: this.config.timeout,
+      greetingTimeout: this.config.timeout,
       // requireTLS: !this.config.secure, // For STARTTLS on port 587, nodemailer usually handles this automatically.
                                       // `secure: false` and port 587 typically implies STARTTLS.
                                       // Explicit `requireTLS` can be added if needed for specific server configs.
@@ -75,6 +126,35 @@ export class SmtpService {
     }
   }
 
+  /**
+   * Submits an already built MIME message unchanged. Recipients are taken from the envelope
+   * only, so Bcc recipients must be listed there rather than in the message headers.
+   */
+  async sendRaw(
+    envelope: { from: string; to: string[] },
+    raw: string,
+  ): Promise<{ messageId: string; response: string }> {
+    try {
+      const info = await this.transporter.sendMail({ envelope, raw });
+      console.log(`SMTP mail sent: ${info.messageId}`);
+      return {
+        messageId: info.messageId,
+        response: info.response,
+      };
+    } catch (error) {
+      console.error(`SMTP sendMail error:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Connects and logs in like verifyConnection, but rejects with nodemailer's error (which
+   * carries a code such as EDNS, ETLS or EAUTH) so callers can tell what went wrong.
+   */
+  async verify(): Promise<void> {
+    await this.transporter.verify();
+  }
+
   async verifyConnection(): Promise<boolean> {
     try {
       const success = await this.transporter.verify();
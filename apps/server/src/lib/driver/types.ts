@@ -18,6 +18,20 @@ export interface ParsedDraft<T = unknown> {
   rawMessage?: T;
 }
 
+// Outcome of a change to several threads, for drivers that can partially fail
+export interface BulkOperationResult {
+  succeeded: string[];
+  failed: { id: string; error: string }[];
+}
+
+// An address the account can send as
+export interface EmailAlias {
+  email: string;
+  name?: string;
+  primary?: boolean;
+  replyTo?: string;
+}
+
 export interface IConfig {
   auth?: {
     access_token: string;
@@ -56,7 +70,7 @@ export interface MailManager {
     labelIds?: string[];
     pageToken?: string | number;
   }): Promise<{ threads: { id: string; $raw?: unknown }[]; nextPageToken: string | null }>;
-  count(): Promise<{ count?: number; label?: string }[]>;
+  count(): Promise<{ count?: number; label?: string; total?: number; recent?: number }[]>;
   getTokens(
     code: string,
   ): Promise<{ tokens: { access_token?: string; refresh_token?: string; expiry_date?: number } }>;
@@ -64,13 +78,13 @@ export interface MailManager {
     tokens?: ManagerConfig['auth'],
   ): Promise<{ address: string; name: string; photo: string }>;
   getScope(): string;
-  markAsRead(threadIds: string[]): Promise<void>;
-  markAsUnread(threadIds: string[]): Promise<void>;
+  markAsRead(threadIds: string[]): Promise<void | BulkOperationResult>;
+  markAsUnread(threadIds: string[]): Promise<void | BulkOperationResult>;
   normalizeIds(id: string[]): { threadIds: string[] };
   modifyLabels(
     id: string[],
     options: { addLabels: string[]; removeLabels: string[] },
-  ): Promise<void>;
+  ): Promise<void | BulkOperationResult>;
   getAttachment(messageId: string, attachmentId: string): Promise<string | undefined>;
   getUserLabels(): Promise<Label[]>;
   getLabel(id: string): Promise<Label>;
@@ -83,6 +97,6 @@ export interface MailManager {
     label: { name: string; color?: { backgroundColor: string; textColor: string } },
   ): Promise<void>;
   deleteLabel(id: string): Promise<void>;
-  getEmailAliases(): Promise<{ email: string; name?: string; primary?: boolean }[]>;
+  getEmailAliases(): Promise<EmailAlias[]>;
   revokeRefreshToken(refreshToken: string): Promise<boolean>;
 }
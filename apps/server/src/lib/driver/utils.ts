@@ -83,7 +83,17 @@ export class StandardizedError extends Error {
 export function sanitizeContext(context?: Record<string, unknown>) {
   if (!context) return undefined;
   const sanitized = { ...context };
-  const sensitive = ['tokens', 'refresh_token', 'code', 'message', 'raw', 'data'];
+  const sensitive = [
+    'tokens',
+    'refresh_token',
+    'code',
+    'message',
+    'raw',
+    'data',
+    'password',
+    'passwordPlainText',
+    'encryptedPassword',
+  ];
   for (const key of sensitive) {
     if (key in sanitized) {
       sanitized[key] = '[REDACTED]';
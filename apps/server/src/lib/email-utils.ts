@@ -156,3 +156,36 @@ export const wasSentWithTLS = (receivedHeaders: string[]) => {
 
   return false;
 };
+
+const REPLY_PREFIX = /^\s*re\s*:/i;
+const FORWARD_PREFIX = /^\s*fwd?\s*:/i;
+
+export const replySubject = (subject = '') =>
+  REPLY_PREFIX.test(subject) ? subject : `Re: ${subject}`.trim();
+
+export const forwardSubject = (subject = '') =>
+  FORWARD_PREFIX.test(subject) ? subject : `Fwd: ${subject}`.trim();
+
+const bracketed = (id: string) => (id.startsWith('<') ? id : `<${id}>`);
+
+// Relevant specs:
+// - https://www.rfc-editor.org/rfc/rfc5322#section-3.6.4 (in-reply-to, references)
+export const replyHeaders = (parent: {
+  messageId?: string;
+  references?: string;
+  inReplyTo?: string;
+}): Record<string, string> => {
+  if (!parent.messageId) return {};
+  const messageId = bracketed(parent.messageId);
+  // A parent without References is either a thread root or a reply from a client that only
+  // sets In-Reply-To, in which case that is the best guess of its own ancestry
+  const ancestors = (parent.references || parent.inReplyTo || '')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(bracketed)
+    .filter((id) => id !== messageId);
+  return {
+    'In-Reply-To': messageId,
+    References: [...ancestors, messageId].join(' '),
+  };
+};
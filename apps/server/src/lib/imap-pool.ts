@@ -0,0 +1,91 @@
+import {
+  ImapSessionPool,
+  serializeImapError,
+  type ImapPoolMetrics,
+  type ImapPoolResult,
+} from './driver/imap-session-pool';
+import { DurableObject, env } from 'cloudflare:workers';
+import { imapConfigFor } from './driver/genericMail';
+import { ImapService } from './driver/imap.service';
+import { genericAuthConfig } from './server-utils';
+import { connection } from '@zero/db/schema';
+import { createDb } from '@zero/db';
+import { eq } from 'drizzle-orm';
+
+// Connection management is the pool's own business, callers only get the mailbox operations
+const UNPOOLED_METHODS = new Set(['connect', 'disconnect', 'ping', 'watchMailbox']);
+
+const collect = async (stream: AsyncIterable<Uint8Array>) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks);
+};
+
+/**
+ * The IMAP sessions of one generic connection, named after the connection id. A Worker
+ * isolate only lives for a request or a few, so sessions opened there are lost with it, this
+ * object outlives the requests and lets them share the sessions. Idle sessions are logged
+ * out from an alarm, so nothing stays connected once the account is not used.
+ */
+export class DurableImapPool extends DurableObject<Env> {
+  private pool?: ImapSessionPool;
+
+  private getPool(connectionId: string) {
+    // Credentials are read for every new session, so changed ones apply without a reset
+    this.pool ??= new ImapSessionPool(async () => {
+      const db = createDb(env.HYPERDRIVE.connectionString);
+      const row = await db.query.connection.findFirst({
+        where: eq(connection.id, connectionId),
+      });
+      if (!row || row.providerId !== 'generic_imap_smtp') {
+        throw Object.assign(new Error(`Connection ${connectionId} not found`), {
+          code: 'CONNECTION_NOT_FOUND',
+        });
+      }
+      return new ImapService(imapConfigFor(await genericAuthConfig(row, db)));
+    });
+    return this.pool;
+  }
+
+  async call(connectionId: string, method: string, args: unknown[]): Promise<ImapPoolResult> {
+    try {
+      if (UNPOOLED_METHODS.has(method)) throw new Error(`${method} is not run on pooled sessions`);
+      const value = await this.getPool(connectionId).use(async (service) => {
+        const fn = (service as unknown as Record<string, unknown>)[method];
+        if (typeof fn !== 'function') throw new Error(`Unknown IMAP operation ${method}`);
+        const result: unknown = await fn.apply(service, args);
+        // Streams cannot be returned over RPC, attachments are read here
+        return result && typeof result === 'object' && Symbol.asyncIterator in result
+          ? collect(result as AsyncIterable<Uint8Array>)
+          : result;
+      });
+      return { value };
+    } catch (error) {
+      return { error: serializeImapError(error) };
+    } finally {
+      await this.scheduleSweep();
+    }
+  }
+
+  async metrics(): Promise<ImapPoolMetrics | null> {
+    return this.pool?.metrics() ?? null;
+  }
+
+  // Logs out every session, after the connection was removed
+  async reset(): Promise<void> {
+    const pool = this.pool;
+    this.pool = undefined;
+    await pool?.close();
+    await this.ctx.storage.deleteAlarm();
+  }
+
+  async alarm() {
+    await this.pool?.sweep();
+    await this.scheduleSweep();
+  }
+
+  private async scheduleSweep() {
+    const at = this.pool?.nextSweepAt();
+    if (at) await this.ctx.storage.setAlarm(at);
+  }
+}
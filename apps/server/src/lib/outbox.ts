@@ -0,0 +1,317 @@
+import { updateWritingStyleMatrix } from '../services/writing-style-service';
+import { connection, outbox, type OutboxMessage } from '@zero/db/schema';
+import { and, asc, eq, inArray, lte, min, sql } from 'drizzle-orm';
+import { deserializeFiles, type CreateDraftData } from './schemas';
+import { DurableObject, env } from 'cloudflare:workers';
+import { backgroundDriver } from './server-utils';
+import type { MailManager } from './driver/types';
+import type { IOutgoingMessage } from '../types';
+import { createDb, type DB } from '@zero/db';
+
+// Scheduled mail waits in the outbox table until it is due. The DurableOutbox of the
+// connection keeps an alarm at the soonest send and dispatches through the connection's
+// driver, so Gmail and SMTP connections are sent the same way as mail.send does right away.
+
+export type OutboxEntry = typeof outbox.$inferSelect;
+
+// Failed sends are retried after a minute, then two, before they are given up
+const MAX_SEND_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 60 * 1000;
+
+// A send that did not finish in this time was cut off. It may have gone out, so it is not
+// retried but reported as failed.
+const STALE_SENDING_MS = 10 * 60 * 1000;
+
+export const toOutboxMessage = async ({
+  attachments,
+  ...mail
+}: IOutgoingMessage): Promise<OutboxMessage> => ({
+  ...mail,
+  attachments: await Promise.all(
+    attachments.map(async (file) => ({
+      name: file.name,
+      type: file.type,
+      size: file.size,
+      lastModified: file.lastModified,
+      base64: Buffer.from(await file.arrayBuffer()).toString('base64'),
+    })),
+  ),
+});
+
+const fromOutboxMessage = async ({
+  attachments,
+  ...mail
+}: OutboxMessage): Promise<IOutgoingMessage> => ({
+  ...mail,
+  attachments: await deserializeFiles(attachments),
+});
+
+const draftRecipients = (value?: string) =>
+  (value ?? '')
+    .split(',')
+    .map((recipient) => recipient.trim())
+    .filter(Boolean)
+    .map((email) => ({ email }));
+
+// The message a draft sends, drafts keep their recipients as comma separated addresses. Sender
+// and conversation are not part of a draft and are added by the caller.
+export const draftToOutgoing = (draft: CreateDraftData): IOutgoingMessage => ({
+  to: draftRecipients(draft.to),
+  cc: draftRecipients(draft.cc),
+  bcc: draftRecipients(draft.bcc),
+  subject: draft.subject,
+  message: draft.message,
+  attachments: draft.attachments ?? [],
+  headers: {},
+});
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+export class Outbox {
+  constructor(
+    private db: DB,
+    private connectionId: string,
+  ) {}
+
+  private entries(...conditions: Parameters<typeof and>) {
+    return and(eq(outbox.connectionId, this.connectionId), ...conditions);
+  }
+
+  // A draft is sent once, scheduling it again replaces the send it already has
+  async schedule(
+    userId: string,
+    message: OutboxMessage,
+    scheduledAt: Date,
+    { draftId, held = false }: { draftId?: string; held?: boolean } = {},
+  ): Promise<string> {
+    const id = crypto.randomUUID();
+    const now = new Date();
+    await this.db.transaction(async (tx) => {
+      if (draftId) {
+        await tx
+          .delete(outbox)
+          .where(
+            this.entries(
+              eq(outbox.draftId, draftId),
+              inArray(outbox.status, ['pending', 'failed']),
+            ),
+          );
+      }
+      await tx.insert(outbox).values({
+        id,
+        userId,
+        connectionId: this.connectionId,
+        message,
+        draftId,
+        held,
+        scheduledAt,
+        createdAt: now,
+        updatedAt: now,
+      });
+    });
+    return id;
+  }
+
+  // IMAP drafts get a new id with every save, their sends follow them to the new copy
+  async moveDraft(from: string, to: string) {
+    await this.db
+      .update(outbox)
+      .set({ draftId: to, updatedAt: new Date() })
+      .where(this.entries(eq(outbox.draftId, from), inArray(outbox.status, ['pending', 'failed'])));
+  }
+
+  // Scheduled sends that are pending or failed, soonest first. Attachments are listed without
+  // their content, mail held for undo send is left out while it can still be undone.
+  async list() {
+    const entries = await this.db
+      .select()
+      .from(outbox)
+      .where(this.entries(eq(outbox.held, false)))
+      .orderBy(asc(outbox.scheduledAt));
+    return entries.map(({ message, ...entry }) => ({
+      ...entry,
+      message: {
+        ...message,
+        attachments: message.attachments.map(({ base64: _, ...attachment }) => attachment),
+      },
+    }));
+  }
+
+  // Moves a pending or failed send, failed ones are tried again from scratch
+  async reschedule(id: string, scheduledAt: Date): Promise<boolean> {
+    const rows = await this.db
+      .update(outbox)
+      .set({ scheduledAt, status: 'pending', attempts: 0, lastError: null, updatedAt: new Date() })
+      .where(this.entries(eq(outbox.id, id), inArray(outbox.status, ['pending', 'failed'])))
+      .returning({ id: outbox.id });
+    return rows.length > 0;
+  }
+
+  // Returns the cancelled entry, sends already on their way cannot be cancelled
+  async cancel(id: string): Promise<OutboxEntry | undefined> {
+    const [entry] = await this.db
+      .delete(outbox)
+      .where(this.entries(eq(outbox.id, id), inArray(outbox.status, ['pending', 'failed'])))
+      .returning();
+    return entry;
+  }
+
+  // Marks the due sends as being sent, so nothing else sends them again. Mail held for undo
+  // send is past its undo window by then and is listed like any other from now on, so a send
+  // that ends up failing can be retried or cancelled.
+  async claimDue(now = new Date()): Promise<OutboxEntry[]> {
+    return this.db
+      .update(outbox)
+      .set({
+        status: 'sending',
+        held: false,
+        attempts: sql`${outbox.attempts} + 1`,
+        updatedAt: now,
+      })
+      .where(this.entries(eq(outbox.status, 'pending'), lte(outbox.scheduledAt, now)))
+      .returning();
+  }
+
+  async failStale(now = new Date()) {
+    await this.db
+      .update(outbox)
+      .set({
+        status: 'failed',
+        lastError: 'Sending was interrupted, check Sent before retrying',
+        updatedAt: now,
+      })
+      .where(
+        this.entries(
+          eq(outbox.status, 'sending'),
+          lte(outbox.updatedAt, new Date(now.getTime() - STALE_SENDING_MS)),
+        ),
+      );
+  }
+
+  async sent(id: string) {
+    await this.db.delete(outbox).where(this.entries(eq(outbox.id, id)));
+  }
+
+  async failed(entry: OutboxEntry, error: unknown, now = new Date()) {
+    const retry = entry.attempts < MAX_SEND_ATTEMPTS;
+    await this.db
+      .update(outbox)
+      .set({
+        status: retry ? 'pending' : 'failed',
+        scheduledAt: retry
+          ? new Date(now.getTime() + RETRY_DELAY_MS * 2 ** (entry.attempts - 1))
+          : entry.scheduledAt,
+        lastError: errorMessage(error),
+        updatedAt: now,
+      })
+      .where(this.entries(eq(outbox.id, entry.id)));
+  }
+
+  // When the outbox needs a look next: the soonest pending send, or the oldest send in
+  // progress turning stale, as a send cut off by an eviction never finishes. Null for neither.
+  async nextDue(): Promise<Date | null> {
+    const [[pending], [sending]] = await Promise.all([
+      this.db
+        .select({ at: min(outbox.scheduledAt) })
+        .from(outbox)
+        .where(this.entries(eq(outbox.status, 'pending'))),
+      this.db
+        .select({ at: min(outbox.updatedAt) })
+        .from(outbox)
+        .where(this.entries(eq(outbox.status, 'sending'))),
+    ]);
+    const stale = sending?.at ? new Date(sending.at.getTime() + STALE_SENDING_MS) : null;
+    if (!pending?.at || !stale) return pending?.at ?? stale;
+    return pending.at < stale ? pending.at : stale;
+  }
+}
+
+/**
+ * Sends the scheduled mail of one connection, named after the connection id. The outbox
+ * table is the source of truth, the object only holds an alarm for the next due send and
+ * has to be woken whenever the outbox of its connection changed.
+ */
+export class DurableOutbox extends DurableObject<Env> {
+  async wake(connectionId: string) {
+    await this.ctx.storage.put('connectionId', connectionId);
+    await this.arm(new Outbox(createDb(env.HYPERDRIVE.connectionString), connectionId));
+  }
+
+  async alarm() {
+    const connectionId = await this.ctx.storage.get<string>('connectionId');
+    if (!connectionId) return;
+    const db = createDb(env.HYPERDRIVE.connectionString);
+    const store = new Outbox(db, connectionId);
+    await store.failStale();
+    const due = await store.claimDue();
+    if (due.length) await this.dispatch(db, store, connectionId, due);
+    await this.arm(store);
+  }
+
+  private async dispatch(db: DB, store: Outbox, connectionId: string, due: OutboxEntry[]) {
+    // A removed connection takes its outbox with it
+    const row = await db.query.connection.findFirst({ where: eq(connection.id, connectionId) });
+    if (!row) return;
+    let driver: MailManager;
+    try {
+      driver = await backgroundDriver(row, db);
+    } catch (error) {
+      console.error(`Failed to load the driver of ${connectionId} for scheduled mail:`, error);
+      await Promise.all(due.map((entry) => store.failed(entry, error)));
+      return;
+    }
+    for (const entry of due) {
+      try {
+        const mail = await fromOutboxMessage(entry.message);
+        if (entry.draftId) await driver.sendDraft(entry.draftId, mail);
+        else await driver.create(mail);
+      } catch (error) {
+        console.error(`Scheduled send ${entry.id} of ${connectionId} failed:`, error);
+        await store.failed(entry, error);
+        continue;
+      }
+
+      // Delivered, nothing from here on may retry it and send a second copy. An entry that
+      // can't be removed is left sending and reported as interrupted once it is stale.
+      await store
+        .sent(entry.id)
+        .catch((error) => console.error(`Failed to remove sent entry ${entry.id}:`, error));
+      await updateWritingStyleMatrix(connectionId, entry.message.message, db).catch((error) =>
+        console.error('Failed to save writing style matrix', error),
+      );
+    }
+  }
+
+  private async arm(store: Outbox) {
+    const next = await store.nextDue();
+    if (next) await this.ctx.storage.setAlarm(next);
+    else await this.ctx.storage.deleteAlarm();
+  }
+}
+
+// Whether mail can be scheduled, the OUTBOX binding is not configured everywhere
+export const outboxAvailable = () => !!env.OUTBOX;
+
+// Lets the connection's DurableOutbox know its outbox changed
+export const wakeOutbox = async (connectionId: string) => {
+  if (!env.OUTBOX) return;
+  await env.OUTBOX.get(env.OUTBOX.idFromName(connectionId)).wake(connectionId);
+};
+
+// Queues a message and wakes the connection's outbox, returns the id of the outbox entry
+export const scheduleSend = async (
+  db: DB,
+  { connectionId, userId }: { connectionId: string; userId: string },
+  mail: IOutgoingMessage,
+  scheduledAt: Date,
+  options?: { draftId?: string; held?: boolean },
+) => {
+  const id = await new Outbox(db, connectionId).schedule(
+    userId,
+    await toOutboxMessage(mail),
+    scheduledAt,
+    options,
+  );
+  await wakeOutbox(connectionId);
+  return id;
+};
@@ -0,0 +1,62 @@
+import { forwardSubject, replyHeaders, replySubject } from './email-utils';
+import type { IOutgoingMessage, ParsedMessage } from '../types';
+import type { MailManager } from './driver/types';
+import { TRPCError } from '@trpc/server';
+
+// Preparing mail for sending, shared by mail.send and drafts that are scheduled to be sent
+
+// Mail going through the outbox is sent after the request, so a From address the account cannot
+// send as is refused up front rather than failing later on
+export const assertSendsAs = async (driver: MailManager, fromEmail?: string) => {
+  if (!fromEmail) return;
+  const aliases = await driver.getEmailAliases();
+  if (!aliases.some((alias) => alias.email.toLowerCase() === fromEmail.trim().toLowerCase())) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: `${fromEmail} is not an address of this account`,
+    });
+  }
+};
+
+// Attachments of a forwarded message are sent along as regular attachments
+const forwardedAttachments = (driver: MailManager, parent: ParsedMessage) =>
+  Promise.all(
+    (parent.attachments ?? []).map(async (attachment) => {
+      const base64 =
+        attachment.body || (await driver.getAttachment(parent.id, attachment.attachmentId)) || '';
+      return new File([Buffer.from(base64, 'base64')], attachment.filename, {
+        type: attachment.mimeType || 'application/octet-stream',
+      });
+    }),
+  );
+
+/**
+ * Threads a reply or forward onto the message it answers. The parent is `parentId` when the
+ * composer names one, otherwise the latest message of `threadId`.
+ */
+export const withParentMessage = async (
+  driver: MailManager,
+  {
+    mode,
+    parentId,
+    ...mail
+  }: IOutgoingMessage & { mode?: 'reply' | 'replyAll' | 'forward'; parentId?: string },
+): Promise<IOutgoingMessage> => {
+  if (!mail.threadId) return mail;
+  const thread = await driver.get(mail.threadId);
+  const parent = thread.messages.find((message) => message.id === parentId) ?? thread.latest;
+  if (!parent) return mail;
+
+  // Forwards keep In-Reply-To and References as well, like Gmail does, so they stay in the
+  // conversation they were forwarded from
+  const headers = { ...mail.headers, ...replyHeaders(parent) };
+  if (mode === 'forward') {
+    return {
+      ...mail,
+      headers,
+      subject: forwardSubject(mail.subject || parent.subject),
+      attachments: [...mail.attachments, ...(await forwardedAttachments(driver, parent))],
+    };
+  }
+  return { ...mail, headers, subject: replySubject(mail.subject || parent.subject) };
+};
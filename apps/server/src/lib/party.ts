@@ -1,5 +1,28 @@
 import { Server, type Connection, type ConnectionContext } from 'partyserver';
 import { createSimpleAuth, type SimpleAuth } from './auth';
+import { GenericMailManager } from './driver/genericMail';
+import { genericAuthConfig } from './server-utils';
+import { connection } from '@zero/db/schema';
+import { env } from 'cloudflare:workers';
+import { and, eq } from 'drizzle-orm';
+import { createDb } from '@zero/db';
+
+// Backoff for reconnecting the IMAP watcher after its connection failed
+const WATCH_RETRY_MIN_MS = 5 * 1000;
+const WATCH_RETRY_MAX_MS = 5 * 60 * 1000;
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true },
+    );
+  });
 
 const parseHeaders = (token: string) => {
   const headers = new Headers();
@@ -9,6 +32,7 @@ const parseHeaders = (token: string) => {
 
 export class DurableMailbox extends Server<Env> {
   auth: SimpleAuth;
+  private imapWatch?: AbortController;
   constructor(ctx: DurableObjectState, env: Env) {
     super(ctx, env);
     this.auth = createSimpleAuth();
@@ -26,9 +50,67 @@ export class DurableMailbox extends Server<Env> {
       const session = await this.getSession(token);
       if (session) {
         this.ctx.storage.put('email', session.user.email);
+        await this.startImapWatch(session.user.id);
       } else {
         console.log('No session', token);
       }
     }
   }
+
+  onClose() {
+    // Closed connections are no longer listed, so this is empty once the last client left
+    if ([...this.getConnections()].length) return;
+    this.imapWatch?.abort();
+    this.imapWatch = undefined;
+  }
+
+  // The room is named after the connection id. Google and Microsoft accounts are pushed
+  // through notifyUser by the brain worker, IMAP accounts have nothing like that, so while a
+  // client is listening the inbox is watched here and every change is broadcast the same way.
+  private async startImapWatch(userId: string) {
+    if (this.imapWatch) return;
+    const controller = new AbortController();
+    this.imapWatch = controller;
+    try {
+      const db = createDb(env.HYPERDRIVE.connectionString);
+      const row = await db.query.connection.findFirst({
+        where: and(eq(connection.id, this.name), eq(connection.userId, userId)),
+      });
+      if (!row || row.providerId !== 'generic_imap_smtp' || row.pop3Host) {
+        this.stopImapWatch(controller);
+        return;
+      }
+      // The sync store answers which conversation a changed message belongs to
+      const manager = new GenericMailManager({ auth: await genericAuthConfig(row, db), db });
+      void this.runImapWatch(manager, controller.signal);
+    } catch (error) {
+      console.error(`Failed to start the IMAP watcher for ${this.name}:`, error);
+      this.stopImapWatch(controller);
+    }
+  }
+
+  private stopImapWatch(controller: AbortController) {
+    controller.abort();
+    if (this.imapWatch === controller) this.imapWatch = undefined;
+  }
+
+  private async runImapWatch(manager: GenericMailManager, signal: AbortSignal) {
+    let delay = WATCH_RETRY_MIN_MS;
+    while (!signal.aborted) {
+      const startedAt = Date.now();
+      try {
+        await manager.watchInbox(({ threadId }) => this.broadcast(`${threadId}:end`), signal);
+      } catch (error) {
+        console.warn(
+          `IMAP watcher for ${this.name} stopped:`,
+          error instanceof Error ? error.message : 'Unknown error',
+        );
+      }
+      if (signal.aborted) break;
+      // A watcher that ran for a while was healthy, start the backoff over
+      if (Date.now() - startedAt > WATCH_RETRY_MAX_MS) delay = WATCH_RETRY_MIN_MS;
+      await sleep(delay, signal);
+      delay = Math.min(delay * 2, WATCH_RETRY_MAX_MS);
+    }
+  }
 }
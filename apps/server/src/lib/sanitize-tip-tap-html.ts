@@ -13,3 +13,10 @@ export const sanitizeTipTapHtml = async (html: string) => {
     ),
   );
 };
+
+export const tipTapHtmlToText = async (html: string) => {
+  const clean = sanitizeHtml(html);
+  return render(React.createElement('div', { dangerouslySetInnerHTML: { __html: clean } }), {
+    plainText: true,
+  });
+};
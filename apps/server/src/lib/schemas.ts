@@ -22,6 +22,20 @@ export const deserializeFiles = async (serializedFiles: z.infer<typeof serialize
   );
 };
 
+// When a scheduled message is sent, see lib/outbox
+export const scheduledAtSchema = z
+  .date()
+  .refine((date) => date.getTime() > Date.now(), 'The send time must be in the future');
+
+// How a message is sent besides its content: from which address and in which conversation
+export const sendContextSchema = z.object({
+  headers: z.record(z.string()).optional().default({}),
+  threadId: z.string().optional(),
+  fromEmail: z.string().optional(),
+  mode: z.enum(['reply', 'replyAll', 'forward']).optional(),
+  parentId: z.string().optional(),
+});
+
 export const createDraftData = z.object({
   to: z.string(),
   cc: z.string().optional(),
@@ -1,29 +1,137 @@
-import { connection } from '@zero/db/schema';
+import { connection, connectionIdentity } from '@zero/db/schema';
+import type { DB } from '@zero/db';
 import type { HonoContext } from '../ctx';
 import { createDriver } from './driver';
 import { and, eq } from 'drizzle-orm';
 // Assuming GenericMailManagerConfig is exported from genericMail.ts or a central types file
-import type { GenericMailManagerConfig, GenericMailManagerAuthConfig } from './driver/genericMail'; 
+import type {
+  GenericMailManagerConfig,
+  GenericMailManagerAuthConfig,
+  MailIdentity,
+} from './driver/genericMail';
 import type { ManagerConfig } from './driver/types'; // Existing OAuth based config
+import type { ImapPoolStub } from './driver/imap-session-pool';
+import {
+  OAUTH_PROVIDERS,
+  RefreshingTokenProvider,
+  isOAuthProviderId,
+  type OAuthToken,
+  type OAuthTokenEndpoint,
+} from './driver/oauth';
+import {
+  decryptCredential,
+  encryptCredential,
+  parseKeyring,
+  reencryptCredential,
+  type CredentialKeyring,
+} from './credentials';
+import { env } from 'cloudflare:workers';
 
-// Placeholder for a decryption function - this is CRITICAL and needs secure implementation
-// In a real scenario, this would call a KMS or use a secure decryption method.
-const decryptPassword = async (encryptedPassword: string): Promise<string> => {
-    console.warn("decryptPassword: Using placeholder decryption. IMPLEMENT SECURE DECRYPTION!");
-    // This is NOT secure. Replace with actual decryption logic.
-    try {
-        // Example: if it was base64 encoded for transit (very insecure for passwords)
-        // return Buffer.from(encryptedPassword, 'base64').toString('utf8');
-        // For now, assume it's somehow passed as plaintext IF NO ENCRYPTION IS SET UP YET
-        // which is also very bad. This highlights the need for proper secret management.
-        if (encryptedPassword.startsWith("decrypted:")) return encryptedPassword.replace("decrypted:","");
-        return encryptedPassword; // No actual decryption if not prefixed for this placeholder
-    } catch (e) {
-        console.error("Decryption failed", e);
-        throw new Error("Failed to decrypt password.");
-    }
+let keyring: Promise<CredentialKeyring> | undefined;
+
+export const getCredentialKeyring = () =>
+  (keyring ??= parseKeyring(env.CONNECTION_ENCRYPTION_KEYS).catch((error) => {
+    keyring = undefined;
+    throw error;
+  }));
+
+// Rows written with an older key or the legacy plain text format are upgraded on first use
+const upgradeCredential = async (
+  db: DB,
+  row: typeof connection.$inferSelect,
+  column: 'encryptedPassword' | 'refreshToken',
+  keyring: CredentialKeyring,
+) => {
+  const stored = row[column];
+  if (!stored) return;
+  try {
+    const next = await reencryptCredential(keyring, stored, row.id);
+    if (!next) return;
+    await db
+      .update(connection)
+      .set({ [column]: next })
+      .where(and(eq(connection.id, row.id), eq(connection[column], stored)));
+  } catch (error) {
+    console.warn(
+      `Failed to re-encrypt the credentials of connection ${row.id}:`,
+      error instanceof Error ? error.message : 'Unknown error',
+    );
+  }
 };
 
+// Token endpoint and client of an OAuth provider, none for 'static' tokens or unknown providers
+export const oauthTokenEndpoint = (providerId: string): OAuthTokenEndpoint | undefined => {
+  if (!isOAuthProviderId(providerId)) return undefined;
+  const provider = OAUTH_PROVIDERS[providerId];
+  const clientId = env[`${provider.env}_CLIENT_ID`];
+  if (!clientId) {
+    console.warn(`${provider.env}_CLIENT_ID is not set, ${providerId} tokens cannot be refreshed`);
+    return undefined;
+  }
+  return { tokenUrl: provider.tokenUrl, clientId, clientSecret: env[`${provider.env}_CLIENT_SECRET`] };
+};
+
+// Access token of a generic OAuth connection, refreshed tokens are written back to the row
+const genericTokenProvider = async (
+  row: typeof connection.$inferSelect,
+  db: DB,
+  keyring: CredentialKeyring,
+) => {
+  const refreshToken = row.refreshToken
+    ? await decryptCredential(keyring, row.refreshToken, row.id)
+    : undefined;
+  if (refreshToken && !refreshToken.current)
+    await upgradeCredential(db, row, 'refreshToken', keyring);
+  const token: OAuthToken = {
+    accessToken: row.accessToken ?? '',
+    refreshToken: refreshToken?.secret,
+    expiresAt: row.expiresAt ?? undefined,
+  };
+  return new RefreshingTokenProvider(
+    token,
+    oauthTokenEndpoint(row.oauthProvider ?? ''),
+    async (refreshed) => {
+      await db
+        .update(connection)
+        .set({
+          accessToken: refreshed.accessToken,
+          refreshToken: refreshed.refreshToken
+            ? await encryptCredential(keyring, refreshed.refreshToken, row.id)
+            : null,
+          expiresAt: refreshed.expiresAt ?? null,
+          updatedAt: new Date(),
+        })
+        .where(eq(connection.id, row.id));
+    },
+  );
+};
+
+// Addresses a generic connection sends as, identities with a login of their own get the
+// password decrypted for SMTP
+const genericIdentities = async (
+  connectionId: string,
+  db: DB,
+  keyring: CredentialKeyring,
+): Promise<MailIdentity[]> => {
+  const rows = await db
+    .select()
+    .from(connectionIdentity)
+    .where(eq(connectionIdentity.connectionId, connectionId));
+  return Promise.all(
+    rows.map(async (row) => ({
+      email: row.email,
+      name: row.name ?? undefined,
+      replyTo: row.replyTo ?? undefined,
+      smtpAuth:
+        row.smtpUsername && row.encryptedSmtpPassword
+          ? {
+              user: row.smtpUsername,
+              pass: (await decryptCredential(keyring, row.encryptedSmtpPassword, row.id)).secret,
+            }
+          : undefined,
+    })),
+  );
+};
 
 export const getActiveConnection = async (c: HonoContext) => {
   const { session, db } = c.var;
@@ -65,7 +173,7 @@ export const getActiveConnection = async (c: HonoContext) => {
     }
   } else if (connDetails.providerId === 'generic_imap_smtp') {
     // Check for fields that will be added to the connection schema for IMAP/SMTP
-    if (!connDetails.email || !connDetails.encryptedPassword || !connDetails.imapHost || !connDetails.smtpHost) {
+    if (!connDetails.email || !(connDetails.encryptedPassword || connDetails.oauthProvider) || !connDetails.imapHost || !connDetails.smtpHost) {
          throw new Error('Generic IMAP/SMTP connection is not configured completely.');
     }
   } else {
@@ -78,6 +186,64 @@ export const getActiveConnection = async (c: HonoContext) => {
   return activeConnectionDetails; // Return the original type, not 'any'
 };
 
+// Connection settings of a generic IMAP/SMTP account, with the password decrypted. Also used
+// outside of requests (the IMAP watcher in DurableMailbox), so it only needs the database.
+export const genericAuthConfig = async (
+  activeConnection: typeof connection.$inferSelect,
+  db: DB,
+): Promise<GenericMailManagerAuthConfig> => {
+  const keyring = await getCredentialKeyring();
+  // OAuth connections have no password
+  const { secret: plainTextPassword, current } = activeConnection.encryptedPassword
+    ? await decryptCredential(keyring, activeConnection.encryptedPassword, activeConnection.id)
+    : { secret: '', current: true };
+  if (!current) await upgradeCredential(db, activeConnection, 'encryptedPassword', keyring);
+
+  return {
+    email: activeConnection.email,
+    passwordPlainText: plainTextPassword,
+    oauth: activeConnection.oauthProvider
+      ? await genericTokenProvider(activeConnection, db, keyring)
+      : undefined,
+    name: activeConnection.name || undefined,
+    imap: {
+      host: activeConnection.imapHost || '',
+      port: activeConnection.imapPort || 993,
+      secure: activeConnection.imapSecure ?? true,
+      requireTLS: activeConnection.imapRequireTLS ?? true, // STARTTLS when not secure
+      // auth is handled by top-level email/password in GenericMailManager constructor
+    },
+    smtp: {
+      host: activeConnection.smtpHost || '',
+      port: activeConnection.smtpPort || 587,
+      secure: activeConnection.smtpSecure ?? false, // STARTTLS on 587
+      // auth is handled by top-level email/password
+    },
+    pop3: activeConnection.pop3Host
+      ? {
+          host: activeConnection.pop3Host,
+          port: activeConnection.pop3Port || 110,
+          tls: activeConnection.pop3Tls ?? false,
+        }
+      : undefined,
+    pop3Retention: activeConnection.pop3Host
+      ? {
+          leaveOnServer: activeConnection.pop3LeaveOnServer ?? true,
+          deleteAfterDays: activeConnection.pop3DeleteAfterDays ?? undefined,
+        }
+      : undefined,
+    mailboxMapping: activeConnection.mailboxMapping ?? undefined,
+    saveSentCopy: activeConnection.saveSentCopy ?? undefined,
+    identities: await genericIdentities(activeConnection.id, db, keyring),
+    connectionId: activeConnection.id,
+  };
+};
+
+// The session pool of a generic connection, without the IMAP_POOL binding every request
+// logs in on its own
+export const imapPoolFor = (connectionId: string): ImapPoolStub | undefined =>
+  env.IMAP_POOL ? env.IMAP_POOL.get(env.IMAP_POOL.idFromName(connectionId)) : undefined;
+
 export const connectionToDriver = async ( // Made async for potential decryption
   activeConnection: typeof connection.$inferSelect,
   c: HonoContext,
@@ -87,36 +253,11 @@ export const connectionToDriver = async ( // Made async for potential decryption
   const connDetails = activeConnection as any;
 
   if (connDetails.providerId === 'generic_imap_smtp') {
-    // These fields (imapHost, imapPort etc.) are placeholders for actual schema fields
-    // Ensure they are added to packages/db/src/schema.ts connection table.
-    const plainTextPassword = await decryptPassword(connDetails.encryptedPassword || ''); // Ensure encryptedPassword field exists
-
-    const authConfig: GenericMailManagerAuthConfig = {
-      email: connDetails.email, // Assuming 'email' field stores the username
-      passwordPlainText: plainTextPassword,
-      name: connDetails.name || undefined, // Assuming 'name' field for user's display name
-      imap: {
-        host: connDetails.imapHost || '', // Placeholder, ensure this DB field exists
-        port: connDetails.imapPort || 993, // Placeholder
-        secure: connDetails.imapSecure !== undefined ? connDetails.imapSecure : true, // Placeholder
-        requireTLS: connDetails.imapRequireTLS !== undefined ? connDetails.imapRequireTLS : true, // Placeholder for STARTTLS if secure is false
-        // auth is handled by top-level email/password in GenericMailManager constructor
-      },
-      smtp: {
-        host: connDetails.smtpHost || '', // Placeholder
-        port: connDetails.smtpPort || 587, // Placeholder
-        secure: connDetails.smtpSecure !== undefined ? connDetails.smtpSecure : false, // Placeholder (false for STARTTLS on 587)
-        // auth is handled by top-level email/password
-      },
-      pop3: connDetails.pop3Host
-        ? {
-            host: connDetails.pop3Host,
-            port: connDetails.pop3Port || 110,
-            tls: connDetails.pop3Tls !== undefined ? connDetails.pop3Tls : false,
-          }
-        : undefined,
+    driverConfig = {
+      auth: await genericAuthConfig(activeConnection, c.var.db),
+      c,
+      imapPool: activeConnection.pop3Host ? undefined : imapPoolFor(activeConnection.id),
     };
-    driverConfig = { auth: authConfig, c };
   } else if (connDetails.providerId === 'google' || connDetails.providerId === 'microsoft') {
     // Existing OAuth based config
     driverConfig = {
@@ -135,3 +276,23 @@ export const connectionToDriver = async ( // Made async for potential decryption
   // Ideally, createDriver's config param would be a union of specific config types.
   return createDriver(activeConnection.providerId, driverConfig as any);
 };
+
+// Work outside of a request, like sending scheduled mail, has no request context to pass on
+export const backgroundDriver = async (
+  activeConnection: typeof connection.$inferSelect,
+  db: DB,
+) => {
+  if (activeConnection.providerId === 'generic_imap_smtp') {
+    return createDriver(activeConnection.providerId, {
+      auth: await genericAuthConfig(activeConnection, db),
+      imapPool: activeConnection.pop3Host ? undefined : imapPoolFor(activeConnection.id),
+    } satisfies GenericMailManagerConfig);
+  }
+  return createDriver(activeConnection.providerId, {
+    auth: {
+      accessToken: activeConnection.accessToken || '',
+      refreshToken: activeConnection.refreshToken || '',
+      email: activeConnection.email,
+    },
+  } satisfies ManagerConfig);
+};
@@ -0,0 +1,110 @@
+import { signature, signatureDefault } from '@zero/db/schema';
+import { sanitizeTipTapHtml } from './sanitize-tip-tap-html';
+import { and, asc, eq, inArray } from 'drizzle-orm';
+import type { DB } from '@zero/db';
+
+export interface Signature {
+  id: string;
+  userId: string;
+  name: string;
+  html: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SignatureDefault {
+  email: string;
+  newMailSignatureId: string | null;
+  replySignatureId: string | null;
+}
+
+export class SignaturesManager {
+  constructor(private db: DB) {}
+
+  async getSignatures(userId: string): Promise<Signature[]> {
+    return this.db
+      .select()
+      .from(signature)
+      .where(eq(signature.userId, userId))
+      .orderBy(asc(signature.name), asc(signature.createdAt));
+  }
+
+  async saveSignature(
+    userId: string,
+    data: { id?: string; name: string; html: string },
+  ): Promise<Signature> {
+    const now = new Date();
+    const values = { name: data.name, html: await sanitizeTipTapHtml(data.html), updatedAt: now };
+
+    const result = data.id
+      ? await this.db
+          .update(signature)
+          .set(values)
+          .where(and(eq(signature.id, data.id), eq(signature.userId, userId)))
+          .returning()
+      : await this.db
+          .insert(signature)
+          .values({ id: crypto.randomUUID(), userId, createdAt: now, ...values })
+          .returning();
+
+    if (!result[0]) {
+      throw new Error('Signature not found or unauthorized');
+    }
+    return result[0];
+  }
+
+  // Addresses using it fall back to no signature
+  async deleteSignature(userId: string, signatureId: string): Promise<boolean> {
+    const result = await this.db
+      .delete(signature)
+      .where(and(eq(signature.id, signatureId), eq(signature.userId, userId)))
+      .returning({ id: signature.id });
+
+    if (result.length === 0) {
+      throw new Error('Signature not found or unauthorized');
+    }
+    return true;
+  }
+
+  async getDefaults(connectionId: string): Promise<SignatureDefault[]> {
+    return this.db
+      .select({
+        email: signatureDefault.email,
+        newMailSignatureId: signatureDefault.newMailSignatureId,
+        replySignatureId: signatureDefault.replySignatureId,
+      })
+      .from(signatureDefault)
+      .where(eq(signatureDefault.connectionId, connectionId));
+  }
+
+  async setDefault(
+    userId: string,
+    connectionId: string,
+    data: SignatureDefault,
+  ): Promise<SignatureDefault> {
+    const ids = [data.newMailSignatureId, data.replySignatureId].filter((id): id is string => !!id);
+    if (ids.length > 0) {
+      const owned = await this.db
+        .select({ id: signature.id })
+        .from(signature)
+        .where(and(eq(signature.userId, userId), inArray(signature.id, ids)));
+      if (owned.length !== new Set(ids).size) {
+        throw new Error('Signature not found or unauthorized');
+      }
+    }
+
+    const values = {
+      newMailSignatureId: data.newMailSignatureId,
+      replySignatureId: data.replySignatureId,
+      updatedAt: new Date(),
+    };
+    await this.db
+      .insert(signatureDefault)
+      .values({ connectionId, email: data.email.toLowerCase(), ...values })
+      .onConflictDoUpdate({
+        target: [signatureDefault.connectionId, signatureDefault.email],
+        set: values,
+      });
+    return { ...data, email: data.email.toLowerCase() };
+  }
+}
@@ -0,0 +1,174 @@
+import { and, asc, eq, isNull, ne, or, sql } from 'drizzle-orm';
+import { emailTemplate } from '@zero/db/schema';
+import sanitizeHtml from 'sanitize-html';
+import type { DB } from '@zero/db';
+
+export interface EmailTemplate {
+  id: string;
+  userId: string;
+  connectionId: string | null;
+  name: string;
+  subject: string | null;
+  body: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// A template as exported to and imported from JSON, without ids so it can move between accounts
+export interface PortableTemplate {
+  name: string;
+  subject: string | null;
+  body: string;
+  shared: boolean;
+}
+
+export class TemplatesManager {
+  constructor(private db: DB) {}
+
+  // Those shared by all connections and those kept to this one
+  async getTemplates(userId: string, connectionId: string): Promise<EmailTemplate[]> {
+    return this.db
+      .select()
+      .from(emailTemplate)
+      .where(
+        and(
+          eq(emailTemplate.userId, userId),
+          or(isNull(emailTemplate.connectionId), eq(emailTemplate.connectionId, connectionId)),
+        ),
+      )
+      .orderBy(asc(emailTemplate.name));
+  }
+
+  // All of them, those kept to other connections included
+  async getAllTemplates(userId: string): Promise<EmailTemplate[]> {
+    return this.db
+      .select()
+      .from(emailTemplate)
+      .where(eq(emailTemplate.userId, userId))
+      .orderBy(asc(emailTemplate.name));
+  }
+
+  async isNameTaken(userId: string, name: string, exceptId?: string): Promise<boolean> {
+    const [existing] = await this.db
+      .select({ id: emailTemplate.id })
+      .from(emailTemplate)
+      .where(
+        and(
+          eq(emailTemplate.userId, userId),
+          eq(emailTemplate.name, name),
+          exceptId ? ne(emailTemplate.id, exceptId) : undefined,
+        ),
+      )
+      .limit(1);
+    return !!existing;
+  }
+
+  async saveTemplate(
+    userId: string,
+    data: {
+      id?: string;
+      name: string;
+      subject: string | null;
+      body: string;
+      connectionId: string | null;
+    },
+  ): Promise<EmailTemplate> {
+    const now = new Date();
+    const values = {
+      name: data.name,
+      subject: data.subject,
+      body: sanitizeHtml(data.body),
+      connectionId: data.connectionId,
+      updatedAt: now,
+    };
+
+    const result = data.id
+      ? await this.db
+          .update(emailTemplate)
+          .set({
+            ...values,
+            // A template kept to another connection stays there when it is edited from this one
+            connectionId:
+              data.connectionId === null
+                ? null
+                : sql`coalesce(${emailTemplate.connectionId}, ${data.connectionId})`,
+          })
+          .where(and(eq(emailTemplate.id, data.id), eq(emailTemplate.userId, userId)))
+          .returning()
+      : await this.db
+          .insert(emailTemplate)
+          .values({ id: crypto.randomUUID(), userId, createdAt: now, ...values })
+          .returning();
+
+    if (!result[0]) {
+      throw new Error('Template not found or unauthorized');
+    }
+    return result[0];
+  }
+
+  async deleteTemplate(userId: string, templateId: string): Promise<boolean> {
+    const result = await this.db
+      .delete(emailTemplate)
+      .where(and(eq(emailTemplate.id, templateId), eq(emailTemplate.userId, userId)))
+      .returning({ id: emailTemplate.id });
+
+    if (result.length === 0) {
+      throw new Error('Template not found or unauthorized');
+    }
+    return true;
+  }
+
+  async exportTemplates(userId: string): Promise<PortableTemplate[]> {
+    const templates = await this.getAllTemplates(userId);
+    return templates.map(({ name, subject, body, connectionId }) => ({
+      name,
+      subject,
+      body,
+      shared: connectionId === null,
+    }));
+  }
+
+  // Templates named like an existing one replace it, unless that one is kept to another
+  // connection, then it is left alone and the imported one skipped. Those not shared are kept to
+  // this connection. Returns how many were imported.
+  async importTemplates(
+    userId: string,
+    connectionId: string,
+    templates: PortableTemplate[],
+  ): Promise<number> {
+    // A name repeated in the file can only be written once, the last one wins
+    const unique = [...new Map(templates.map((template) => [template.name, template])).values()];
+    if (unique.length === 0) return 0;
+
+    const now = new Date();
+    const imported = await this.db
+      .insert(emailTemplate)
+      .values(
+        unique.map((template) => ({
+          id: crypto.randomUUID(),
+          userId,
+          connectionId: template.shared ? null : connectionId,
+          name: template.name,
+          subject: template.subject,
+          body: sanitizeHtml(template.body),
+          createdAt: now,
+          updatedAt: now,
+        })),
+      )
+      .onConflictDoUpdate({
+        target: [emailTemplate.userId, emailTemplate.name],
+        set: {
+          connectionId: sql`excluded.connection_id`,
+          subject: sql`excluded.subject`,
+          body: sql`excluded.body`,
+          updatedAt: now,
+        },
+        setWhere: or(
+          isNull(emailTemplate.connectionId),
+          eq(emailTemplate.connectionId, connectionId),
+        ),
+      })
+      .returning({ id: emailTemplate.id });
+    return imported.length;
+  }
+}
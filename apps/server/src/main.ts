@@ -2,7 +2,9 @@ import { env, WorkerEntrypoint } from 'cloudflare:workers';
 import { mailtoHandler } from './routes/mailto-handler';
 import { routePartykitRequest } from 'partyserver';
 import { partyserverMiddleware } from 'hono-party';
+import { DurableImapPool } from './lib/imap-pool';
 import { trpcServer } from '@hono/trpc-server';
+import { DurableOutbox } from './lib/outbox';
 import { DurableMailbox } from './lib/party';
 import { chatHandler } from './routes/chat';
 import type { HonoVariables } from './ctx';
@@ -12,7 +14,7 @@ import { appRouter } from './trpc';
 import { cors } from 'hono/cors';
 import { Hono } from 'hono';
 
-export { DurableMailbox };
+export { DurableMailbox, DurableImapPool, DurableOutbox };
 
 const api = new Hono<{ Variables: HonoVariables; Bindings: Env }>()
   .use(
@@ -4,6 +4,7 @@ import type { HonoContext } from '../ctx';
 import { google } from '@ai-sdk/google';
 import { jsonrepair } from 'jsonrepair';
 import { generateObject } from 'ai';
+import type { DB } from '@zero/db';
 import { eq } from 'drizzle-orm';
 import pRetry from 'p-retry';
 import { z } from 'zod';
@@ -190,16 +191,13 @@ export const getWritingStyleMatrixForConnectionId = async ({
   return matrix;
 };
 
-export const updateWritingStyleMatrix = async (
-  connectionId: string,
-  emailBody: string,
-  c: HonoContext,
-) => {
+// Runs once a message was delivered, also from the outbox where there is no request context
+export const updateWritingStyleMatrix = async (connectionId: string, emailBody: string, db: DB) => {
   const emailStyleMatrix = await extractStyleMatrix(emailBody);
 
   await pRetry(
     async () => {
-      await c.var.db.transaction(async (tx) => {
+      await db.transaction(async (tx) => {
         const [existingMatrix] = await tx
           .select({
             numMessages: writingStyleMatrix.numMessages,
@@ -1,15 +1,47 @@
 import { createRateLimiterMiddleware, privateProcedure, router } from '../trpc';
-import { connection, user as user_ } from '@zero/db/schema';
+import { GenericMailManager } from '../../lib/driver/genericMail';
+import { isFolderId } from '../../lib/driver/imap-folders';
+import { connection, connectionIdentity, user as user_ } from '@zero/db/schema';
+import {
+  connectionToDriver,
+  getCredentialKeyring,
+  imapPoolFor,
+  oauthTokenEndpoint,
+} from '../../lib/server-utils';
+import {
+  RefreshingTokenProvider,
+  STATIC_OAUTH_PROVIDER,
+  isOAuthProviderId,
+} from '../../lib/driver/oauth';
+import { encryptCredential } from '../../lib/credentials';
+import { discoverMailSettings } from '../../lib/driver/autoconfig';
+import {
+  testConnection,
+  testSmtp,
+  type ConnectionTestInput,
+} from '../../lib/driver/connection-test';
 import { Ratelimit } from '@upstash/ratelimit';
 import { TRPCError } from '@trpc/server';
-import { and, eq } from 'drizzle-orm';
+import { and, asc, eq, isNotNull, ne } from 'drizzle-orm';
+import type { DB } from '@zero/db';
 import { z } from 'zod'; // Existing Zod import
 
+// Tokens for providers that turned off password logins, obtained by the client
+const oauthInputSchema = z.object({
+  provider: z
+    .string()
+    .refine((id) => id === STATIC_OAUTH_PROVIDER || isOAuthProviderId(id), 'Unknown OAuth provider'),
+  accessToken: z.string().min(1),
+  refreshToken: z.string().optional(),
+  expiresIn: z.number().int().positive().optional(), // Seconds, as the token endpoint reports it
+});
+
 // New Zod schema for adding a generic IMAP/SMTP connection
-const genericConnectionInputSchema = z.object({
+const genericConnectionFieldsSchema = z.object({
   name: z.string().min(1, "Connection name is required"), // User-defined name for this connection
   email: z.string().email("Invalid email format"), // This will be the username
-  password: z.string().min(1, "Password is required"), // Plain text password, to be encrypted
+  password: z.string().optional(), // Plain text password, to be encrypted
+  oauth: oauthInputSchema.optional(), // Logs in to IMAP and SMTP with OAuth instead
   
   imapHost: z.string().min(1, "IMAP host is required"),
   imapPort: z.number().int().positive("IMAP port must be a positive integer"),
@@ -22,16 +54,100 @@ const genericConnectionInputSchema = z.object({
   pop3Host: z.string().optional(),
   pop3Port: z.number().int().positive().optional(),
   pop3Tls: z.boolean().optional(),
+  pop3LeaveOnServer: z.boolean().optional(), // Keep downloaded mail on the POP3 server, the default
+  pop3DeleteAfterDays: z.number().int().positive().optional(), // Delete it from there after this many days
 });
 
-// Placeholder for an encryption function - CRITICAL: IMPLEMENT SECURELY!
-const encryptPassword = async (plainTextPassword: string): Promise<string> => {
-    console.warn("encryptPassword: Using placeholder encryption. IMPLEMENT SECURE SERVER-SIDE ENCRYPTION!");
-    // This is NOT secure. In a real application, use a strong, one-way hashing algorithm (e.g., Argon2, bcrypt)
-    // if storing for verification, or proper symmetric/asymmetric encryption if reversible decryption is truly needed
-    // (which it is for IMAP/SMTP passwords, so use KMS or similar).
-    // For this placeholder, we'll just simulate it's "encrypted".
-    return `encrypted:${plainTextPassword}`; // DO NOT USE THIS IN PRODUCTION
+const connectionTestFieldsSchema = genericConnectionFieldsSchema.omit({
+  name: true,
+  pop3LeaveOnServer: true,
+  pop3DeleteAfterDays: true,
+});
+
+const hasCredentials = (input: { password?: string; oauth?: unknown }) =>
+  !!(input.password || input.oauth);
+const credentialsRequired = { message: 'Password is required', path: ['password'] };
+
+// poplib only knows password logins
+const pop3HasPassword = (input: { oauth?: unknown; pop3Host?: string }) =>
+  !(input.oauth && input.pop3Host);
+const pop3NeedsPassword = {
+  message: 'POP3 needs a password, OAuth is only supported for IMAP and SMTP',
+  path: ['pop3Host'],
+};
+
+const genericConnectionInputSchema = genericConnectionFieldsSchema
+  .refine(hasCredentials, credentialsRequired)
+  .refine(pop3HasPassword, pop3NeedsPassword);
+
+const connectionTestInputSchema = connectionTestFieldsSchema
+  .refine(hasCredentials, credentialsRequired)
+  .refine(pop3HasPassword, pop3NeedsPassword);
+
+// Tokens of a connection that is not saved yet, a refresh during the test is only kept here
+const inputTokenProvider = (oauth: z.infer<typeof oauthInputSchema> | undefined) =>
+  oauth
+    ? new RefreshingTokenProvider(
+        {
+          accessToken: oauth.accessToken,
+          refreshToken: oauth.refreshToken,
+          expiresAt: oauth.expiresIn ? new Date(Date.now() + oauth.expiresIn * 1000) : undefined,
+        },
+        oauthTokenEndpoint(oauth.provider),
+      )
+    : undefined;
+
+const toConnectionTestInput = (
+  input: z.infer<typeof connectionTestInputSchema>,
+  tokenProvider = inputTokenProvider(input.oauth),
+): ConnectionTestInput => ({
+  email: input.email,
+  password: input.password ?? '',
+  oauth: tokenProvider,
+  imap: {
+    host: input.imapHost,
+    port: input.imapPort,
+    security: input.imapSecure ? 'ssl' : input.imapRequireTLS === false ? 'none' : 'starttls',
+  },
+  smtp: {
+    host: input.smtpHost,
+    port: input.smtpPort,
+    security: input.smtpSecure ? 'ssl' : 'starttls',
+  },
+  pop3: input.pop3Host
+    ? {
+        host: input.pop3Host,
+        port: input.pop3Port ?? (input.pop3Tls ? 995 : 110),
+        security: input.pop3Tls ? 'ssl' : 'none',
+      }
+    : undefined,
+});
+
+const mailboxMappingSchema = z
+  .record(z.string(), z.string().min(1))
+  .refine((mapping) => Object.keys(mapping).every(isFolderId), 'Unknown folder');
+
+const identityInputSchema = z.object({
+  connectionId: z.string(),
+  id: z.string().optional(), // Updates this identity, a new one is added without
+  email: z.string().email(),
+  name: z.string().optional(),
+  replyTo: z.string().email().optional(),
+  // Without a username the identity sends with the connection's login
+  smtpUsername: z.string().optional(),
+  smtpPassword: z.string().optional(), // Keeps the stored one when the username is unchanged
+});
+
+const findGenericConnection = async (db: DB, userId: string, connectionId: string) => {
+  const foundConnection = await db.query.connection.findFirst({
+    where: and(
+      eq(connection.id, connectionId),
+      eq(connection.userId, userId),
+      eq(connection.providerId, 'generic_imap_smtp'),
+    ),
+  });
+  if (!foundConnection) throw new TRPCError({ code: 'NOT_FOUND' });
+  return foundConnection;
 };
 
 export const connectionsRouter = router({
@@ -79,14 +195,263 @@ export const connectionsRouter = router({
       const { connectionId } = input;
       const { db } = ctx;
       const user = ctx.session.user;
-      await db
+      const [deleted] = await db
         .delete(connection)
-        .where(and(eq(connection.id, connectionId), eq(connection.userId, user.id)));
+        .where(and(eq(connection.id, connectionId), eq(connection.userId, user.id)))
+        .returning({ providerId: connection.providerId });
+      // Logs out the sessions the removed account still has open
+      if (deleted?.providerId === 'generic_imap_smtp') await imapPoolFor(connectionId)?.reset();
 
       if (connectionId === ctx.session.connectionId)
         await db.update(user_).set({ defaultConnectionId: null });
     }),
 
+  // Session pool state of a generic connection, null without a pool or before its first use
+  imapPoolMetrics: privateProcedure
+    .input(z.object({ connectionId: z.string() }))
+    .query(async ({ input, ctx }) => {
+      const foundConnection = await ctx.db.query.connection.findFirst({
+        where: and(
+          eq(connection.id, input.connectionId),
+          eq(connection.userId, ctx.session.user.id),
+        ),
+      });
+      if (!foundConnection || foundConnection.providerId !== 'generic_imap_smtp')
+        throw new TRPCError({ code: 'NOT_FOUND' });
+      return (await imapPoolFor(foundConnection.id)?.metrics()) ?? null;
+    }),
+
+  getMailboxMapping: privateProcedure
+    .input(z.object({ connectionId: z.string() }))
+    .query(async ({ input, ctx }) => {
+      const foundConnection = await ctx.db.query.connection.findFirst({
+        where: and(
+          eq(connection.id, input.connectionId),
+          eq(connection.userId, ctx.session.user.id),
+        ),
+      });
+      if (!foundConnection || foundConnection.providerId !== 'generic_imap_smtp')
+        throw new TRPCError({ code: 'NOT_FOUND' });
+
+      const driver = await connectionToDriver(foundConnection, ctx.c);
+      if (!(driver instanceof GenericMailManager)) throw new TRPCError({ code: 'NOT_FOUND' });
+      return driver.getMailboxMapping();
+    }),
+  updateMailboxMapping: privateProcedure
+    .input(
+      z.object({
+        connectionId: z.string(),
+        mapping: mailboxMappingSchema,
+        // null lets the server decide based on the provider
+        saveSentCopy: z.boolean().nullable().optional(),
+      }),
+    )
+    .mutation(async ({ input, ctx }) => {
+      const { db } = ctx;
+      const user = ctx.session.user;
+      const [updated] = await db
+        .update(connection)
+        .set({
+          mailboxMapping: input.mapping,
+          saveSentCopy: input.saveSentCopy,
+          updatedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(connection.id, input.connectionId),
+            eq(connection.userId, user.id),
+            eq(connection.providerId, 'generic_imap_smtp'),
+          ),
+        )
+        .returning({ id: connection.id });
+      if (!updated) throw new TRPCError({ code: 'NOT_FOUND' });
+      return { success: true };
+    }),
+  updatePop3Retention: privateProcedure
+    .input(
+      z.object({
+        connectionId: z.string(),
+        leaveOnServer: z.boolean(),
+        // null keeps the messages on the server for good
+        deleteAfterDays: z.number().int().positive().nullable(),
+      }),
+    )
+    .mutation(async ({ input, ctx }) => {
+      const { db } = ctx;
+      const user = ctx.session.user;
+      const [updated] = await db
+        .update(connection)
+        .set({
+          pop3LeaveOnServer: input.leaveOnServer,
+          pop3DeleteAfterDays: input.deleteAfterDays,
+          updatedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(connection.id, input.connectionId),
+            eq(connection.userId, user.id),
+            eq(connection.providerId, 'generic_imap_smtp'),
+            isNotNull(connection.pop3Host),
+          ),
+        )
+        .returning({ id: connection.id });
+      if (!updated) throw new TRPCError({ code: 'NOT_FOUND' });
+      return { success: true };
+    }),
+
+  // Addresses a generic connection sends as, without their SMTP passwords
+  identities: privateProcedure
+    .input(z.object({ connectionId: z.string() }))
+    .query(async ({ input, ctx }) => {
+      const { db } = ctx;
+      const foundConnection = await findGenericConnection(
+        db,
+        ctx.session.user.id,
+        input.connectionId,
+      );
+      const identities = await db
+        .select()
+        .from(connectionIdentity)
+        .where(eq(connectionIdentity.connectionId, foundConnection.id))
+        .orderBy(asc(connectionIdentity.createdAt));
+      return identities.map(({ encryptedSmtpPassword, ...identity }) => ({
+        ...identity,
+        hasSmtpPassword: !!encryptedSmtpPassword,
+      }));
+    }),
+  saveIdentity: privateProcedure
+    .input(identityInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      const { db } = ctx;
+      const foundConnection = await findGenericConnection(
+        db,
+        ctx.session.user.id,
+        input.connectionId,
+      );
+      const existing = input.id
+        ? await db.query.connectionIdentity.findFirst({
+            where: and(
+              eq(connectionIdentity.id, input.id),
+              eq(connectionIdentity.connectionId, foundConnection.id),
+            ),
+          })
+        : undefined;
+      if (input.id && !existing) throw new TRPCError({ code: 'NOT_FOUND' });
+      // The identity id is bound into the ciphertext, so it is generated up front
+      const id = existing?.id ?? `identity_${crypto.randomUUID()}`;
+
+      const email = input.email.toLowerCase();
+      const duplicate = await db.query.connectionIdentity.findFirst({
+        where: and(
+          eq(connectionIdentity.connectionId, foundConnection.id),
+          eq(connectionIdentity.email, email),
+          ne(connectionIdentity.id, id),
+        ),
+      });
+      if (duplicate) {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: `${email} is already an identity of this connection`,
+        });
+      }
+
+      // The login address always sends with the connection's own login
+      const smtpUsername =
+        email === foundConnection.email.toLowerCase() ? null : input.smtpUsername || null;
+      let encryptedSmtpPassword =
+        smtpUsername && smtpUsername === existing?.smtpUsername
+          ? existing.encryptedSmtpPassword
+          : null;
+      if (smtpUsername && input.smtpPassword) {
+        // Refuse a login that does not work, sending as the identity would fail later on
+        const test = await testSmtp(
+          {
+            host: foundConnection.smtpHost ?? '',
+            port: foundConnection.smtpPort ?? 587,
+            security: foundConnection.smtpSecure ? 'ssl' : 'starttls',
+          },
+          { user: smtpUsername, pass: input.smtpPassword },
+        );
+        if (!test.ok) {
+          const failed = test.steps
+            .filter((step) => step.status === 'failed')
+            .map((step) => `${step.step}: ${step.message}`);
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `SMTP login failed (${failed.join('; ')})`,
+          });
+        }
+        const keyring = await getCredentialKeyring();
+        encryptedSmtpPassword = await encryptCredential(keyring, input.smtpPassword, id);
+      }
+      if (smtpUsername && !encryptedSmtpPassword) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'SMTP password is required' });
+      }
+
+      const now = new Date();
+      const values = {
+        email,
+        name: input.name || null,
+        replyTo: input.replyTo || null,
+        smtpUsername,
+        encryptedSmtpPassword,
+        updatedAt: now,
+      };
+      if (existing) {
+        await db.update(connectionIdentity).set(values).where(eq(connectionIdentity.id, id));
+      } else {
+        await db
+          .insert(connectionIdentity)
+          .values({ id, connectionId: foundConnection.id, ...values, createdAt: now });
+      }
+      return { id };
+    }),
+  deleteIdentity: privateProcedure
+    .input(z.object({ connectionId: z.string(), id: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      const { db } = ctx;
+      const foundConnection = await findGenericConnection(
+        db,
+        ctx.session.user.id,
+        input.connectionId,
+      );
+      const [deleted] = await db
+        .delete(connectionIdentity)
+        .where(
+          and(
+            eq(connectionIdentity.id, input.id),
+            eq(connectionIdentity.connectionId, foundConnection.id),
+          ),
+        )
+        .returning({ id: connectionIdentity.id });
+      if (!deleted) throw new TRPCError({ code: 'NOT_FOUND' });
+      return { success: true };
+    }),
+
+    discoverGenericSettings: privateProcedure
+      .use(
+        createRateLimiterMiddleware({
+          limiter: Ratelimit.slidingWindow(20, '1m'),
+          generatePrefix: ({ session }) => `ratelimit:discover-generic-settings-${session?.user.id}`,
+        }),
+      )
+      .input(z.object({ email: z.string().email() }))
+      .query(async ({ input }) => {
+        return { settings: await discoverMailSettings(input.email) };
+      }),
+
+    testGenericConnection: privateProcedure
+      .use(
+        createRateLimiterMiddleware({
+          limiter: Ratelimit.slidingWindow(10, '1m'),
+          generatePrefix: ({ session }) => `ratelimit:test-generic-connection-${session?.user.id}`,
+        }),
+      )
+      .input(connectionTestInputSchema)
+      .mutation(async ({ input }) => {
+        return testConnection(toConnectionTestInput(input));
+      }),
+
     addGenericConnection: privateProcedure
       .input(genericConnectionInputSchema)
       .mutation(async ({ input, ctx }) => {
@@ -95,21 +460,44 @@ export const connectionsRouter = router({
 
         console.log(`Attempting to add generic connection for user ${userId} with email ${input.email}`);
 
-        // **CRITICAL SECURITY WARNING:** The password must be securely encrypted before saving.
-        // The `encryptPassword` function used here is a placeholder and NOT secure.
-        const hashedPassword = await encryptPassword(input.password);
-        
+        // Refuse settings that cannot log in, the form runs the same test to show the details
+        const tokenProvider = inputTokenProvider(input.oauth);
+        const test = await testConnection(toConnectionTestInput(input, tokenProvider));
+        if (!test.ok) {
+          const failed = (['imap', 'smtp', 'pop3'] as const).flatMap((protocol) =>
+            (test[protocol]?.steps ?? [])
+              .filter((step) => step.status === 'failed')
+              .map((step) => `${protocol.toUpperCase()} ${step.step}: ${step.message}`),
+          );
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `Connection test failed (${failed.join('; ')})`,
+          });
+        }
+
+        // The connection id is bound into the ciphertext, so it is generated up front
+        const connectionId = `conn_generic_${crypto.randomUUID()}`;
+        const keyring = await getCredentialKeyring();
+        const encryptedPassword = input.password
+          ? await encryptCredential(keyring, input.password, connectionId)
+          : null;
+        // The test may have refreshed the tokens already
+        const token = tokenProvider?.token;
+        const encryptedRefreshToken = token?.refreshToken
+          ? await encryptCredential(keyring, token.refreshToken, connectionId)
+          : null;
+
         try {
           const newConnection = await db
             .insert(connection)
             .values({
-              id: `conn_generic_${crypto.randomUUID()}`, // Generate a unique ID
+              id: connectionId,
               userId: userId,
               providerId: 'generic_imap_smtp',
               email: input.email, // IMAP/SMTP username
               name: input.name,   // User-given name for the connection
               
-              encryptedPassword: hashedPassword, // Store the "encrypted" password
+              encryptedPassword, // Envelope encrypted, see lib/credentials.ts
               
               imapHost: input.imapHost,
               imapPort: input.imapPort,
@@ -122,12 +510,15 @@ export const connectionsRouter = router({
               pop3Host: input.pop3Host || null,
               pop3Port: input.pop3Port || null,
               pop3Tls: input.pop3Tls || null,
+              pop3LeaveOnServer: input.pop3LeaveOnServer ?? null,
+              pop3DeleteAfterDays: input.pop3DeleteAfterDays ?? null,
               // smtpRequireTLS is often implicit in nodemailer based on port/secure
 
-              // Set OAuth fields to null or appropriate defaults for non-OAuth connections
-              accessToken: null,
-              refreshToken: null,
-              expiresAt: null,
+              // Null for password logins
+              oauthProvider: input.oauth?.provider ?? null,
+              accessToken: token?.accessToken ?? null,
+              refreshToken: encryptedRefreshToken, // Envelope encrypted like the password
+              expiresAt: token?.expiresAt ?? null,
               tokenType: null,
               scope: null,
               picture: null, // No picture for generic IMAP/SMTP
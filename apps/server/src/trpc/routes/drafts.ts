@@ -1,12 +1,55 @@
+import { createDraftData, scheduledAtSchema, sendContextSchema } from '../../lib/schemas';
+import { draftToOutgoing, Outbox, outboxAvailable, scheduleSend } from '../../lib/outbox';
+import { assertSendsAs, withParentMessage } from '../../lib/outgoing';
 import { activeDriverProcedure, router } from '../trpc';
-import { createDraftData } from '../../lib/schemas';
+import { TRPCError } from '@trpc/server';
 import { z } from 'zod';
 
 export const draftsRouter = router({
-  create: activeDriverProcedure.input(createDraftData).mutation(async ({ input, ctx }) => {
-    const { driver } = ctx;
-    return driver.createDraft(input);
-  }),
+  // With `scheduledAt` the saved draft is sent at that time, from the address and in the
+  // conversation the send context names like mail.send
+  create: activeDriverProcedure
+    .input(
+      createDraftData
+        .merge(sendContextSchema)
+        .extend({ scheduledAt: scheduledAtSchema.optional() }),
+    )
+    .mutation(async ({ input, ctx }) => {
+      const { driver, activeConnection } = ctx;
+      const { scheduledAt, headers, threadId, fromEmail, mode, parentId, ...draft } = input;
+      if (scheduledAt && !outboxAvailable()) {
+        throw new TRPCError({
+          code: 'PRECONDITION_FAILED',
+          message: 'Scheduled send is not available',
+        });
+      }
+      const mail = scheduledAt
+        ? await withParentMessage(driver, {
+            ...draftToOutgoing(draft),
+            headers,
+            threadId,
+            fromEmail,
+            mode,
+            parentId,
+          })
+        : undefined;
+      if (mail) await assertSendsAs(driver, mail.fromEmail);
+
+      const result = await driver.createDraft(draft);
+      // A new copy of a scheduled draft takes its send along
+      if (outboxAvailable() && draft.id && result.id && result.id !== draft.id) {
+        await new Outbox(ctx.db, activeConnection.id).moveDraft(draft.id, result.id);
+      }
+      if (!mail || !scheduledAt || !result.id) return result;
+      const scheduledId = await scheduleSend(
+        ctx.db,
+        { connectionId: activeConnection.id, userId: ctx.session.user.id },
+        mail,
+        scheduledAt,
+        { draftId: result.id },
+      );
+      return { ...result, scheduledId };
+    }),
   get: activeDriverProcedure.input(z.object({ id: z.string() })).query(async ({ input, ctx }) => {
     const { driver } = ctx;
     const { id } = input;
@@ -1,10 +1,36 @@
-import { activeDriverProcedure, createRateLimiterMiddleware, router } from '../trpc';
+import {
+  deserializeFiles,
+  scheduledAtSchema,
+  sendContextSchema,
+  serializedFileSchema,
+} from '../../lib/schemas';
+import {
+  activeConnectionProcedure,
+  activeDriverProcedure,
+  createRateLimiterMiddleware,
+  router,
+} from '../trpc';
+import { defaultUserSettings, userSettingsSchema } from '@zero/db/user_settings_default';
+import { Outbox, outboxAvailable, scheduleSend, wakeOutbox } from '../../lib/outbox';
 import { updateWritingStyleMatrix } from '../../services/writing-style-service';
-import { deserializeFiles, serializedFileSchema } from '../../lib/schemas';
+import { assertSendsAs, withParentMessage } from '../../lib/outgoing';
 import { defaultPageSize, FOLDERS } from '../../lib/utils';
 import { Ratelimit } from '@upstash/ratelimit';
+import { userSettings } from '@zero/db/schema';
+import { TRPCError } from '@trpc/server';
+import type { DB } from '@zero/db';
+import { eq } from 'drizzle-orm';
 import { z } from 'zod';
 
+const undoSendSeconds = async (db: DB, userId: string) => {
+  const row = await db.query.userSettings.findFirst({
+    where: eq(userSettings.userId, userId),
+    columns: { settings: true },
+  });
+  const settings = userSettingsSchema.safeParse(row?.settings ?? defaultUserSettings);
+  return settings.success ? settings.data.undoSendSeconds : defaultUserSettings.undoSendSeconds;
+};
+
 const senderSchema = z.object({
   name: z.string().optional(),
   email: z.string(),
@@ -181,31 +207,67 @@ export const mailRouter = router({
     }),
   send: activeDriverProcedure
     .input(
-      z.object({
-        to: z.array(senderSchema),
-        subject: z.string(),
-        message: z.string(),
-        attachments: z
-          .array(serializedFileSchema)
-          .transform(deserializeFiles)
-          .optional()
-          .default([]),
-        headers: z.record(z.string()).optional().default({}),
-        cc: z.array(senderSchema).optional(),
-        bcc: z.array(senderSchema).optional(),
-        threadId: z.string().optional(),
-        fromEmail: z.string().optional(),
-        draftId: z.string().optional(),
-      }),
+      z
+        .object({
+          to: z.array(senderSchema),
+          subject: z.string(),
+          message: z.string(),
+          attachments: z
+            .array(serializedFileSchema)
+            .transform(deserializeFiles)
+            .optional()
+            .default([]),
+          cc: z.array(senderSchema).optional(),
+          bcc: z.array(senderSchema).optional(),
+          draftId: z.string().optional(),
+          // Sends the message later from the outbox instead of right away
+          scheduledAt: scheduledAtSchema.optional(),
+        })
+        .merge(sendContextSchema),
     )
     .mutation(async ({ ctx, input }) => {
       const { driver, activeConnection } = ctx;
-      const { draftId, ...mail } = input;
+      const { draftId, scheduledAt, ...rest } = input;
+      if (scheduledAt && !outboxAvailable()) {
+        throw new TRPCError({
+          code: 'PRECONDITION_FAILED',
+          message: 'Scheduled send is not available',
+        });
+      }
+      const mail = await withParentMessage(driver, rest);
+      if (outboxAvailable()) await assertSendsAs(driver, mail.fromEmail);
+
+      // Mail going through the outbox updates the writing style once it was delivered
+      if (scheduledAt) {
+        const scheduledId = await scheduleSend(
+          ctx.db,
+          { connectionId: activeConnection.id, userId: ctx.session.user.id },
+          mail,
+          scheduledAt,
+          { draftId },
+        );
+        return { success: true, scheduledId };
+      }
+
+      // Held back for a few seconds, so the composer can still take it back with cancelSend
+      if (outboxAvailable()) {
+        const undoUntil = new Date(
+          Date.now() + (await undoSendSeconds(ctx.db, ctx.session.user.id)) * 1000,
+        );
+        const scheduledId = await scheduleSend(
+          ctx.db,
+          { connectionId: activeConnection.id, userId: ctx.session.user.id },
+          mail,
+          undoUntil,
+          { draftId, held: true },
+        );
+        return { success: true, scheduledId, undoUntil };
+      }
 
       const afterTask = async () => {
         try {
           console.warn('Saving writing style matrix...');
-          await updateWritingStyleMatrix(activeConnection.id, input.message, ctx.c);
+          await updateWritingStyleMatrix(activeConnection.id, input.message, ctx.db);
           console.warn('Saved writing style matrix.');
         } catch (error) {
           console.error('Failed to save writing style matrix', error);
@@ -215,12 +277,48 @@ export const mailRouter = router({
       if (draftId) {
         await driver.sendDraft(draftId, mail);
       } else {
-        await driver.create(input);
+        await driver.create(mail);
       }
 
       ctx.c.executionCtx.waitUntil(afterTask());
       return { success: true };
     }),
+  // Scheduled sends of the active connection that are pending or failed, soonest first
+  listScheduled: activeConnectionProcedure.query(async ({ ctx }) => {
+    return new Outbox(ctx.db, ctx.activeConnection.id).list();
+  }),
+  reschedule: activeConnectionProcedure
+    .input(z.object({ id: z.string(), scheduledAt: scheduledAtSchema }))
+    .mutation(async ({ input, ctx }) => {
+      const outbox = new Outbox(ctx.db, ctx.activeConnection.id);
+      if (!(await outbox.reschedule(input.id, input.scheduledAt))) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'No pending send with this id' });
+      }
+      await wakeOutbox(ctx.activeConnection.id);
+      return { success: true };
+    }),
+  // Takes back a message held for undo send and returns it, attachments included, so the
+  // composer can be filled again
+  cancelSend: activeConnectionProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      const entry = await new Outbox(ctx.db, ctx.activeConnection.id).cancel(input.id);
+      if (!entry) {
+        throw new TRPCError({ code: 'CONFLICT', message: 'The message was already sent' });
+      }
+      await wakeOutbox(ctx.activeConnection.id);
+      return { message: entry.message, draftId: entry.draftId };
+    }),
+  cancelScheduled: activeConnectionProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      const outbox = new Outbox(ctx.db, ctx.activeConnection.id);
+      if (!(await outbox.cancel(input.id))) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'No pending send with this id' });
+      }
+      await wakeOutbox(ctx.activeConnection.id);
+      return { success: true };
+    }),
   delete: activeDriverProcedure
     .input(
       z.object({
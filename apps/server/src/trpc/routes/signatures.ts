@@ -0,0 +1,59 @@
+import { activeConnectionProcedure, privateProcedure, router } from '../trpc';
+import { SignaturesManager } from '../../lib/signatures-manager';
+import { z } from 'zod';
+
+const signaturesProcedure = privateProcedure.use(async ({ ctx, next }) => {
+  const signaturesManager = new SignaturesManager(ctx.db);
+  return next({ ctx: { ...ctx, signaturesManager } });
+});
+
+// Defaults are per address of the active connection
+const connectionSignaturesProcedure = activeConnectionProcedure.use(async ({ ctx, next }) => {
+  const signaturesManager = new SignaturesManager(ctx.db);
+  return next({ ctx: { ...ctx, signaturesManager } });
+});
+
+export const signaturesRouter = router({
+  list: signaturesProcedure.query(async ({ ctx }) => {
+    const signatures = await ctx.signaturesManager.getSignatures(ctx.session.user.id);
+    return { signatures };
+  }),
+  save: signaturesProcedure
+    .input(
+      z.object({
+        id: z.string().optional(), // Updates this signature, a new one is added without
+        name: z.string().trim().min(1),
+        html: z.string(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const signature = await ctx.signaturesManager.saveSignature(ctx.session.user.id, input);
+      return { signature };
+    }),
+  delete: signaturesProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const success = await ctx.signaturesManager.deleteSignature(ctx.session.user.id, input.id);
+      return { success };
+    }),
+  defaults: connectionSignaturesProcedure.query(async ({ ctx }) => {
+    const defaults = await ctx.signaturesManager.getDefaults(ctx.activeConnection.id);
+    return { defaults };
+  }),
+  setDefault: connectionSignaturesProcedure
+    .input(
+      z.object({
+        email: z.string().email(),
+        newMailSignatureId: z.string().nullable(),
+        replySignatureId: z.string().nullable(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const signatureDefault = await ctx.signaturesManager.setDefault(
+        ctx.session.user.id,
+        ctx.activeConnection.id,
+        input,
+      );
+      return { default: signatureDefault };
+    }),
+});
@@ -0,0 +1,81 @@
+import { activeConnectionProcedure, privateProcedure, router } from '../trpc';
+import { TemplatesManager } from '../../lib/templates-manager';
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+
+const templatesProcedure = privateProcedure.use(async ({ ctx, next }) => {
+  const templatesManager = new TemplatesManager(ctx.db);
+  return next({ ctx: { ...ctx, templatesManager } });
+});
+
+// Templates not shared belong to the active connection
+const connectionTemplatesProcedure = activeConnectionProcedure.use(async ({ ctx, next }) => {
+  const templatesManager = new TemplatesManager(ctx.db);
+  return next({ ctx: { ...ctx, templatesManager } });
+});
+
+const templateSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  subject: z.string().nullable().default(null),
+  body: z.string().max(100_000), // HTML, sanitized before it is stored
+  shared: z.boolean().default(true), // Available to all of the user's connections
+});
+
+export const templatesRouter = router({
+  list: connectionTemplatesProcedure.query(async ({ ctx }) => {
+    const templates = await ctx.templatesManager.getTemplates(
+      ctx.session.user.id,
+      ctx.activeConnection.id,
+    );
+    return { templates };
+  }),
+  // For settings, where templates kept to other connections are managed too
+  listAll: templatesProcedure.query(async ({ ctx }) => {
+    const templates = await ctx.templatesManager.getAllTemplates(ctx.session.user.id);
+    return { templates };
+  }),
+  save: connectionTemplatesProcedure
+    .input(templateSchema.extend({ id: z.string().optional() }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      if (await ctx.templatesManager.isNameTaken(userId, input.name, input.id)) {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: `A template named "${input.name}" already exists`,
+        });
+      }
+      const template = await ctx.templatesManager.saveTemplate(userId, {
+        id: input.id,
+        name: input.name,
+        subject: input.subject || null,
+        body: input.body,
+        connectionId: input.shared ? null : ctx.activeConnection.id,
+      });
+      return { template };
+    }),
+  delete: templatesProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const success = await ctx.templatesManager.deleteTemplate(ctx.session.user.id, input.id);
+      return { success };
+    }),
+  export: templatesProcedure.query(async ({ ctx }) => {
+    const templates = await ctx.templatesManager.exportTemplates(ctx.session.user.id);
+    return { version: 1 as const, templates };
+  }),
+  import: connectionTemplatesProcedure
+    .input(
+      z.object({
+        version: z.literal(1),
+        templates: z.array(templateSchema).max(500),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const imported = await ctx.templatesManager.importTemplates(
+        ctx.session.user.id,
+        ctx.activeConnection.id,
+        input.templates,
+      );
+      return { imported };
+    }),
+});
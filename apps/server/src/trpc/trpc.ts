@@ -38,7 +38,7 @@ export const activeConnectionProcedure = privateProcedure.use(async ({ ctx, next
 
 export const activeDriverProcedure = activeConnectionProcedure.use(async ({ ctx, next }) => {
   const { activeConnection } = ctx;
-  const driver = connectionToDriver(activeConnection, ctx.c);
+  const driver = await connectionToDriver(activeConnection, ctx.c);
   const res = await next({ ctx: { ...ctx, driver } });
 
   // This is for when the user has not granted the required scopes for GMail
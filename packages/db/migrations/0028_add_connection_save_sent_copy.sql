@@ -0,0 +1 @@
+ALTER TABLE "mail0_connection" ADD COLUMN "save_sent_copy" boolean;
@@ -0,0 +1,23 @@
+CREATE TABLE "mail0_imap_mailbox_state" (
+	"connection_id" text NOT NULL,
+	"mailbox" text NOT NULL,
+	"uid_validity" text NOT NULL,
+	"uid_next" integer NOT NULL,
+	"highest_modseq" text,
+	"synced_at" timestamp NOT NULL,
+	CONSTRAINT "mail0_imap_mailbox_state_connection_id_mailbox_pk" PRIMARY KEY("connection_id","mailbox")
+);
+--> statement-breakpoint
+CREATE TABLE "mail0_imap_message" (
+	"connection_id" text NOT NULL,
+	"mailbox" text NOT NULL,
+	"uid" integer NOT NULL,
+	"flags" jsonb NOT NULL,
+	"envelope" jsonb,
+	"internal_date" timestamp,
+	"size" integer,
+	CONSTRAINT "mail0_imap_message_connection_id_mailbox_uid_pk" PRIMARY KEY("connection_id","mailbox","uid")
+);
+--> statement-breakpoint
+ALTER TABLE "mail0_imap_mailbox_state" ADD CONSTRAINT "mail0_imap_mailbox_state_connection_id_mail0_connection_id_fk" FOREIGN KEY ("connection_id") REFERENCES "public"."mail0_connection"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "mail0_imap_message" ADD CONSTRAINT "mail0_imap_message_connection_id_mail0_connection_id_fk" FOREIGN KEY ("connection_id") REFERENCES "public"."mail0_connection"("id") ON DELETE cascade ON UPDATE no action;
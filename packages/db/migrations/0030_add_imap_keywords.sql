@@ -0,0 +1,12 @@
+CREATE TABLE "mail0_imap_keyword" (
+	"connection_id" text NOT NULL,
+	"keyword" text NOT NULL,
+	"name" text NOT NULL,
+	"background_color" text,
+	"text_color" text,
+	"created_at" timestamp NOT NULL,
+	CONSTRAINT "mail0_imap_keyword_connection_id_keyword_pk" PRIMARY KEY("connection_id","keyword"),
+	CONSTRAINT "mail0_imap_keyword_connection_id_name_unique" UNIQUE("connection_id","name")
+);
+--> statement-breakpoint
+ALTER TABLE "mail0_imap_keyword" ADD CONSTRAINT "mail0_imap_keyword_connection_id_mail0_connection_id_fk" FOREIGN KEY ("connection_id") REFERENCES "public"."mail0_connection"("id") ON DELETE cascade ON UPDATE no action;
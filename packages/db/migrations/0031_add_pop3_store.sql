@@ -0,0 +1,25 @@
+ALTER TABLE "mail0_connection" ADD COLUMN "pop3_leave_on_server" boolean;--> statement-breakpoint
+ALTER TABLE "mail0_connection" ADD COLUMN "pop3_delete_after_days" integer;--> statement-breakpoint
+CREATE TABLE "mail0_pop3_message" (
+	"connection_id" text NOT NULL,
+	"uidl" text NOT NULL,
+	"folder" text NOT NULL,
+	"source" text NOT NULL,
+	"subject" text,
+	"sender" text,
+	"recipients" text,
+	"snippet" text,
+	"message_id" text,
+	"has_attachments" boolean DEFAULT false NOT NULL,
+	"size" integer NOT NULL,
+	"seen" boolean DEFAULT false NOT NULL,
+	"flagged" boolean DEFAULT false NOT NULL,
+	"keywords" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"received_at" timestamp NOT NULL,
+	"downloaded_at" timestamp NOT NULL,
+	"on_server" boolean DEFAULT true NOT NULL,
+	CONSTRAINT "mail0_pop3_message_connection_id_uidl_pk" PRIMARY KEY("connection_id","uidl")
+);
+--> statement-breakpoint
+ALTER TABLE "mail0_pop3_message" ADD CONSTRAINT "mail0_pop3_message_connection_id_mail0_connection_id_fk" FOREIGN KEY ("connection_id") REFERENCES "public"."mail0_connection"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "mail0_pop3_message_folder_idx" ON "mail0_pop3_message" USING btree ("connection_id","folder","received_at");
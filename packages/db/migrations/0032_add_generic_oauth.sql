@@ -0,0 +1 @@
+ALTER TABLE "mail0_connection" ADD COLUMN "oauth_provider" text;
@@ -0,0 +1,17 @@
+CREATE TABLE "mail0_outbox" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"connection_id" text NOT NULL,
+	"message" jsonb NOT NULL,
+	"draft_id" text,
+	"scheduled_at" timestamp NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"last_error" text,
+	"created_at" timestamp NOT NULL,
+	"updated_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "mail0_outbox" ADD CONSTRAINT "mail0_outbox_user_id_mail0_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."mail0_user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "mail0_outbox" ADD CONSTRAINT "mail0_outbox_connection_id_mail0_connection_id_fk" FOREIGN KEY ("connection_id") REFERENCES "public"."mail0_connection"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "mail0_outbox_due_idx" ON "mail0_outbox" USING btree ("connection_id","status","scheduled_at");
@@ -0,0 +1 @@
+ALTER TABLE "mail0_outbox" ADD COLUMN "held" boolean DEFAULT false NOT NULL;
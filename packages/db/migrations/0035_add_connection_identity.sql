@@ -0,0 +1,15 @@
+CREATE TABLE "mail0_connection_identity" (
+	"id" text PRIMARY KEY NOT NULL,
+	"connection_id" text NOT NULL,
+	"email" text NOT NULL,
+	"name" text,
+	"reply_to" text,
+	"smtp_username" text,
+	"encrypted_smtp_password" text,
+	"signature" text,
+	"created_at" timestamp NOT NULL,
+	"updated_at" timestamp NOT NULL,
+	CONSTRAINT "mail0_connection_identity_connection_id_email_unique" UNIQUE("connection_id","email")
+);
+--> statement-breakpoint
+ALTER TABLE "mail0_connection_identity" ADD CONSTRAINT "mail0_connection_identity_connection_id_mail0_connection_id_fk" FOREIGN KEY ("connection_id") REFERENCES "public"."mail0_connection"("id") ON DELETE cascade ON UPDATE no action;
@@ -0,0 +1,33 @@
+CREATE TABLE "mail0_signature" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"name" text NOT NULL,
+	"html" text NOT NULL,
+	"created_at" timestamp NOT NULL,
+	"updated_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "mail0_signature_default" (
+	"connection_id" text NOT NULL,
+	"email" text NOT NULL,
+	"new_mail_signature_id" text,
+	"reply_signature_id" text,
+	"updated_at" timestamp NOT NULL,
+	CONSTRAINT "mail0_signature_default_connection_id_email_pk" PRIMARY KEY("connection_id","email")
+);
+--> statement-breakpoint
+ALTER TABLE "mail0_signature" ADD CONSTRAINT "mail0_signature_user_id_mail0_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."mail0_user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "mail0_signature_default" ADD CONSTRAINT "mail0_signature_default_connection_id_mail0_connection_id_fk" FOREIGN KEY ("connection_id") REFERENCES "public"."mail0_connection"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "mail0_signature_default" ADD CONSTRAINT "mail0_signature_default_new_mail_signature_id_mail0_signature_id_fk" FOREIGN KEY ("new_mail_signature_id") REFERENCES "public"."mail0_signature"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "mail0_signature_default" ADD CONSTRAINT "mail0_signature_default_reply_signature_id_mail0_signature_id_fk" FOREIGN KEY ("reply_signature_id") REFERENCES "public"."mail0_signature"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+-- Signatures of sending identities become named signatures, used by their address for new mail and replies
+INSERT INTO "mail0_signature" ("id", "user_id", "name", "html", "created_at", "updated_at")
+SELECT "identity"."id", "connection"."user_id", "identity"."email", "identity"."signature", "identity"."created_at", "identity"."updated_at"
+FROM "mail0_connection_identity" "identity"
+JOIN "mail0_connection" "connection" ON "connection"."id" = "identity"."connection_id"
+WHERE "identity"."signature" IS NOT NULL;--> statement-breakpoint
+INSERT INTO "mail0_signature_default" ("connection_id", "email", "new_mail_signature_id", "reply_signature_id", "updated_at")
+SELECT "connection_id", "email", "id", "id", "updated_at"
+FROM "mail0_connection_identity"
+WHERE "signature" IS NOT NULL;--> statement-breakpoint
+ALTER TABLE "mail0_connection_identity" DROP COLUMN "signature";
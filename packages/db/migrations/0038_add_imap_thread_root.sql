@@ -0,0 +1,2 @@
+ALTER TABLE "mail0_imap_message" ADD COLUMN "thread_root" integer;--> statement-breakpoint
+CREATE INDEX "mail0_imap_message_thread_idx" ON "mail0_imap_message" USING btree ("connection_id","mailbox","thread_root");
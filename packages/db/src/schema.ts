@@ -6,6 +6,7 @@ import {
   integer,
   jsonb,
   primaryKey,
+  index,
 } from 'drizzle-orm/pg-core';
 import { defaultUserSettings } from '@zero/db/user_settings_default';
 import { unique } from 'drizzle-orm/pg-core';
@@ -98,6 +99,10 @@ export const connection = createTable(
     providerId: text('provider_id').notNull(),
     expiresAt: timestamp('expires_at'),
     encryptedPassword: text('encrypted_password'),
+    // Generic connections that log in with OAuth: the provider whose token endpoint refreshes
+    // accessToken, or 'static' for tokens that are used as they are. The refresh token is
+    // envelope encrypted like the password.
+    oauthProvider: text('oauth_provider'),
     imapHost: text('imap_host'),
     imapPort: integer('imap_port'),
     imapSecure: boolean('imap_secure'),
@@ -108,12 +113,230 @@ export const connection = createTable(
     pop3Host: text('pop3_host'),
     pop3Port: integer('pop3_port'),
     pop3Tls: boolean('pop3_tls'),
+    // Null leaves downloaded mail on the server, like most POP3 clients do by default
+    pop3LeaveOnServer: boolean('pop3_leave_on_server'),
+    pop3DeleteAfterDays: integer('pop3_delete_after_days'),
+    mailboxMapping: jsonb('mailbox_mapping').$type<Record<string, string>>(),
+    saveSentCopy: boolean('save_sent_copy'),
     createdAt: timestamp('created_at').notNull(),
     updatedAt: timestamp('updated_at').notNull(),
   },
   (t) => [unique().on(t.userId, t.email)],
 );
 
+// Addresses a generic connection sends as besides its login, like role addresses or
+// plus-aliases. A row for the login address itself only changes how that one is presented.
+export const connectionIdentity = createTable(
+  'connection_identity',
+  {
+    id: text('id').primaryKey(),
+    connectionId: text('connection_id')
+      .notNull()
+      .references(() => connection.id, { onDelete: 'cascade' }),
+    // Lower case, so an address is only added once
+    email: text('email').notNull(),
+    name: text('name'),
+    replyTo: text('reply_to'),
+    // SMTP login for addresses the connection's own login may not send as. The password is
+    // envelope encrypted like the connection's, bound to the identity id.
+    smtpUsername: text('smtp_username'),
+    encryptedSmtpPassword: text('encrypted_smtp_password'),
+    createdAt: timestamp('created_at').notNull(),
+    updatedAt: timestamp('updated_at').notNull(),
+  },
+  (t) => [unique().on(t.connectionId, t.email)],
+);
+
+// Named signatures of a user, HTML sanitized when saved. Which one an address starts its
+// messages with is up to signatureDefault.
+export const signature = createTable('signature', {
+  id: text('id').primaryKey(),
+  userId: text('user_id')
+    .notNull()
+    .references(() => user.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  html: text('html').notNull(),
+  createdAt: timestamp('created_at').notNull(),
+  updatedAt: timestamp('updated_at').notNull(),
+});
+
+// The signatures an address of a connection uses for new mail and for replies and forwards,
+// none when unset. Addresses are the connection's aliases in lower case.
+export const signatureDefault = createTable(
+  'signature_default',
+  {
+    connectionId: text('connection_id')
+      .notNull()
+      .references(() => connection.id, { onDelete: 'cascade' }),
+    email: text('email').notNull(),
+    newMailSignatureId: text('new_mail_signature_id').references(() => signature.id, {
+      onDelete: 'set null',
+    }),
+    replySignatureId: text('reply_signature_id').references(() => signature.id, {
+      onDelete: 'set null',
+    }),
+    updatedAt: timestamp('updated_at').notNull(),
+  },
+  (t) => [primaryKey({ columns: [t.connectionId, t.email] })],
+);
+
+// Reusable messages of a user, shared by all of their connections unless kept to one.
+// The body is sanitized HTML with {{variables}} the composer fills in when inserting it.
+export const emailTemplate = createTable(
+  'email_template',
+  {
+    id: text('id').primaryKey(),
+    userId: text('user_id')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    connectionId: text('connection_id').references(() => connection.id, {
+      onDelete: 'cascade',
+    }),
+    name: text('name').notNull(),
+    subject: text('subject'),
+    body: text('body').notNull(),
+    createdAt: timestamp('created_at').notNull(),
+    updatedAt: timestamp('updated_at').notNull(),
+  },
+  // Imports match existing templates by name
+  (t) => [unique().on(t.userId, t.name)],
+);
+
+// Local copy of IMAP mailboxes for incremental sync (CONDSTORE/QRESYNC or a UID/flags diff).
+// Rows are only valid for the UIDVALIDITY recorded in the mailbox state.
+export const imapMailboxState = createTable(
+  'imap_mailbox_state',
+  {
+    connectionId: text('connection_id')
+      .notNull()
+      .references(() => connection.id, { onDelete: 'cascade' }),
+    mailbox: text('mailbox').notNull(),
+    uidValidity: text('uid_validity').notNull(),
+    uidNext: integer('uid_next').notNull(),
+    // Postgres has no unsigned 64 bit integer, mod-sequences are kept as text
+    highestModseq: text('highest_modseq'),
+    syncedAt: timestamp('synced_at').notNull(),
+  },
+  (t) => [primaryKey({ columns: [t.connectionId, t.mailbox] })],
+);
+
+export const imapMessage = createTable(
+  'imap_message',
+  {
+    connectionId: text('connection_id')
+      .notNull()
+      .references(() => connection.id, { onDelete: 'cascade' }),
+    mailbox: text('mailbox').notNull(),
+    uid: integer('uid').notNull(),
+    flags: jsonb('flags').$type<string[]>().notNull(),
+    // Fetched lazily, null until the message was listed once
+    envelope: jsonb('envelope').$type<Record<string, unknown>>(),
+    internalDate: timestamp('internal_date'),
+    size: integer('size'),
+    // Oldest UID of the conversation in this mailbox, from the server's THREAD. Null until the
+    // mailbox was threaded, or when the server can't thread.
+    threadRoot: integer('thread_root'),
+  },
+  (t) => [
+    primaryKey({ columns: [t.connectionId, t.mailbox, t.uid] }),
+    index('mail0_imap_message_thread_idx').on(t.connectionId, t.mailbox, t.threadRoot),
+  ],
+);
+
+// User labels of IMAP connections whose server accepts arbitrary keywords (PERMANENTFLAGS \*),
+// and of POP3 connections, whose messages carry the keywords in mail0_pop3_message.
+// The keyword is what is stored on the messages, name and colors are only known to the app.
+export const imapKeyword = createTable(
+  'imap_keyword',
+  {
+    connectionId: text('connection_id')
+      .notNull()
+      .references(() => connection.id, { onDelete: 'cascade' }),
+    keyword: text('keyword').notNull(),
+    name: text('name').notNull(),
+    backgroundColor: text('background_color'),
+    textColor: text('text_color'),
+    createdAt: timestamp('created_at').notNull(),
+  },
+  (t) => [
+    primaryKey({ columns: [t.connectionId, t.keyword] }),
+    unique().on(t.connectionId, t.name),
+  ],
+);
+
+// Mail downloaded from POP3 connections, keyed by the server's UIDL. POP3 only hands out
+// messages, so read state, labels and folders exist here alone. The columns besides the
+// source are taken from it on download, for listing and searching.
+export const pop3Message = createTable(
+  'pop3_message',
+  {
+    connectionId: text('connection_id')
+      .notNull()
+      .references(() => connection.id, { onDelete: 'cascade' }),
+    uidl: text('uidl').notNull(),
+    folder: text('folder').notNull(),
+    source: text('source').notNull(),
+    subject: text('subject'),
+    sender: text('sender'),
+    recipients: text('recipients'),
+    snippet: text('snippet'),
+    messageId: text('message_id'),
+    hasAttachments: boolean('has_attachments').notNull().default(false),
+    size: integer('size').notNull(),
+    seen: boolean('seen').notNull().default(false),
+    flagged: boolean('flagged').notNull().default(false),
+    keywords: jsonb('keywords').$type<string[]>().notNull().default([]),
+    receivedAt: timestamp('received_at').notNull(),
+    downloadedAt: timestamp('downloaded_at').notNull(),
+    // Cleared once the message was deleted from the server, by us or another client
+    onServer: boolean('on_server').notNull().default(true),
+  },
+  (t) => [
+    primaryKey({ columns: [t.connectionId, t.uidl] }),
+    index('mail0_pop3_message_folder_idx').on(t.connectionId, t.folder, t.receivedAt),
+  ],
+);
+
+// An outgoing message as mail.send received it, attachments base64 encoded
+export interface OutboxMessage {
+  to: { name?: string; email: string }[];
+  cc?: { name?: string; email: string }[];
+  bcc?: { name?: string; email: string }[];
+  subject: string;
+  message: string;
+  headers: Record<string, string>;
+  threadId?: string;
+  fromEmail?: string;
+  attachments: { name: string; type: string; size: number; lastModified: number; base64: string }[];
+}
+
+// Mail waiting to be sent at `scheduledAt`. Rows are removed once sent or cancelled, failed
+// ones stay with the error until they are rescheduled or cancelled.
+export const outbox = createTable(
+  'outbox',
+  {
+    id: text('id').primaryKey(),
+    userId: text('user_id')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    connectionId: text('connection_id')
+      .notNull()
+      .references(() => connection.id, { onDelete: 'cascade' }),
+    message: jsonb('message').$type<OutboxMessage>().notNull(),
+    // Sends this draft instead of a new message
+    draftId: text('draft_id'),
+    // Held back for undo send rather than scheduled by the user, until it is first sent
+    held: boolean('held').notNull().default(false),
+    scheduledAt: timestamp('scheduled_at').notNull(),
+    status: text('status').$type<'pending' | 'sending' | 'failed'>().notNull().default('pending'),
+    attempts: integer('attempts').notNull().default(0),
+    lastError: text('last_error'),
+    createdAt: timestamp('created_at').notNull(),
+    updatedAt: timestamp('updated_at').notNull(),
+  },
+  (t) => [index('mail0_outbox_due_idx').on(t.connectionId, t.status, t.scheduledAt)],
+);
+
 export const summary = createTable('summary', {
   messageId: text('message_id').primaryKey(),
   content: text('content').notNull(),
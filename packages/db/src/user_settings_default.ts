@@ -9,6 +9,7 @@ export const defaultUserSettings = {
   trustedSenders: [],
   isOnboarded: false,
   colorTheme: 'system',
+  undoSendSeconds: 10,
 } satisfies UserSettings;
 
 export const userSettingsSchema = z.object({
@@ -20,6 +21,8 @@ export const userSettingsSchema = z.object({
   isOnboarded: z.boolean().optional(),
   trustedSenders: z.string().array().optional(),
   colorTheme: z.enum(['light', 'dark', 'system']).default('system'),
+  // How long sent mail is held back so it can still be cancelled
+  undoSendSeconds: z.number().int().min(5).max(30).default(10),
 });
 
 export type UserSettings = z.infer<typeof userSettingsSchema>;
@@ -0,0 +1,39 @@
+import { parseKeyring, rotateConnectionCredentials } from '../../apps/server/src/lib/credentials';
+import { command, flag, boolean } from 'cmd-ts';
+import { confirm } from '@inquirer/prompts';
+import { createDb } from '@zero/db';
+
+export const rotateCredentialsCommand = command({
+  name: 'rotate-credentials',
+  description:
+    'Re-encrypt stored connection passwords with the first key in CONNECTION_ENCRYPTION_KEYS',
+  args: {
+    yes: flag({
+      type: boolean,
+      long: 'yes',
+      short: 'y',
+      description: 'Skip the confirmation prompt',
+    }),
+  },
+  handler: async ({ yes }) => {
+    if (!process.env.DATABASE_URL) throw new Error('DATABASE_URL is not set');
+    const keyring = await parseKeyring(process.env.CONNECTION_ENCRYPTION_KEYS);
+
+    if (
+      !yes &&
+      !(await confirm({
+        message: `Re-encrypt all connection passwords with key "${keyring.activeKeyId}"?`,
+      }))
+    ) {
+      return;
+    }
+
+    const db = createDb(process.env.DATABASE_URL);
+    const { total, rotated, failed } = await rotateConnectionCredentials(db, keyring);
+    console.warn(`Rotated ${rotated} of ${total} connection passwords.`);
+    if (failed.length) {
+      console.error('Failed connections:', failed.join(', '));
+      process.exitCode = 1;
+    }
+  },
+});
@@ -1,3 +1,4 @@
+import { rotateCredentialsCommand } from './rotate-credentials/index';
 import { sendEmailsCommand } from './send-emails/index';
 import { seedStyleCommand } from './seed-style/seeder';
 import { subcommands, run } from 'cmd-ts';
@@ -7,6 +8,7 @@ const app = subcommands({
   cmds: {
     'seed-style': seedStyleCommand,
     'send-emails': sendEmailsCommand,
+    'rotate-credentials': rotateCredentialsCommand,
   },
 });
 